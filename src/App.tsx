@@ -1,101 +1,190 @@
-import { useState, useEffect, useMemo } from 'react';
-import { Moon, Sun, Upload, Users, BookOpen, BarChart3, Eye, PlusCircle, Edit2, X, Check, AlertCircle, Calendar, User, Search, ChevronDown, ChevronRight } from 'lucide-react';
-
-// Types
-interface Card {
-  id: string;
-  name: string;
-  shortDescription: string;
-  longDescription: string;
-}
-
-interface MonthReading {
-  month: string;
-  cards: Card[];
-}
-
-interface PersonYearReading {
-  personName: string;
-  year: number;
-  readings: MonthReading[];
-  completedAt?: string;
-}
-
-interface GroupMember {
-  name: string;
-  joinedYears: number[];
-}
+import { useState, useEffect, useMemo, useReducer, useRef } from 'react';
+import { Moon, Sun, Upload, Users, BookOpen, BarChart3, Eye, PlusCircle, Edit2, X, Check, AlertCircle, Calendar, User, Search, ChevronDown, ChevronRight, Database, Download, Undo2, Redo2, History as HistoryIcon, Archive, ArchiveRestore, Trash2, RotateCcw, Printer } from 'lucide-react';
+import { MONTHS, type AccuracyRating, type AppData, type Card, type CardSentiment, type CardTheme, type DrawLogEntry, type Group, type GroupMember, type MonthReading, type PersonYearReading, type ReadingSession, type SessionOrder, type Spread, type SpreadPeriod, type TrashItem } from './types';
+import {
+  EMPTY_ANALYTICS_FILTER,
+  analyticsQuery,
+  cardPairs,
+  countCards,
+  deckSize,
+  matchingSlots,
+  pairKey,
+  parseAnalyticsQuery,
+  seenLabel,
+  sortCardCounts,
+  type AnalyticsFilter,
+  type AnalyticsSort,
+  type SlotRef
+} from './analytics';
+import { FAIRNESS_RUNS, MIN_EXPECTED, fairnessCheck, type FairnessResult } from './fairness';
+import { buildBooklet, groupBooklets, type Booklet } from './booklet';
+import { readingsCsv, readingsIcs, readingsMarkdown } from './exports';
+import { joinList, yearNarrative } from './narrative';
+import { dominantThemes, personTimeline, recurringCards, timelinePeople } from './timeline';
+import { createBackup, daysSinceBackup, mergeAppData, parseBackup, summarizeData, type DataSummary, type ParsedBackup } from './backup';
+import { parseCardJson, parseCardText, type ParsedCardText } from './cardImport';
+import {
+  CARD_THEMES, EMPTY_TAG_FILTER, SENTIMENT_LABELS, THEME_LABELS, isTagged, matchesTagFilter, setCardTags, suggestCardTags, withSuggestedTags,
+  type CardTagFilter
+} from './cardTags';
+import { applyCardMerge, defaultMergeChoice, planCardMerge, type CardMergeEntry, type MergeChoice } from './cardMerge';
+import { dateStamp, downloadFile } from './download';
+import { checkDrawLog, dealCards, newDrawSeed, type DrawCheck } from './draw';
+import { blockedCardIds, initialWizard, wizardReducer, type WizardEvent } from './entryWizard';
+import { nextTask, sessionGroup, sessionRows, setSessionPaused, skipMember, startSession, type SessionRow } from './session';
+import { canRedo, canUndo, currentData, jumpTo, recordChange, startHistory, type History } from './history';
+import {
+  BUILT_IN_SPREADS, DEFAULT_SPREAD_ID, MAX_SPREAD_POSITIONS, PERIOD_LABELS, adjacentConnections, connectedPositions, findSpread, groupSpread, isBuiltInSpread, isReadingComplete,
+  isSlotComplete, newSpreadId, periodSlots, readingSpread, spreadInUse, spreadIssues
+} from './spreads';
+import { activeMembersIn, addMember, groupYearRange, isActiveIn, renameMember, setMemberYearActive, yearsWithReadings } from './members';
+import { CURRENT_SCHEMA_VERSION, MigrationError, migrateData } from './migrations';
+import { ACCURACY_LABELS, readingMatches, setCardNote, setReflection, setSlotNotes, setYearNotes, slotMatches } from './notes';
+import { editSlot, saveSlot, updateReading } from './readings';
+import { applyCleanups, suggestCardCleanups, suggestDeckCleanups, type CardTextField, type CleanupSuggestion } from './ocrCleanup';
+import { isQuotaError, openDataStore, type DataStore, type SnapshotInfo } from './storage';
+import {
+  cardIdsInUse, deleteCard, deleteGroup, deleteMember, deleteReading, describeTrashItem, purgeExpiredTrash, removeFromTrash, replaceCards,
+  restoreTrashItem, setCardArchived, setGroupArchived, setMemberArchived, setReadingArchived, trashExpiresAt, trashRetentionDays
+} from './trash';
 
-interface Group {
-  id: string;
-  name: string;
-  members: GroupMember[];
-  yearReadings: {
-    [year: number]: {
-      [personName: string]: PersonYearReading;
-    };
-  };
-}
+// Storage utilities
+const emptyData = (): AppData => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  cards: [],
+  groups: [],
+  spreads: BUILT_IN_SPREADS,
+  trash: [],
+  settings: { theme: 'light' }
+});
 
-interface AppData {
-  cards: Card[];
-  groups: Group[];
-  settings: {
-    theme: 'light' | 'dark';
-    lastSelectedGroup?: string;
-    lastSelectedYear?: number;
-  };
+// Stored data that could not be parsed, migrated or validated. The raw text is
+// kept as-is so nothing is lost until the user decides what to do with it.
+interface LoadFailure {
+  raw: string;
+  message: string;
+  issues: string[];
 }
 
-const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
-
-// Storage utilities
-const STORAGE_KEY = 'tea-leaf-readings';
-
-const loadData = (): AppData => {
+const parseStoredData = (raw: string): { data: AppData } | { failure: LoadFailure } => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      return JSON.parse(stored);
-    }
+    return { data: migrateData(JSON.parse(raw)) };
   } catch (e) {
     console.error('Failed to load data:', e);
+    return {
+      failure: {
+        raw,
+        message: e instanceof SyntaxError ? `Saved data is not valid JSON: ${e.message}` : e instanceof Error ? e.message : String(e),
+        issues: e instanceof MigrationError ? e.issues : []
+      }
+    };
   }
-  return {
-    cards: [],
-    groups: [],
-    settings: { theme: 'light' }
-  };
 };
 
-const saveData = (data: AppData) => {
+// Tries a change that can be refused (e.g. deleting a card still in use) on the
+// current data first, so the reason is shown instead of failing inside updateData.
+const canApply = (data: AppData, change: (prev: AppData) => AppData, showNotification: (message: string, type?: 'success' | 'error') => void) => {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    change(data);
+    return true;
   } catch (e) {
-    console.error('Failed to save data:', e);
+    showNotification(e instanceof Error ? e.message : String(e), 'error');
+    return false;
   }
 };
 
+const describeSaveError = (e: unknown) => {
+  if (isQuotaError(e)) return 'browser storage is full';
+  return e instanceof Error ? e.message : String(e);
+};
+
 // Main App Component
 export default function TeaLeafReader() {
-  const [data, setData] = useState<AppData>(loadData);
-  const [currentView, setCurrentView] = useState<'dashboard' | 'cards' | 'groups' | 'enter-reading' | 'view-readings' | 'analytics'>('dashboard');
+  const [store, setStore] = useState<DataStore | null>(null);
+  const [history, setHistory] = useState<History>(() => startHistory(emptyData()));
+  const data = currentData(history);
+  const [showHistory, setShowHistory] = useState(false);
+  const [loadFailure, setLoadFailure] = useState<LoadFailure | null>(null);
+  // The last JSON written to storage, so unchanged data isn't saved (and snapshotted) again
+  const lastSaved = useRef<string | null>(null);
+  // A bookmarked Analytics view opens straight onto Analytics
+  const [currentView, setCurrentView] = useState<'dashboard' | 'cards' | 'groups' | 'enter-reading' | 'view-readings' | 'analytics' | 'backup' | 'trash'>(
+    () => new URLSearchParams(window.location.search).get('view') === 'analytics' ? 'analytics' : 'dashboard'
+  );
   const theme = data.settings.theme;
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
 
   const handleViewChange = (newView: string) => {
-    if (['dashboard', 'cards', 'groups', 'enter-reading', 'view-readings', 'analytics'].includes(newView)) {
+    if (['dashboard', 'cards', 'groups', 'enter-reading', 'view-readings', 'analytics', 'backup', 'trash'].includes(newView)) {
       setCurrentView(newView as typeof currentView);
     }
   };
 
-  // Auto-save with debouncing
+  // Open storage and load saved data
+  useEffect(() => {
+    let cancelled = false;
+    openDataStore()
+      .then(async opened => {
+        const raw = await opened.load();
+        if (cancelled) return;
+        if (raw) {
+          const result = parseStoredData(raw);
+          if ('data' in result) {
+            lastSaved.current = raw;
+            setHistory(startHistory(purgeExpiredTrash(result.data)));
+          } else {
+            setLoadFailure(result.failure);
+          }
+        }
+        setStore(opened);
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error('Failed to open storage:', e);
+        setLoadFailure({ raw: '', message: `Could not open browser storage: ${describeSaveError(e)}`, issues: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Auto-save with debouncing. Never while recovering, or the unreadable data would be overwritten.
   useEffect(() => {
+    if (!store || loadFailure) return;
     const timer = setTimeout(() => {
-      saveData(data);
+      const raw = JSON.stringify(data);
+      if (raw === lastSaved.current) return;
+      store.save(raw)
+        .then(() => {
+          lastSaved.current = raw;
+        })
+        .catch(e => {
+          console.error('Failed to save data:', e);
+          showNotification(`Your changes could not be saved: ${describeSaveError(e)}`, 'error');
+        });
     }, 1000);
     return () => clearTimeout(timer);
-  }, [data]);
+  }, [data, store, loadFailure]);
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo. Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
 
   // Ensure no 'dark' class on html
   useEffect(() => {
@@ -104,10 +193,10 @@ export default function TeaLeafReader() {
 
   const toggleTheme = () => {
     const newTheme = theme === 'light' ? 'dark' : 'light';
-    setData(prev => ({
+    updateData(prev => ({
       ...prev,
       settings: { ...prev.settings, theme: newTheme }
-    }));
+    }), 'Changed theme');
   };
 
   const showNotification = (message: string, type: 'success' | 'error' = 'success') => {
@@ -115,18 +204,66 @@ export default function TeaLeafReader() {
     setTimeout(() => setNotification(null), 3000);
   };
 
-  const updateData = (updater: (prev: AppData) => AppData) => {
-    setData(updater);
+  // Every change goes through here so it can be undone; the label names it in the history panel
+  const updateData = (updater: (prev: AppData) => AppData, label: string) => {
+    setHistory(prev => recordChange(prev, updater(currentData(prev)), label));
+  };
+
+  const handleJump = (index: number) => {
+    setHistory(prev => jumpTo(prev, index));
+  };
+
+  const handleUndo = () => {
+    if (!canUndo(history)) return;
+    showNotification(`Undid: ${history.entries[history.index].label}`);
+    handleJump(history.index - 1);
+  };
+
+  const handleRedo = () => {
+    if (!canRedo(history)) return;
+    showNotification(`Redid: ${history.entries[history.index + 1].label}`);
+    handleJump(history.index + 1);
+  };
+
+  const backupDays = daysSinceBackup(data.settings.lastBackupAt);
+  const backupDue = !!data.settings.backupReminderDays &&
+    (data.cards.length > 0 || data.groups.length > 0) &&
+    (backupDays === null || backupDays >= data.settings.backupReminderDays);
+
+  const handleRecovered = (recovered: AppData) => {
+    setHistory(startHistory(recovered, 'Recovered data'));
+    setLoadFailure(null);
   };
 
   const containerClass = theme === 'dark'
-    ? 'min-h-screen bg-gray-900 text-gray-100'
-    : 'min-h-screen bg-amber-50 text-gray-900';
+    ? 'min-h-screen bg-gray-900 text-gray-100 print:bg-white print:text-black'
+    : 'min-h-screen bg-amber-50 text-gray-900 print:bg-white';
+
+  if (loadFailure) {
+    return (
+      <div className={containerClass}>
+        <main className="max-w-4xl mx-auto px-4 py-8">
+          <RawDataRecovery failure={loadFailure} store={store} theme={theme} onRecovered={handleRecovered} />
+        </main>
+      </div>
+    );
+  }
+
+  if (!store) {
+    return (
+      <div className={`${containerClass} flex items-center justify-center`}>
+        <div className="text-center">
+          <div className="text-4xl mb-2">🍵</div>
+          <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>Loading your readings…</p>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className={containerClass}>
       {/* Header */}
-      <header className={`${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200'} border-b sticky top-0 z-50`}>
+      <header className={`${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200'} border-b sticky top-0 z-50 print:hidden`}>
         <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="text-3xl">🍵</div>
@@ -137,17 +274,51 @@ export default function TeaLeafReader() {
               </p>
             </div>
           </div>
-          <button
-            onClick={toggleTheme}
-            className={`p-2 rounded-lg ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
-          >
-            {theme === 'light' ? <Moon className="w-5 h-5" /> : <Sun className="w-5 h-5" />}
-          </button>
+          <div className="flex items-center gap-1 relative">
+            <button
+              onClick={handleUndo}
+              disabled={!canUndo(history)}
+              title={canUndo(history) ? `Undo: ${history.entries[history.index].label} (Ctrl+Z)` : 'Nothing to undo'}
+              className={`p-2 rounded-lg disabled:opacity-30 ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+            >
+              <Undo2 className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={!canRedo(history)}
+              title={canRedo(history) ? `Redo: ${history.entries[history.index + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className={`p-2 rounded-lg disabled:opacity-30 ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+            >
+              <Redo2 className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              title="History"
+              className={`p-2 rounded-lg ${showHistory ? theme === 'dark' ? 'bg-gray-700' : 'bg-gray-100' : ''} ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+            >
+              <HistoryIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={toggleTheme}
+              className={`p-2 rounded-lg ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+            >
+              {theme === 'light' ? <Moon className="w-5 h-5" /> : <Sun className="w-5 h-5" />}
+            </button>
+
+            {showHistory && (
+              <HistoryPanel
+                history={history}
+                theme={theme}
+                onJump={handleJump}
+                onClose={() => setShowHistory(false)}
+              />
+            )}
+          </div>
         </div>
       </header>
 
       {/* Navigation */}
-      <nav className={`${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200'} border-b`}>
+      <nav className={`${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200'} border-b print:hidden`}>
         <div className="max-w-7xl mx-auto px-4">
           <div className="flex gap-1 overflow-x-auto">
             {[
@@ -156,7 +327,9 @@ export default function TeaLeafReader() {
               { id: 'groups', label: 'Groups', icon: Users },
               { id: 'enter-reading', label: 'New Reading', icon: PlusCircle },
               { id: 'view-readings', label: 'View Readings', icon: Eye },
-              { id: 'analytics', label: 'Analytics', icon: BarChart3 }
+              { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+              { id: 'backup', label: 'Backup', icon: Database },
+              { id: 'trash', label: data.trash.length > 0 ? `Trash (${data.trash.length})` : 'Trash', icon: Trash2 }
             ].map(({ id, label, icon: Icon }) => (
               <button
                 key={id}
@@ -178,9 +351,27 @@ export default function TeaLeafReader() {
         </div>
       </nav>
 
+      {/* Backup Reminder */}
+      {backupDue && currentView !== 'backup' && (
+        <div className={`${theme === 'dark' ? 'bg-amber-900 text-amber-100' : 'bg-amber-100 text-amber-900'} print:hidden`}>
+          <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between gap-4 text-sm">
+            <span className="flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {backupDays === null ? "You haven't backed up your readings yet." : `Your last backup was ${backupDays} days ago.`}
+            </span>
+            <button
+              onClick={() => setCurrentView('backup')}
+              className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 whitespace-nowrap"
+            >
+              Back Up Now
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Notification */}
       {notification && (
-        <div className={`fixed top-20 right-4 z-50 px-6 py-3 rounded-lg shadow-lg flex items-center gap-2 ${notification.type === 'success'
+        <div className={`fixed top-20 right-4 z-50 print:hidden px-6 py-3 rounded-lg shadow-lg flex items-center gap-2 ${notification.type === 'success'
           ? theme === 'dark' ? 'bg-green-900 text-green-100' : 'bg-green-100 text-green-900'
           : theme === 'dark' ? 'bg-red-900 text-red-100' : 'bg-red-100 text-red-900'
           }`}>
@@ -190,35 +381,177 @@ export default function TeaLeafReader() {
       )}
 
       {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 py-8">
+      <main className="max-w-7xl mx-auto px-4 py-8 print:max-w-none print:p-0">
         {currentView === 'dashboard' && <Dashboard data={data} theme={theme} setCurrentView={handleViewChange} />}
         {currentView === 'cards' && <CardLibrary data={data} updateData={updateData} theme={theme} showNotification={showNotification} />}
         {currentView === 'groups' && <GroupManagement data={data} updateData={updateData} theme={theme} showNotification={showNotification} />}
         {currentView === 'enter-reading' && <EnterReading data={data} updateData={updateData} theme={theme} showNotification={showNotification} />}
-        {currentView === 'view-readings' && <ViewReadings data={data} theme={theme} />}
+        {currentView === 'view-readings' && <ViewReadings data={data} updateData={updateData} theme={theme} showNotification={showNotification} />}
         {currentView === 'analytics' && <Analytics data={data} theme={theme} />}
+        {currentView === 'backup' && <BackupRestore data={data} updateData={updateData} store={store} theme={theme} showNotification={showNotification} />}
+        {currentView === 'trash' && <TrashView data={data} updateData={updateData} theme={theme} showNotification={showNotification} />}
       </main>
     </div>
   );
 }
 
+// History Panel Component
+function HistoryPanel({ history, theme, onJump, onClose }: {
+  history: History;
+  theme: string;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}) {
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className={`${cardClass} absolute right-0 top-12 w-80 border rounded-lg shadow-lg z-50`}>
+      <div className={`flex justify-between items-center px-4 py-2 border-b ${theme === 'dark' ? 'border-gray-700' : 'border-amber-200'}`}>
+        <div>
+          <div className="font-bold">History</div>
+          <div className={`text-xs ${mutedText}`}>This session only. Click a step to go back to it.</div>
+        </div>
+        <button onClick={onClose} className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="max-h-96 overflow-y-auto py-1">
+        {history.entries.map((entry, idx) => ({ entry, idx })).reverse().map(({ entry, idx }) => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(idx)}
+            className={`w-full text-left px-4 py-2 text-sm flex justify-between gap-2 ${
+              idx === history.index
+                ? 'bg-amber-600 text-white'
+                : idx > history.index
+                  ? `${mutedText} italic ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-amber-50'}`
+                  : theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-amber-50'
+            }`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className={`shrink-0 text-xs ${idx === history.index ? '' : mutedText}`}>
+              {new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Raw Data Recovery Component
+function RawDataRecovery({ failure, store, theme, onRecovered }: {
+  failure: LoadFailure;
+  store: DataStore | null;
+  theme: string;
+  onRecovered: (data: AppData) => void;
+}) {
+  const [rawText, setRawText] = useState(failure.raw);
+  const [current, setCurrent] = useState(failure);
+
+  const handleDownload = () => {
+    downloadFile(`tea-leaf-readings-raw-${dateStamp()}.json`, rawText, 'application/json');
+  };
+
+  const handleRetry = () => {
+    const result = parseStoredData(rawText);
+    if ('data' in result) {
+      onRecovered(result.data);
+    } else {
+      setCurrent(result.failure);
+    }
+  };
+
+  const handleStartFresh = async () => {
+    if (!confirm('Start with empty data? The unreadable data will be kept in browser storage under a recovery key.')) return;
+    try {
+      if (!store) throw new Error('storage is not available');
+      await store.keepRecoveryCopy(failure.raw);
+    } catch (e) {
+      console.error('Failed to keep recovery copy:', e);
+      if (!confirm('The recovery copy could not be saved. Continue anyway? Download the raw data first if unsure.')) return;
+    }
+    onRecovered(emptyData());
+  };
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const inputClass = theme === 'dark'
+    ? 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+    : 'w-full px-4 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500';
+
+  return (
+    <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+      <div className="flex items-center gap-3">
+        <AlertCircle className="w-8 h-8 text-red-500 shrink-0" />
+        <div>
+          <h2 className="text-2xl font-bold">Your saved data could not be loaded</h2>
+          <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+            Nothing has been changed or deleted. Download a copy, fix the data below, or start fresh.
+          </p>
+        </div>
+      </div>
+
+      <div className={`p-3 rounded-lg text-sm ${theme === 'dark' ? 'bg-red-900 text-red-100' : 'bg-red-50 text-red-900'}`}>
+        <div className="font-medium">{current.message}</div>
+        {current.issues.length > 0 && (
+          <ul className="mt-2 list-disc pl-5 max-h-48 overflow-y-auto font-mono text-xs">
+            {current.issues.map((issue, idx) => (
+              <li key={idx}>{issue}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <textarea
+        value={rawText}
+        onChange={(e) => setRawText(e.target.value)}
+        className={`${inputClass} h-80 font-mono text-xs`}
+        spellCheck={false}
+      />
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleDownload}
+          className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+        >
+          Download Raw Data
+        </button>
+        <button
+          onClick={handleRetry}
+          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+        >
+          Try Loading Again
+        </button>
+        <button
+          onClick={handleStartFresh}
+          className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+        >
+          Start Fresh
+        </button>
+      </div>
+    </div>
+  );
+}
+
 // Dashboard Component
 function Dashboard({ data, theme, setCurrentView }: { data: AppData; theme: string; setCurrentView: (view: string) => void }) {
   const stats = useMemo(() => {
-    const totalReadings = data.groups.reduce((sum, group) => {
+    const groups = data.groups.filter(group => !group.archived);
+    const totalReadings = groups.reduce((sum, group) => {
       return sum + Object.values(group.yearReadings).reduce((yearSum, yearData) => {
-        return yearSum + Object.keys(yearData).length;
+        return yearSum + Object.values(yearData).filter(reading => !reading.archived).length;
       }, 0);
     }, 0);
 
     const uniquePeople = new Set();
-    data.groups.forEach(group => {
-      group.members.forEach(member => uniquePeople.add(member.name));
+    groups.forEach(group => {
+      group.members.filter(member => !member.archived).forEach(member => uniquePeople.add(member.name));
     });
 
     return {
-      totalCards: data.cards.length,
-      totalGroups: data.groups.length,
+      totalCards: data.cards.filter(card => !card.archived).length,
+      totalGroups: groups.length,
       totalReadings,
       uniquePeople: uniquePeople.size
     };
@@ -329,48 +662,160 @@ function CardLibrary({ data, updateData, theme, showNotification }: any) {
   const [editingCard, setEditingCard] = useState<Card | null>(null);
   const [showImport, setShowImport] = useState(false);
   const [importText, setImportText] = useState('');
+  const [importFormat, setImportFormat] = useState<'json' | 'text'>('json');
+  const [importPreview, setImportPreview] = useState<ParsedCardText | null>(null);
+  const [mergePlan, setMergePlan] = useState<CardMergeEntry[] | null>(null);
+  const [cleanupReview, setCleanupReview] = useState<{ target: 'import' | 'edit'; cards: Card[]; suggestions: CleanupSuggestion[] } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [tagFilter, setTagFilter] = useState<CardTagFilter>(EMPTY_TAG_FILTER);
+
+  const archivedCount = data.cards.filter((card: Card) => card.archived).length;
+  const untaggedCount = data.cards.filter((card: Card) => !isTagged(card)).length;
+  const unreviewedCount = data.cards.filter((card: Card) => card.autoTagged).length;
+
+  const importCleanups = useMemo(() => {
+    return importPreview ? suggestDeckCleanups(importPreview.cards) : [];
+  }, [importPreview]);
 
   const filteredCards = useMemo(() => {
     return data.cards.filter((card: Card) =>
-      card.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      card.shortDescription.toLowerCase().includes(searchTerm.toLowerCase())
+      (showArchived || !card.archived) && matchesTagFilter(card, tagFilter) && (
+        card.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        card.shortDescription.toLowerCase().includes(searchTerm.toLowerCase())
+      )
     );
-  }, [data.cards, searchTerm]);
+  }, [data.cards, searchTerm, showArchived, tagFilter]);
 
-  const handleImport = () => {
+  const closeImport = () => {
+    setShowImport(false);
+    setImportText('');
+    setImportPreview(null);
+    setMergePlan(null);
+  };
+
+  const handleImportFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      setImportText(text);
+      setImportFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'text');
+    };
+    reader.readAsText(file);
+  };
+
+  const handlePreview = () => {
     try {
-      const cards = JSON.parse(importText);
-      if (!Array.isArray(cards)) throw new Error('Invalid format');
+      const preview = importFormat === 'text' ? parseCardText(importText) : parseCardJson(importText);
+      if (preview.cards.length === 0) {
+        showNotification(preview.warnings[0] || 'No cards found in the input.', 'error');
+        return;
+      }
+      setImportPreview(preview);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      showNotification(importFormat === 'text'
+        ? `Could not read the card text: ${reason}`
+        : `Invalid JSON format (${reason}). Please check your input.`, 'error');
+    }
+  };
 
-      const validCards = cards.map((c, i) => ({
-        id: c.name || `card-${i}`,
-        name: c.name || `Card ${i + 1}`,
-        shortDescription: c.shortDescription || '',
-        longDescription: c.longDescription || ''
-      }));
+  const handleImport = () => {
+    if (!importPreview) return;
+    // Tagged after any scan fixes, so the proposals are read from the corrected text
+    const validCards = withSuggestedTags(importPreview.cards);
 
-      updateData((prev: AppData) => ({
-        ...prev,
-        cards: validCards
-      }));
+    // An existing library is merged card by card instead of being replaced
+    if (data.cards.length > 0) {
+      setMergePlan(planCardMerge(data.cards, validCards, cardIdsInUse(data)));
+      return;
+    }
 
-      showNotification(`Successfully imported ${validCards.length} cards!`);
-      setShowImport(false);
-      setImportText('');
-    } catch (e) {
-      showNotification('Invalid JSON format. Please check your input.', 'error');
+    updateData((prev: AppData) => ({
+      ...prev,
+      cards: validCards
+    }), 'Imported cards');
+
+    showNotification(`Successfully imported ${validCards.length} cards!`);
+    closeImport();
+  };
+
+  const handleApplyMerge = (choices: Record<string, MergeChoice>) => {
+    if (!mergePlan) return;
+    const merged = applyCardMerge(data.cards, mergePlan, choices);
+
+    updateData(
+      (prev: AppData) => replaceCards(prev, applyCardMerge(prev.cards, mergePlan, choices)),
+      'Merged imported cards'
+    );
+
+    showNotification(`Merged import: library now has ${merged.length} cards`);
+    closeImport();
+  };
+
+  const handleCheckEditingCard = () => {
+    if (!editingCard) return;
+    const suggestions = suggestCardCleanups(editingCard, data.cards);
+    if (suggestions.length === 0) {
+      showNotification('No OCR problems found in this card.');
+      return;
+    }
+    setCleanupReview({ target: 'edit', cards: [editingCard], suggestions });
+  };
+
+  const handleApplyCleanups = (accepted: CleanupSuggestion[]) => {
+    if (cleanupReview?.target === 'import' && importPreview) {
+      setImportPreview({
+        ...importPreview,
+        cards: importPreview.cards.map(card => {
+          const cleaned = applyCleanups(card, accepted);
+          // Imported IDs follow the name, so a corrected name gets a corrected ID
+          return card.id === card.name ? { ...cleaned, id: cleaned.name } : cleaned;
+        })
+      });
+    } else if (cleanupReview?.target === 'edit' && editingCard) {
+      setEditingCard(applyCleanups(editingCard, accepted));
     }
+    if (accepted.length > 0) {
+      showNotification(`Applied ${accepted.length} ${accepted.length === 1 ? 'fix' : 'fixes'}`);
+    }
+    setCleanupReview(null);
   };
 
   const handleSaveCard = (card: Card) => {
+    const saved = setCardTags(card, card);
     updateData((prev: AppData) => ({
       ...prev,
-      cards: prev.cards.map(c => c.id === card.id ? card : c)
-    }));
+      cards: prev.cards.map(c => c.id === card.id ? saved : c)
+    }), `Edited card ${card.name}`);
     setEditingCard(null);
     showNotification('Card updated successfully!');
   };
 
+  const handleConfirmTags = (card: Card) => {
+    updateData((prev: AppData) => ({
+      ...prev,
+      cards: prev.cards.map(c => c.id === card.id ? setCardTags(c, c) : c)
+    }), `Confirmed tags for ${card.name}`);
+  };
+
+  const handleSuggestTags = () => {
+    updateData((prev: AppData) => ({ ...prev, cards: withSuggestedTags(prev.cards) }), `Suggested tags for ${untaggedCount} cards`);
+    showNotification(`Proposed tags for ${untaggedCount} ${untaggedCount === 1 ? 'card' : 'cards'}. Check them with the "Not reviewed" filter.`);
+  };
+
+  const handleArchiveCard = (card: Card) => {
+    updateData((prev: AppData) => setCardArchived(prev, card.id, !card.archived), `${card.archived ? 'Unarchived' : 'Archived'} card ${card.name}`);
+    showNotification(card.archived ? `${card.name} is back in the library` : `${card.name} archived`);
+  };
+
+  const handleDeleteCard = (card: Card) => {
+    const change = (prev: AppData) => deleteCard(prev, card.id);
+    if (!canApply(data, change, showNotification)) return;
+    if (!confirm(`Delete "${card.name}"? It can be restored from the trash.`)) return;
+    updateData(change, `Deleted card ${card.name}`);
+    showNotification(`${card.name} moved to the trash`);
+  };
+
   const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
   const inputClass = theme === 'dark'
     ? 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
@@ -379,7 +824,7 @@ function CardLibrary({ data, updateData, theme, showNotification }: any) {
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h2 className="text-2xl font-bold">Card Library ({data.cards.length} cards)</h2>
+        <h2 className="text-2xl font-bold">Card Library ({data.cards.length - archivedCount} cards)</h2>
         <button
           onClick={() => setShowImport(true)}
           className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 flex items-center gap-2"
@@ -394,57 +839,203 @@ function CardLibrary({ data, updateData, theme, showNotification }: any) {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className={`${cardClass} border rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto`}>
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-xl font-bold">Import Fortune Cards</h3>
-              <button onClick={() => setShowImport(false)}>
+              <h3 className="text-xl font-bold">
+                {importPreview ? `Preview (${importPreview.cards.length} cards)` : 'Import Fortune Cards'}
+              </h3>
+              <button onClick={closeImport}>
                 <X className="w-5 h-5" />
               </button>
             </div>
-            <p className={`mb-4 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-              Paste your JSON array of cards. Each card should have: name, shortDescription, longDescription
-            </p>
-            <textarea
-              value={importText}
-              onChange={(e) => setImportText(e.target.value)}
-              className={`${inputClass} h-64 font-mono text-sm`}
-              placeholder='[{"name": "Card Name", "shortDescription": "Brief description", "longDescription": "Detailed meaning"}]'
-            />
-            <div className="flex gap-2 mt-4">
-              <button
-                onClick={handleImport}
-                className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
-              >
-                Import
-              </button>
-              <button
-                onClick={() => setShowImport(false)}
-                className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
-              >
-                Cancel
-              </button>
-            </div>
+
+            {!importPreview ? (
+              <>
+                <div className="flex gap-2 mb-4">
+                  {([['json', 'JSON'], ['text', 'Plain Text']] as const).map(([format, label]) => (
+                    <button
+                      key={format}
+                      onClick={() => setImportFormat(format)}
+                      className={`px-3 py-1 rounded-lg text-sm ${importFormat === format
+                        ? 'bg-amber-600 text-white'
+                        : theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                        }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className={`mb-4 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  {importFormat === 'json'
+                    ? 'Paste your JSON array of cards. Each card should have: name, shortDescription, longDescription'
+                    : 'Paste the deck text (or load "Tea Leaf Cards.txt"). Each entry reads NAME: short meaning. long description'}
+                </p>
+                <input
+                  type="file"
+                  accept=".txt,.json,text/plain,application/json"
+                  onChange={(e) => e.target.files?.[0] && handleImportFile(e.target.files[0])}
+                  className={`mb-4 text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}
+                />
+                <textarea
+                  value={importText}
+                  onChange={(e) => setImportText(e.target.value)}
+                  className={`${inputClass} h-64 font-mono text-sm`}
+                  placeholder={importFormat === 'json'
+                    ? '[{"name": "Card Name", "shortDescription": "Brief description", "longDescription": "Detailed meaning"}]'
+                    : 'ANGEL: Spiritual guidance. Protection from harm. A bright light surrounds an angel...'}
+                />
+                <div className="flex gap-2 mt-4">
+                  <button
+                    onClick={handlePreview}
+                    disabled={!importText.trim()}
+                    className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Preview
+                  </button>
+                  <button
+                    onClick={closeImport}
+                    className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                {importPreview.warnings.length > 0 && (
+                  <div className={`mb-4 p-3 rounded-lg text-sm ${theme === 'dark' ? 'bg-red-900 text-red-100' : 'bg-red-50 text-red-900'}`}>
+                    {importPreview.warnings.map((warning, idx) => (
+                      <div key={idx} className="flex items-start gap-2">
+                        <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                        {warning}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {importCleanups.length > 0 && (
+                  <div className={`mb-4 p-3 rounded-lg text-sm flex items-center justify-between gap-2 ${theme === 'dark' ? 'bg-gray-700' : 'bg-amber-50'}`}>
+                    <span>{importCleanups.length} possible scan errors found in the card text.</span>
+                    <button
+                      onClick={() => setCleanupReview({ target: 'import', cards: importPreview.cards, suggestions: importCleanups })}
+                      className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 whitespace-nowrap"
+                    >
+                      Review Fixes
+                    </button>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  {importPreview.cards.map((card, idx) => (
+                    <div key={idx} className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                      <div className="font-bold">{card.name}</div>
+                      <div className={`text-sm ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                        {card.shortDescription}
+                      </div>
+                      <div className={`text-xs mt-1 line-clamp-2 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {card.longDescription}
+                      </div>
+                      <CardTagChips card={{ ...card, ...suggestCardTags(card) }} theme={theme} />
+                    </div>
+                  ))}
+                </div>
+                <p className={`mt-4 text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Tags are proposed from each card's text and marked as not reviewed until you confirm or edit them.
+                </p>
+                <div className="flex gap-2 mt-4">
+                  <button
+                    onClick={handleImport}
+                    className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+                  >
+                    {data.cards.length > 0 ? 'Review Merge' : `Import ${importPreview.cards.length} Cards`}
+                  </button>
+                  <button
+                    onClick={() => setImportPreview(null)}
+                    className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+                  >
+                    Back
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
 
       {/* Search */}
       {data.cards.length > 0 && (
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-          <input
-            type="text"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            placeholder="Search cards..."
-            className={`${inputClass} pl-10`}
-          />
+        <div className="flex gap-4 items-center">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search cards..."
+              className={`${inputClass} pl-10`}
+            />
+          </div>
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+              <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+              Show archived ({archivedCount})
+            </label>
+          )}
         </div>
       )}
 
-      {/* Cards List */}
-      {data.cards.length === 0 ? (
-        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
-          <Upload className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-          <h3 className="text-xl font-bold mb-2">No Cards Yet</h3>
+      {/* Tag Filters */}
+      {data.cards.length > 0 && (
+        <div className="flex flex-wrap gap-4 items-center text-sm">
+          <select
+            value={tagFilter.sentiment}
+            onChange={(e) => setTagFilter({ ...tagFilter, sentiment: e.target.value as CardTagFilter['sentiment'] })}
+            className={`${inputClass} md:w-48`}
+          >
+            <option value="">Any sentiment</option>
+            {(Object.keys(SENTIMENT_LABELS) as CardSentiment[]).map(sentiment => (
+              <option key={sentiment} value={sentiment}>{SENTIMENT_LABELS[sentiment]}</option>
+            ))}
+            <option value="untagged">Not tagged</option>
+          </select>
+          <select
+            value={tagFilter.theme}
+            onChange={(e) => setTagFilter({ ...tagFilter, theme: e.target.value as CardTagFilter['theme'] })}
+            className={`${inputClass} md:w-48`}
+          >
+            <option value="">Any theme</option>
+            {CARD_THEMES.map(cardTheme => <option key={cardTheme} value={cardTheme}>{THEME_LABELS[cardTheme]}</option>)}
+          </select>
+          <label className="flex items-center gap-2 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={tagFilter.needsConnecting}
+              onChange={(e) => setTagFilter({ ...tagFilter, needsConnecting: e.target.checked })}
+            />
+            Needs connecting cards
+          </label>
+          {unreviewedCount > 0 && (
+            <label className="flex items-center gap-2 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={tagFilter.unreviewed}
+                onChange={(e) => setTagFilter({ ...tagFilter, unreviewed: e.target.checked })}
+              />
+              Not reviewed ({unreviewedCount})
+            </label>
+          )}
+          {untaggedCount > 0 && (
+            <button
+              onClick={handleSuggestTags}
+              className={`px-3 py-2 rounded-lg whitespace-nowrap ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+            >
+              Suggest Tags for {untaggedCount} Untagged
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Cards List */}
+      {data.cards.length === 0 ? (
+        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+          <Upload className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+          <h3 className="text-xl font-bold mb-2">No Cards Yet</h3>
           <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
             Import your fortune cards to get started
           </p>
@@ -452,19 +1043,51 @@ function CardLibrary({ data, updateData, theme, showNotification }: any) {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {filteredCards.map((card: Card) => (
-            <div key={card.id} className={`${cardClass} border rounded-lg p-4`}>
+            <div key={card.id} className={`${cardClass} border rounded-lg p-4 ${card.archived ? 'opacity-60' : ''}`}>
               <div className="flex justify-between items-start mb-2">
-                <h3 className="font-bold text-lg">{card.name}</h3>
-                <button
-                  onClick={() => setEditingCard(card)}
-                  className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
-                >
-                  <Edit2 className="w-4 h-4" />
-                </button>
+                <h3 className="font-bold text-lg">
+                  {card.name}
+                  {card.archived && <span className="ml-2 text-xs font-normal uppercase text-gray-500">Archived</span>}
+                </h3>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setEditingCard(card)}
+                    title="Edit"
+                    className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleArchiveCard(card)}
+                    title={card.archived ? 'Unarchive' : 'Archive'}
+                    className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  >
+                    {card.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteCard(card)}
+                    title="Delete"
+                    className={`p-1 rounded text-red-500 ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
               <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
                 {card.shortDescription}
               </p>
+              <div className="flex items-end justify-between gap-2">
+                <CardTagChips card={card} theme={theme} />
+                {card.autoTagged && (
+                  <button
+                    onClick={() => handleConfirmTags(card)}
+                    title="These tags were proposed from the card text. Confirm them as they are, or edit the card to change them."
+                    className="text-xs text-amber-600 hover:underline whitespace-nowrap"
+                  >
+                    Confirm tags
+                  </button>
+                )}
+              </div>
             </div>
           ))}
         </div>
@@ -473,7 +1096,7 @@ function CardLibrary({ data, updateData, theme, showNotification }: any) {
       {/* Edit Modal */}
       {editingCard && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-          <div className={`${cardClass} border rounded-lg p-6 max-w-2xl w-full`}>
+          <div className={`${cardClass} border rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto`}>
             <h3 className="text-xl font-bold mb-4">Edit Card</h3>
             <div className="space-y-4">
               <div>
@@ -502,6 +1125,59 @@ function CardLibrary({ data, updateData, theme, showNotification }: any) {
                   className={`${inputClass} h-32`}
                 />
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block mb-2 font-medium">Sentiment</label>
+                  <select
+                    value={editingCard.sentiment || ''}
+                    onChange={(e) => setEditingCard({ ...editingCard, sentiment: (e.target.value || undefined) as CardSentiment | undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">Not tagged</option>
+                    {(Object.keys(SENTIMENT_LABELS) as CardSentiment[]).map(sentiment => (
+                      <option key={sentiment} value={sentiment}>{SENTIMENT_LABELS[sentiment]}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 mt-3 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={!!editingCard.needsConnecting}
+                      onChange={(e) => setEditingCard({ ...editingCard, needsConnecting: e.target.checked })}
+                    />
+                    Needs connecting cards to be read
+                  </label>
+                </div>
+                <div>
+                  <label className="block mb-2 font-medium">Themes</label>
+                  <div className="flex flex-wrap gap-2">
+                    {CARD_THEMES.map(cardTheme => {
+                      const selected = !!editingCard.themes?.includes(cardTheme);
+                      return (
+                        <button
+                          key={cardTheme}
+                          onClick={() => setEditingCard({
+                            ...editingCard,
+                            themes: selected
+                              ? editingCard.themes!.filter(t => t !== cardTheme)
+                              : [...(editingCard.themes || []), cardTheme] as CardTheme[]
+                          })}
+                          className={`px-3 py-1 rounded-full text-sm ${selected
+                            ? 'bg-amber-600 text-white'
+                            : theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                            }`}
+                        >
+                          {THEME_LABELS[cardTheme]}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+              {editingCard.autoTagged && (
+                <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  These tags were proposed from the card text. Saving marks them as reviewed.
+                </p>
+              )}
             </div>
             <div className="flex gap-2 mt-6">
               <button
@@ -510,6 +1186,12 @@ function CardLibrary({ data, updateData, theme, showNotification }: any) {
               >
                 Save
               </button>
+              <button
+                onClick={handleCheckEditingCard}
+                className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+              >
+                Check OCR
+              </button>
               <button
                 onClick={() => setEditingCard(null)}
                 className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
@@ -520,6 +1202,345 @@ function CardLibrary({ data, updateData, theme, showNotification }: any) {
           </div>
         </div>
       )}
+
+      {/* Merge Review */}
+      {mergePlan && (
+        <CardMergeReview
+          entries={mergePlan}
+          theme={theme}
+          onApply={handleApplyMerge}
+          onCancel={() => setMergePlan(null)}
+        />
+      )}
+
+      {/* OCR Cleanup Review */}
+      {cleanupReview && (
+        <CleanupReview
+          cards={cleanupReview.cards}
+          suggestions={cleanupReview.suggestions}
+          theme={theme}
+          onApply={handleApplyCleanups}
+          onCancel={() => setCleanupReview(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+const SENTIMENT_CLASSES: Record<CardSentiment, string> = {
+  positive: 'bg-green-100 text-green-800',
+  negative: 'bg-red-100 text-red-800',
+  neutral: 'bg-gray-200 text-gray-700',
+  ambiguous: 'bg-purple-100 text-purple-800'
+};
+
+function CardTagChips({ card, theme }: { card: Card; theme: string }) {
+  if (!isTagged(card) && !card.needsConnecting) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mt-2 text-xs">
+      {card.sentiment && <span className={`px-2 py-0.5 rounded ${SENTIMENT_CLASSES[card.sentiment]}`}>{SENTIMENT_LABELS[card.sentiment]}</span>}
+      {(card.themes || []).map(cardTheme => (
+        <span key={cardTheme} className={`px-2 py-0.5 rounded ${theme === 'dark' ? 'bg-gray-700' : 'bg-amber-100 text-amber-900'}`}>
+          {THEME_LABELS[cardTheme]}
+        </span>
+      ))}
+      {card.needsConnecting && <span className="px-2 py-0.5 rounded border border-amber-500">Needs connecting cards</span>}
+      {card.autoTagged && <span className="px-2 py-0.5 italic text-gray-500">proposed</span>}
+    </div>
+  );
+}
+
+const FIELD_LABELS: Record<CardTextField, string> = {
+  name: 'Name',
+  shortDescription: 'Short description',
+  longDescription: 'Long description'
+};
+
+// Cleanup Review Component
+function CleanupReview({ cards, suggestions, theme, onApply, onCancel }: {
+  cards: Card[];
+  suggestions: CleanupSuggestion[];
+  theme: string;
+  onApply: (accepted: CleanupSuggestion[]) => void;
+  onCancel: () => void;
+}) {
+  const [decisions, setDecisions] = useState<Record<string, 'accept' | 'reject'>>({});
+
+  const byCard = useMemo(() => {
+    return cards
+      .map(card => ({ card, suggestions: suggestions.filter(s => s.cardId === card.id) }))
+      .filter(entry => entry.suggestions.length > 0);
+  }, [cards, suggestions]);
+
+  const accepted = suggestions.filter(s => decisions[s.id] === 'accept');
+  const pending = suggestions.filter(s => !decisions[s.id]).length;
+
+  const decideAll = (decision: 'accept' | 'reject') => {
+    setDecisions(Object.fromEntries(suggestions.map(s => [s.id, decision])));
+  };
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className={`${cardClass} border rounded-lg p-6 max-w-3xl w-full max-h-[90vh] flex flex-col`}>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-xl font-bold">Review Scan Fixes</h3>
+          <button onClick={onCancel}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className={`flex justify-between items-center mb-4 text-sm ${mutedText}`}>
+          <span>{accepted.length} accepted • {pending} undecided • {suggestions.length} total</span>
+          <div className="flex gap-2">
+            <button onClick={() => decideAll('accept')} className="hover:underline">Accept all</button>
+            <button onClick={() => decideAll('reject')} className="hover:underline">Reject all</button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          {byCard.map(({ card, suggestions: cardSuggestions }) => (
+            <div key={card.id}>
+              <h4 className="font-bold mb-2">{card.name}</h4>
+              <div className="space-y-2">
+                {cardSuggestions.map(s => {
+                  const text = card[s.field];
+                  const before = text.slice(Math.max(0, s.start - 40), s.start);
+                  const after = text.slice(s.end, s.end + 40);
+                  const decision = decisions[s.id];
+                  return (
+                    <div
+                      key={s.id}
+                      className={`p-3 rounded-lg flex justify-between items-start gap-3 ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'} ${decision === 'reject' ? 'opacity-50' : ''}`}
+                    >
+                      <div className="text-sm">
+                        <div className={`text-xs mb-1 ${mutedText}`}>
+                          {FIELD_LABELS[s.field]} • {s.rule === 'name' ? 'broken name' : s.rule === 'dictionary' ? 'word spacing' : 'scan error'}
+                        </div>
+                        <span className={mutedText}>{s.start > 40 ? '…' : ''}{before}</span>
+                        <span className={`line-through ${theme === 'dark' ? 'bg-red-900 text-red-100' : 'bg-red-100 text-red-900'}`}>{s.original}</span>
+                        {s.replacement && (
+                          <span className={theme === 'dark' ? 'bg-green-900 text-green-100' : 'bg-green-100 text-green-900'}>{s.replacement}</span>
+                        )}
+                        <span className={mutedText}>{after}{s.end + 40 < text.length ? '…' : ''}</span>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <button
+                          onClick={() => setDecisions({ ...decisions, [s.id]: 'accept' })}
+                          title="Accept"
+                          className={`p-1 rounded ${decision === 'accept' ? 'bg-green-600 text-white' : theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setDecisions({ ...decisions, [s.id]: 'reject' })}
+                          title="Reject"
+                          className={`p-1 rounded ${decision === 'reject' ? 'bg-red-600 text-white' : theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={() => onApply(accepted)}
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+          >
+            Apply {accepted.length} Accepted
+          </button>
+          <button
+            onClick={onCancel}
+            className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Unchanged cards have nothing to choose, so that section only lists them
+const MERGE_SECTIONS: { status: CardMergeEntry['status']; label: string; existingLabel?: string; incomingLabel?: string }[] = [
+  { status: 'added', label: 'New cards', existingLabel: 'Skip', incomingLabel: 'Add' },
+  { status: 'changed', label: 'Changed cards', existingLabel: 'Keep library', incomingLabel: 'Use import' },
+  { status: 'missing', label: 'Not in import', existingLabel: 'Keep', incomingLabel: 'Remove' },
+  { status: 'unchanged', label: 'Unchanged cards' }
+];
+
+// Card Merge Review Component
+function CardMergeReview({ entries, theme, onApply, onCancel }: {
+  entries: CardMergeEntry[];
+  theme: string;
+  onApply: (choices: Record<string, MergeChoice>) => void;
+  onCancel: () => void;
+}) {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() =>
+    Object.fromEntries(entries.map(e => [e.key, defaultMergeChoice(e)]))
+  );
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const counts = useMemo(() => {
+    const result = { added: 0, changed: 0, unchanged: 0, missing: 0 };
+    entries.forEach(e => result[e.status]++);
+    return result;
+  }, [entries]);
+
+  const setSection = (status: CardMergeEntry['status'], choice: MergeChoice) => {
+    const next = { ...choices };
+    entries.filter(e => e.status === status && !(status === 'missing' && e.referenced)).forEach(e => {
+      next[e.key] = choice;
+    });
+    setChoices(next);
+  };
+
+  const toggleExpanded = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setExpanded(next);
+  };
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const choiceClass = (active: boolean) => `px-2 py-1 rounded text-xs ${active
+    ? 'bg-amber-600 text-white'
+    : theme === 'dark' ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className={`${cardClass} border rounded-lg p-6 max-w-3xl w-full max-h-[90vh] flex flex-col`}>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-xl font-bold">Merge Import</h3>
+          <button onClick={onCancel}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className={`mb-4 text-sm ${mutedText}`}>
+          {counts.added} new • {counts.changed} changed • {counts.unchanged} unchanged • {counts.missing} not in import
+        </p>
+
+        <div className="overflow-y-auto flex-1 space-y-6">
+          {MERGE_SECTIONS.map(section => {
+            const sectionEntries = entries.filter(e => e.status === section.status);
+            if (sectionEntries.length === 0) return null;
+
+            if (section.status === 'unchanged') {
+              return (
+                <div key={section.status}>
+                  <button onClick={() => setShowUnchanged(!showUnchanged)} className="flex items-center gap-1 font-bold mb-2">
+                    {showUnchanged ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    {section.label} ({sectionEntries.length})
+                  </button>
+                  {showUnchanged && (
+                    <div className="flex flex-wrap gap-2">
+                      {sectionEntries.map(entry => (
+                        <span key={entry.key} className={`px-2 py-1 rounded text-sm ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                          {(entry.existing || entry.incoming!).name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            }
+
+            return (
+              <div key={section.status}>
+                <div className="flex justify-between items-center mb-2">
+                  <h4 className="font-bold">{section.label} ({sectionEntries.length})</h4>
+                  <div className={`flex gap-2 text-sm ${mutedText}`}>
+                    <button onClick={() => setSection(section.status, 'existing')} className="hover:underline">
+                      {section.existingLabel} all
+                    </button>
+                    <button onClick={() => setSection(section.status, 'incoming')} className="hover:underline">
+                      {section.incomingLabel} all
+                    </button>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {sectionEntries.map(entry => {
+                    const card = entry.existing || entry.incoming!;
+                    const choice = choices[entry.key];
+                    const locked = entry.status === 'missing' && entry.referenced;
+                    return (
+                      <div key={entry.key} className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                        <div className="flex justify-between items-center gap-2">
+                          <button
+                            onClick={() => entry.diffs.length > 0 && toggleExpanded(entry.key)}
+                            className="flex items-center gap-1 font-medium text-left"
+                          >
+                            {entry.diffs.length > 0 && (expanded.has(entry.key)
+                              ? <ChevronDown className="w-4 h-4 shrink-0" />
+                              : <ChevronRight className="w-4 h-4 shrink-0" />)}
+                            {card.name}
+                            {entry.diffs.length > 0 && (
+                              <span className={`text-xs font-normal ${mutedText}`}>
+                                ({entry.diffs.map(d => d.field === 'name' ? 'name' : d.field === 'shortDescription' ? 'short' : 'long').join(', ')})
+                              </span>
+                            )}
+                          </button>
+                          {locked ? (
+                            <span className={`text-xs ${mutedText}`}>Used in readings, kept</span>
+                          ) : (
+                            <div className="flex gap-1 shrink-0">
+                              <button onClick={() => setChoices({ ...choices, [entry.key]: 'existing' })} className={choiceClass(choice === 'existing')}>
+                                {section.existingLabel}
+                              </button>
+                              <button onClick={() => setChoices({ ...choices, [entry.key]: 'incoming' })} className={choiceClass(choice === 'incoming')}>
+                                {section.incomingLabel}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                        {expanded.has(entry.key) && (
+                          <div className="mt-2 space-y-2 text-sm">
+                            {entry.diffs.map(diff => (
+                              <div key={diff.field}>
+                                <div className={`text-xs mb-1 ${mutedText}`}>{FIELD_LABELS[diff.field]}</div>
+                                <div className={`p-2 rounded ${theme === 'dark' ? 'bg-red-900 text-red-100' : 'bg-red-50 text-red-900'}`}>
+                                  {diff.existing || <em>(empty)</em>}
+                                </div>
+                                <div className={`p-2 rounded mt-1 ${theme === 'dark' ? 'bg-green-900 text-green-100' : 'bg-green-50 text-green-900'}`}>
+                                  {diff.incoming || <em>(empty)</em>}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={() => onApply(choices)}
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+          >
+            Apply Merge
+          </button>
+          <button
+            onClick={onCancel}
+            className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            Back
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
@@ -530,6 +1551,12 @@ function GroupManagement({ data, updateData, theme, showNotification }: any) {
   const [newGroupName, setNewGroupName] = useState('');
   const [newMemberName, setNewMemberName] = useState('');
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingMember, setEditingMember] = useState<{ groupId: string; memberId: string } | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  const hasArchived = data.groups.some((g: Group) => g.archived || g.members.some(m => m.archived));
+  const visibleGroups = data.groups.filter((g: Group) => showArchived || !g.archived);
 
   const handleCreateGroup = () => {
     if (!newGroupName.trim()) return;
@@ -544,7 +1571,7 @@ function GroupManagement({ data, updateData, theme, showNotification }: any) {
     updateData((prev: AppData) => ({
       ...prev,
       groups: [...prev.groups, newGroup]
-    }));
+    }), `Created group ${newGroupName}`);
 
     showNotification(`Group "${newGroupName}" created!`);
     setNewGroupName('');
@@ -553,23 +1580,76 @@ function GroupManagement({ data, updateData, theme, showNotification }: any) {
   const handleAddMember = (group: Group) => {
     if (!newMemberName.trim()) return;
 
-    updateData((prev: AppData) => ({
-      ...prev,
-      groups: prev.groups.map(g =>
-        g.id === group.id
-          ? {
-            ...g,
-            members: [...g.members, { name: newMemberName, joinedYears: [selectedYear] }]
-          }
-          : g
-      )
-    }));
+    const change = (prev: AppData) => addMember(prev, group.id, newMemberName, selectedYear);
+    if (!canApply(data, change, showNotification)) return;
+    updateData(change, `Added ${newMemberName} to ${group.name}`);
 
     showNotification(`Added ${newMemberName} to ${group.name}`);
     setNewMemberName('');
     setEditingGroup(null);
   };
 
+  const handleArchiveGroup = (group: Group) => {
+    updateData((prev: AppData) => setGroupArchived(prev, group.id, !group.archived), `${group.archived ? 'Unarchived' : 'Archived'} group ${group.name}`);
+    showNotification(group.archived ? `${group.name} is active again` : `${group.name} archived`);
+  };
+
+  const handleDeleteGroup = (group: Group) => {
+    const readingCount = Object.values(group.yearReadings).reduce((sum, yearData) => sum + Object.keys(yearData).length, 0);
+    if (!confirm(`Delete "${group.name}" with its ${group.members.length} members and ${readingCount} readings? It can be restored from the trash.`)) return;
+    updateData((prev: AppData) => deleteGroup(prev, group.id), `Deleted group ${group.name}`);
+    showNotification(`${group.name} moved to the trash`);
+  };
+
+  const handleArchiveMember = (group: Group, member: GroupMember) => {
+    updateData(
+      (prev: AppData) => setMemberArchived(prev, group.id, member.id, !member.archived),
+      `${member.archived ? 'Unarchived' : 'Archived'} ${member.name} in ${group.name}`
+    );
+    showNotification(member.archived ? `${member.name} is active again` : `${member.name} archived`);
+  };
+
+  const handleDeleteMember = (group: Group, member: GroupMember) => {
+    const readingCount = Object.values(group.yearReadings).filter(yearData => yearData[member.name]).length;
+    if (!confirm(`Remove ${member.name} from ${group.name}, along with ${readingCount} readings? They can be restored from the trash.`)) return;
+    updateData((prev: AppData) => deleteMember(prev, group.id, member.id), `Deleted ${member.name} from ${group.name}`);
+    showNotification(`${member.name} moved to the trash`);
+  };
+
+  const handleSetGroupSpread = (group: Group, spreadId: string) => {
+    const spread = findSpread(data, spreadId);
+    updateData((prev: AppData) => ({
+      ...prev,
+      groups: prev.groups.map(g => g.id === group.id ? { ...g, spreadId } : g)
+    }), `Set ${group.name} to use ${spread.name}`);
+  };
+
+  // Read from data on every render, so the modal follows undo and its own changes
+  const memberGroup: Group | undefined = editingMember ? data.groups.find((g: Group) => g.id === editingMember.groupId) : undefined;
+  const member = memberGroup?.members.find(m => m.id === editingMember?.memberId);
+
+  const openMemberEditor = (group: Group, member: GroupMember) => {
+    setEditingMember({ groupId: group.id, memberId: member.id });
+    setRenameText(member.name);
+  };
+
+  const handleRename = () => {
+    if (!memberGroup || !member || renameText.trim() === member.name) return;
+    const change = (prev: AppData) => renameMember(prev, memberGroup.id, member.id, renameText);
+    if (!canApply(data, change, showNotification)) return;
+    updateData(change, `Renamed ${member.name} to ${renameText.trim()}`);
+    showNotification(`Renamed ${member.name} to ${renameText.trim()}`);
+  };
+
+  const handleToggleYear = (year: number) => {
+    if (!memberGroup || !member) return;
+    const active = !isActiveIn(member, year);
+    updateData(
+      (prev: AppData) => setMemberYearActive(prev, memberGroup.id, member.id, year, active),
+      `Marked ${member.name} ${active ? 'active' : 'inactive'} in ${year}`
+    );
+  };
+
   const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
   const inputClass = theme === 'dark'
     ? 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
@@ -601,8 +1681,15 @@ function GroupManagement({ data, updateData, theme, showNotification }: any) {
         </div>
       </div>
 
+      {hasArchived && (
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+          Show archived groups and members
+        </label>
+      )}
+
       {/* Groups List */}
-      {data.groups.length === 0 ? (
+      {visibleGroups.length === 0 ? (
         <div className={`${cardClass} border rounded-lg p-12 text-center`}>
           <Users className="w-16 h-16 mx-auto mb-4 text-gray-400" />
           <h3 className="text-xl font-bold mb-2">No Groups Yet</h3>
@@ -612,34 +1699,89 @@ function GroupManagement({ data, updateData, theme, showNotification }: any) {
         </div>
       ) : (
         <div className="space-y-4">
-          {data.groups.map((group: Group) => (
-            <div key={group.id} className={`${cardClass} border rounded-lg p-6`}>
+          {visibleGroups.map((group: Group) => (
+            <div key={group.id} className={`${cardClass} border rounded-lg p-6 ${group.archived ? 'opacity-60' : ''}`}>
               <div className="flex justify-between items-start mb-4">
                 <div>
-                  <h3 className="font-bold text-xl">{group.name}</h3>
+                  <h3 className="font-bold text-xl">
+                    {group.name}
+                    {group.archived && <span className="ml-2 text-xs font-normal uppercase text-gray-500">Archived</span>}
+                  </h3>
                   <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
                     {group.members.length} {group.members.length === 1 ? 'member' : 'members'}
                   </p>
+                  <label className={`text-sm flex items-center gap-2 mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                    Spread:
+                    <select
+                      value={groupSpread(data, group).id}
+                      onChange={(e) => handleSetGroupSpread(group, e.target.value)}
+                      className={`px-2 py-1 rounded border ${theme === 'dark' ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    >
+                      {data.spreads.map((spread: Spread) => (
+                        <option key={spread.id} value={spread.id}>{spread.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <div className="flex gap-2 items-center">
+                  <button
+                    onClick={() => handleArchiveGroup(group)}
+                    title={group.archived ? 'Unarchive group' : 'Archive group'}
+                    className={`p-2 rounded-lg ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  >
+                    {group.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteGroup(group)}
+                    title="Delete group"
+                    className={`p-2 rounded-lg text-red-500 ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setEditingGroup(group)}
+                    className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+                  >
+                    Add Member
+                  </button>
                 </div>
-                <button
-                  onClick={() => setEditingGroup(group)}
-                  className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
-                >
-                  Add Member
-                </button>
               </div>
 
               {/* Members */}
               {group.members.length > 0 && (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-4">
-                  {group.members.map((member, idx) => (
-                    <div key={idx} className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                  {group.members.filter(member => showArchived || !member.archived).map(member => (
+                    <div key={member.id} className={`p-3 rounded-lg ${member.archived ? 'opacity-60' : ''} ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
                       <div className="flex items-center gap-2">
                         <User className="w-4 h-4" />
-                        <span className="font-medium">{member.name}</span>
+                        <span className="font-medium flex-1">
+                          {member.name}
+                          {member.archived && <span className="ml-2 text-xs font-normal uppercase text-gray-500">Archived</span>}
+                        </span>
+                        <button
+                          onClick={() => openMemberEditor(group, member)}
+                          title="Edit member"
+                          className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleArchiveMember(group, member)}
+                          title={member.archived ? 'Unarchive member' : 'Archive member'}
+                          className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                        >
+                          {member.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteMember(group, member)}
+                          title="Delete member"
+                          className={`p-1 rounded text-red-500 ${theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
                       </div>
                       <div className={`text-xs mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                        Active: {member.joinedYears.join(', ')}
+                        Active: {member.joinedYears.length > 0 ? member.joinedYears.join(', ') : 'no years'}
                       </div>
                     </div>
                   ))}
@@ -650,6 +1792,74 @@ function GroupManagement({ data, updateData, theme, showNotification }: any) {
         </div>
       )}
 
+      <SpreadManager data={data} updateData={updateData} theme={theme} showNotification={showNotification} />
+
+      {/* Edit Member Modal */}
+      {memberGroup && member && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className={`${cardClass} border rounded-lg p-6 max-w-md w-full`}>
+            <h3 className="text-xl font-bold mb-4">{member.name} in {memberGroup.name}</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block mb-2 font-medium">Name</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={renameText}
+                    onChange={(e) => setRenameText(e.target.value)}
+                    className={inputClass}
+                    onKeyPress={(e) => e.key === 'Enter' && handleRename()}
+                  />
+                  <button
+                    onClick={handleRename}
+                    disabled={!renameText.trim() || renameText.trim() === member.name}
+                    className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    Rename
+                  </button>
+                </div>
+                <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Their saved readings move to the new name.
+                </p>
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">Active Years</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {groupYearRange(memberGroup).map(year => {
+                    const active = isActiveIn(member, year);
+                    const hasReading = yearsWithReadings(memberGroup, member.name).includes(year);
+                    return (
+                      <button
+                        key={year}
+                        onClick={() => handleToggleYear(year)}
+                        title={hasReading ? 'Has a saved reading' : undefined}
+                        className={`px-2 py-1 rounded-lg text-sm ${active
+                          ? 'bg-amber-600 text-white'
+                          : theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                          }`}
+                      >
+                        {year}{hasReading && ' •'}
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Only active members are offered when entering and viewing readings that year. • marks a saved reading.
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 mt-6">
+              <button
+                onClick={() => setEditingMember(null)}
+                className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Add Member Modal */}
       {editingGroup && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -702,118 +1912,503 @@ function GroupManagement({ data, updateData, theme, showNotification }: any) {
   );
 }
 
-// Enter Reading Component
-function EnterReading({ data, updateData, theme, showNotification }: any) {
-  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
-  const [selectedPerson, setSelectedPerson] = useState('');
-  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear() + 1);
-  const [currentMonth, setCurrentMonth] = useState(0);
-  const [selectedCards, setSelectedCards] = useState<Card[]>([]);
-  const [alreadySelected, setAlreadySelected] = useState<Set<string>>(new Set());
-  const [showCardPicker, setShowCardPicker] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [existingReading, setExistingReading] = useState<PersonYearReading | null>(null);
-
-  // Load existing reading and determine starting month
-  useEffect(() => {
-    if (selectedGroup && selectedPerson && selectedYear) {
-      const reading = selectedGroup.yearReadings[selectedYear]?.[selectedPerson];
-      setExistingReading(reading || null);
-
-      if (reading) {
-        // Find first incomplete month
-        const firstIncomplete = reading.readings.findIndex(r => !r || r.cards.length !== 4);
-        setCurrentMonth(firstIncomplete === -1 ? reading.readings.length : firstIncomplete);
-
-        const used = new Set<string>();
-        reading.readings.slice(0, currentMonth).forEach(m => {
-          if (m) m.cards.forEach(c => used.add(c.id));
-        });
-        setAlreadySelected(used);
-      } else {
-        setCurrentMonth(0);
-        setAlreadySelected(new Set());
-      }
-    }
-  }, [selectedGroup, selectedPerson, selectedYear]);
-
-  // Update already selected cards when month changes
-  useEffect(() => {
-    if (existingReading) {
-      const used = new Set<string>();
-      existingReading.readings.slice(0, currentMonth).forEach(m => {
-        if (m) m.cards.forEach(c => used.add(c.id));
-      });
-      setAlreadySelected(used);
-    }
-  }, [currentMonth, existingReading]);
+// Spread Manager Component
+function SpreadManager({ data, updateData, theme, showNotification }: any) {
+  const [editing, setEditing] = useState<{ spread: Spread; positionsText: string; isNew: boolean } | null>(null);
 
-  const availableCards = useMemo(() => {
-    return data.cards.filter((card: Card) =>
-      !alreadySelected.has(card.id) &&
-      !selectedCards.find(c => c.id === card.id) &&
-      (searchTerm === '' || card.name.toLowerCase().includes(searchTerm.toLowerCase()))
-    );
-  }, [data.cards, alreadySelected, selectedCards, searchTerm]);
+  const original: Spread | undefined = editing && !editing.isNew ? data.spreads.find((s: Spread) => s.id === editing.spread.id) : undefined;
+  // Saved readings depend on the period and card count, so only names can change once a spread is used
+  const locked = !!original && spreadInUse(data, original.id);
 
-  const handleSelectCard = (card: Card) => {
-    if (selectedCards.length < 4) {
-      setSelectedCards([...selectedCards, card]);
-      if (selectedCards.length === 3) {
-        setShowCardPicker(false);
-      }
-    }
+  const startNew = () => {
+    setEditing({
+      spread: { id: newSpreadId(), name: '', period: 'single', positions: [], connections: adjacentConnections(3) },
+      positionsText: 'Past\nPresent\nFuture',
+      isNew: true
+    });
   };
 
-  const handleRemoveCard = (cardId: string) => {
-    setSelectedCards(selectedCards.filter(c => c.id !== cardId));
+  const startEdit = (spread: Spread) => {
+    setEditing({ spread, positionsText: spread.positions.join('\n'), isNew: false });
   };
 
-  const handleSaveMonth = () => {
-    if (selectedCards.length !== 4 || !selectedGroup || !selectedPerson) return;
+  const draftPositions = editing ? editing.positionsText.split('\n').map(line => line.trim()).filter(Boolean) : [];
+  const isConnected = (a: number, b: number) =>
+    !!editing?.spread.connections.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
 
-    updateData((prev: AppData) => {
-      const groups = prev.groups.map(g => {
-        if (g.id !== selectedGroup.id) return g;
+  const toggleConnection = (a: number, b: number) => {
+    if (!editing) return;
+    const connections: [number, number][] = isConnected(a, b)
+      ? editing.spread.connections.filter(([x, y]) => !((x === a && y === b) || (x === b && y === a)))
+      : [...editing.spread.connections, [a, b]];
+    setEditing({ ...editing, spread: { ...editing.spread, connections } });
+  };
 
-        const yearReadings = { ...g.yearReadings };
-        if (!yearReadings[selectedYear]) {
-          yearReadings[selectedYear] = {};
-        }
+  const handleSave = () => {
+    if (!editing) return;
+    const spread: Spread = {
+      ...editing.spread,
+      name: editing.spread.name.trim(),
+      positions: draftPositions,
+      // Connections to positions that were removed from the list are dropped
+      connections: editing.spread.connections.filter(([a, b]) => Math.max(a, b) < draftPositions.length)
+    };
+    const issues = spreadIssues(spread, data.spreads);
+    if (locked && original && (original.period !== spread.period || original.positions.length !== spread.positions.length)) {
+      issues.push(`${original.name} is used by saved readings, so it must keep ${original.positions.length} positions and the same period.`);
+    }
+    if (issues.length > 0) {
+      showNotification(issues[0], 'error');
+      return;
+    }
 
-        const personReading = yearReadings[selectedYear][selectedPerson] || {
-          personName: selectedPerson,
-          year: selectedYear,
-          readings: []
-        };
-
-        const readings = [...personReading.readings];
-        readings[currentMonth] = {
-          month: MONTHS[currentMonth],
-          cards: selectedCards
-        };
-
-        yearReadings[selectedYear][selectedPerson] = {
-          ...personReading,
-          readings,
-          completedAt: readings.length === 12 ? new Date().toISOString() : personReading.completedAt
-        };
-
-        return { ...g, yearReadings };
-      });
+    updateData((prev: AppData) => ({
+      ...prev,
+      spreads: editing.isNew ? [...prev.spreads, spread] : prev.spreads.map(s => s.id === spread.id ? spread : s)
+    }), `${editing.isNew ? 'Created' : 'Edited'} spread ${spread.name}`);
+    showNotification(`Spread "${spread.name}" saved`);
+    setEditing(null);
+  };
 
-      return { ...prev, groups };
+  const handleDelete = (spread: Spread) => {
+    if (spreadInUse(data, spread.id)) {
+      showNotification(`${spread.name} is used by a group or saved readings, in the trash included, and can't be deleted.`, 'error');
+      return;
+    }
+    if (!confirm(`Delete the spread "${spread.name}"?`)) return;
+    updateData((prev: AppData) => ({ ...prev, spreads: prev.spreads.filter(s => s.id !== spread.id) }), `Deleted spread ${spread.name}`);
+  };
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const inputClass = theme === 'dark'
+    ? 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+    : 'w-full px-4 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="font-bold text-lg">Spreads</h3>
+          <p className={`text-sm ${mutedText}`}>How many cards each reading has, what each position means, and how often it happens.</p>
+        </div>
+        <button
+          onClick={startNew}
+          className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 whitespace-nowrap"
+        >
+          New Spread
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {data.spreads.map((spread: Spread) => (
+          <div key={spread.id} className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+            <div className="flex justify-between items-start gap-2">
+              <div>
+                <div className="font-medium">{spread.name}</div>
+                <div className={`text-xs ${mutedText}`}>{PERIOD_LABELS[spread.period]} • {spread.positions.join(', ')}</div>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => startEdit(spread)}
+                  title="Edit spread"
+                  className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                {!isBuiltInSpread(spread.id) && (
+                  <button
+                    onClick={() => handleDelete(spread)}
+                    title="Delete spread"
+                    className={`p-1 rounded text-red-500 ${theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className={`${cardClass} border rounded-lg p-6 max-w-md w-full`}>
+            <h3 className="text-xl font-bold mb-4">{editing.isNew ? 'New Spread' : `Edit ${original?.name}`}</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block mb-2 font-medium">Name</label>
+                <input
+                  type="text"
+                  value={editing.spread.name}
+                  onChange={(e) => setEditing({ ...editing, spread: { ...editing.spread, name: e.target.value } })}
+                  placeholder="e.g. Birthday reading"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">Period</label>
+                <select
+                  value={editing.spread.period}
+                  disabled={locked}
+                  onChange={(e) => setEditing({ ...editing, spread: { ...editing.spread, period: e.target.value as SpreadPeriod } })}
+                  className={`${inputClass} disabled:opacity-50`}
+                >
+                  {(Object.keys(PERIOD_LABELS) as SpreadPeriod[]).map(period => (
+                    <option key={period} value={period}>{PERIOD_LABELS[period]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">Positions (one per line, up to {MAX_SPREAD_POSITIONS})</label>
+                <textarea
+                  value={editing.positionsText}
+                  onChange={(e) => setEditing({ ...editing, positionsText: e.target.value })}
+                  className={`${inputClass} h-32`}
+                />
+                {locked && (
+                  <p className={`text-xs mt-1 ${mutedText}`}>
+                    Used by saved readings: positions can be renamed, but the number of cards and the period stay as they are.
+                  </p>
+                )}
+              </div>
+              {draftPositions.length > 1 && (
+                <div>
+                  <label className="block mb-2 font-medium">Connecting cards</label>
+                  <p className={`text-xs mb-2 ${mutedText}`}>Cards in connected positions are highlighted together when a reading is viewed.</p>
+                  <div className="max-h-40 overflow-y-auto space-y-1">
+                    {draftPositions.flatMap((first, a) => draftPositions.slice(a + 1).map((second, offset) => {
+                      const b = a + 1 + offset;
+                      return (
+                        <label key={`${a}-${b}`} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={isConnected(a, b)}
+                            onChange={() => toggleConnection(a, b)}
+                            className="w-4 h-4"
+                          />
+                          {first} ↔ {second}
+                        </label>
+                      );
+                    }))}
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2 mt-6">
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setEditing(null)}
+                className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Enter Reading Component
+function EnterReading({ data, updateData, theme, showNotification }: any) {
+  const [wizard, dispatch] = useReducer(
+    wizardReducer,
+    undefined,
+    () => initialWizard(new Date().getFullYear() + 1, DEFAULT_SPREAD_ID)
+  );
+  const [pickingPosition, setPickingPosition] = useState(0);
+  const [showCardPicker, setShowCardPicker] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [entryMode, setEntryMode] = useState<'pick' | 'draw'>('pick');
+  // The deal shown for the current slot, not yet saved
+  const [deal, setDeal] = useState<DrawLogEntry | null>(null);
+  const [revealed, setRevealed] = useState<boolean[]>([]);
+  const [newSeed, setNewSeed] = useState(newDrawSeed);
+  const [editorName, setEditorName] = useState(data.settings.editorName || '');
+  // Whether this screen is taking turns for the stored group session
+  const [inSession, setInSession] = useState(false);
+  const [sessionOrder, setSessionOrder] = useState<SessionOrder>('round-robin');
+
+  // Looked up on every render, so the wizard always sees what is saved now
+  const cardsById = useMemo(() => new Map<string, Card>(data.cards.map((c: Card) => [c.id, c])), [data.cards]);
+  const selectedGroup: Group | undefined = data.groups.find((g: Group) => g.id === wizard.groupId);
+  const { year: selectedYear, personName: selectedPerson, slot: activeSlot, editing } = wizard;
+  const savedReading: PersonYearReading | undefined = selectedGroup?.yearReadings[selectedYear]?.[selectedPerson];
+
+  // A reading that has been started keeps its spread; a new one uses the chosen spread
+  const spread = savedReading && selectedGroup ? readingSpread(data, selectedGroup, savedReading) : findSpread(data, wizard.spreadId);
+  const slots = periodSlots(spread.period);
+  const cardsPerSlot = spread.positions.length;
+  const selectedCards: (Card | null)[] = wizard.cardIds.map(id => id ? cardsById.get(id) || null : null);
+  const filledCount = selectedCards.filter(Boolean).length;
+  const savedSlotCount = slots.filter((_, idx) => isSlotComplete(savedReading?.readings[idx], spread)).length;
+  // A reading keeps the seed of its first deal
+  const drawSeed = savedReading?.drawSeed ?? newSeed;
+  const blockedCards = blockedCardIds(wizard, savedReading);
+  const cardName = (id: string) => cardsById.get(id)?.name ?? id;
+
+  const activeGroups = data.groups.filter((g: Group) => !g.archived);
+  const activeCardCount = data.cards.filter((card: Card) => !card.archived).length;
+  const remainingCount = data.cards.filter((card: Card) => !card.archived && !blockedCards.has(card.id)).length;
+
+  const availableCards = useMemo(() => {
+    return data.cards.filter((card: Card) =>
+      !card.archived &&
+      !blockedCards.has(card.id) &&
+      !wizard.cardIds.includes(card.id) &&
+      (searchTerm === '' || card.name.toLowerCase().includes(searchTerm.toLowerCase()))
+    );
+  }, [data.cards, blockedCards, wizard.cardIds, searchTerm]);
+
+  const clearDeal = () => {
+    setDeal(null);
+    setRevealed([]);
+  };
+
+  // Every move to another slot or person drops an unsaved deal
+  const go = (event: WizardEvent) => {
+    clearDeal();
+    dispatch(event);
+  };
+
+  const setCards = (cards: (Card | null)[]) => dispatch({ type: 'setCards', cardIds: cards.map(card => card?.id ?? null) });
+
+  const choosePerson = (personName: string) => {
+    const reading = selectedGroup?.yearReadings[selectedYear]?.[personName];
+    setNewSeed(newDrawSeed());
+    setEntryMode('pick');
+    go({
+      type: 'selectPerson',
+      personName,
+      reading,
+      spread: reading && selectedGroup ? readingSpread(data, selectedGroup, reading) : findSpread(data, wizard.spreadId)
+    });
+  };
+
+  // Shuffles every card still allowed this year and deals one face down per position
+  const handleDeal = () => {
+    const pool = data.cards.filter((card: Card) => !card.archived && !blockedCards.has(card.id)).map((card: Card) => card.id);
+    const entry = dealCards(pool, cardsPerSlot, drawSeed, activeSlot, (deal?.attempt ?? 0) + 1);
+    if (entry.cardIds.length < cardsPerSlot) {
+      showNotification(`Only ${pool.length} cards are left for ${selectedYear}; a ${spread.name} needs ${cardsPerSlot}.`, 'error');
+      return;
+    }
+    setDeal(entry);
+    setRevealed(entry.cardIds.map(() => false));
+    dispatch({ type: 'setCards', cardIds: entry.cardIds });
+  };
+
+  const handleReveal = (position: number) => {
+    setRevealed(revealed.map((flipped, idx) => flipped || idx === position));
+  };
+
+  const openSlot = (slot: number) => {
+    if (savedReading?.readings[slot]) {
+      setEntryMode('pick');
+      go({ type: 'editSlot', slot, reading: savedReading });
+    } else {
+      go({ type: 'goToSlot', slot, reading: savedReading, spread });
+    }
+  };
+
+  const switchMode = (mode: 'pick' | 'draw') => {
+    setEntryMode(mode);
+    clearDeal();
+    dispatch({ type: 'setCards', cardIds: [] });
+  };
+
+  const firstEmptyPosition = (cards: (Card | null)[], from = 0) => {
+    const order = [...Array(cardsPerSlot).keys()].map(i => (from + i) % cardsPerSlot);
+    return order.find(i => !cards[i]) ?? -1;
+  };
+
+  const openPicker = (position?: number) => {
+    const target = position ?? firstEmptyPosition(selectedCards);
+    if (target === -1) return;
+    setPickingPosition(target);
+    setShowCardPicker(true);
+  };
+
+  // Fills the position being picked, then moves on to the next empty one
+  const handleSelectCard = (card: Card) => {
+    const cards = Array.from({ length: cardsPerSlot }, (_, i) => selectedCards[i] || null);
+    cards[pickingPosition] = card;
+    setCards(cards);
+    const next = firstEmptyPosition(cards, pickingPosition + 1);
+    if (next === -1) {
+      setShowCardPicker(false);
+    } else {
+      setPickingPosition(next);
+    }
+  };
+
+  const handleRemoveCard = (position: number) => {
+    setCards(selectedCards.map((card, idx) => idx === position ? null : card));
+  };
+
+  // Every slot of the spread: saved ones open for correction, open ones can be skipped to
+  const slotChips = savedReading && (
+    <div className="mt-4">
+      <div className={`text-sm mb-2 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>Go to a slot, or correct a saved one:</div>
+      <div className="flex flex-wrap gap-2">
+        {slots.map((label, idx) => {
+          const saved = isSlotComplete(savedReading.readings[idx], spread);
+          return (
+            <button
+              key={idx}
+              onClick={() => openSlot(idx)}
+              title={saved ? `Correct ${label}` : `Enter ${label}`}
+              className={`px-3 py-1 rounded-full text-sm flex items-center gap-1 ${wizard.step === 'enterCards' && activeSlot === idx
+                ? 'bg-amber-600 text-white'
+                : theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                }`}
+            >
+              {saved && <Check className="w-3 h-3" />}
+              {label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const session: ReadingSession | undefined = data.settings.session;
+  const sessionGroupNow = session && sessionGroup(data, session);
+  const rowsFor = (source: AppData, current: ReadingSession) => {
+    const group = sessionGroup(source, current);
+    return group ? sessionRows(source, current, groupSpread(source, group)) : [];
+  };
+
+  const updateSession = (next: ReadingSession | undefined, label: string) => {
+    updateData((prev: AppData) => ({ ...prev, settings: { ...prev.settings, session: next } }), label);
+  };
+
+  // Opens the next turn of the session, or finishes it when every reading is full
+  const beginTurn = (source: AppData, current: ReadingSession) => {
+    const rows = rowsFor(source, current);
+    const task = nextTask(rows, current.order);
+    if (!task) {
+      updateSession(undefined, 'Finished reading session');
+      setInSession(false);
+      go({ type: 'changePerson' });
+      showNotification(`Session finished: every reading for ${sessionGroup(source, current)?.name ?? 'the group'} ${current.year} is complete`, 'success');
+      return;
+    }
+    const row = rows.find(r => r.member.id === task.memberId)!;
+    setEntryMode('pick');
+    setNewSeed(newDrawSeed());
+    go({ type: 'startTask', groupId: current.groupId, year: current.year, personName: task.personName, slot: task.slot, reading: row.reading, spread: row.spread });
+  };
+
+  const handleStartSession = () => {
+    if (!selectedGroup) return;
+    const next = startSession(selectedGroup, selectedYear, sessionOrder);
+    if (next.queue.length === 0) {
+      showNotification(`Nobody in ${selectedGroup.name} is marked active in ${selectedYear}.`, 'error');
+      return;
+    }
+    if (session && !confirm('This replaces the session that is already saved. Continue?')) return;
+    updateSession(next, `Started session for ${selectedGroup.name} ${selectedYear}`);
+    setInSession(true);
+    beginTurn(data, next);
+  };
+
+  const handleResumeSession = () => {
+    if (!session) return;
+    const next = setSessionPaused(session, false);
+    updateSession(next, 'Resumed reading session');
+    setInSession(true);
+    beginTurn(data, next);
+  };
+
+  const handlePauseSession = () => {
+    if (!session) return;
+    updateSession(setSessionPaused(session, true), 'Paused reading session');
+    setInSession(false);
+    go({ type: 'changePerson' });
+  };
+
+  const handleEndSession = () => {
+    if (!confirm('End the session? Saved readings are kept.')) return;
+    updateSession(undefined, 'Ended reading session');
+    setInSession(false);
+    go({ type: 'changePerson' });
+  };
+
+  const handleSkipTurn = () => {
+    if (!session || !sessionGroupNow) return;
+    const member = sessionGroupNow.members.find(m => m.name === selectedPerson);
+    if (!member) return;
+    const next = skipMember(session, member.id);
+    updateSession(next, `Moved ${member.name} to the back of the queue`);
+    beginTurn(data, next);
+  };
+
+  const handleSessionOrder = (order: SessionOrder) => {
+    if (!session) return;
+    const next = { ...session, order };
+    updateSession(next, 'Changed session order');
+    beginTurn(data, next);
+  };
+
+  // After a save, a session moves on to the next turn instead of the next slot
+  const afterSave = (next: AppData, reading: PersonYearReading) => {
+    if (inSession && next.settings.session) {
+      beginTurn(next, next.settings.session);
+    } else {
+      go({ type: 'slotSaved', reading, spread });
+    }
+  };
+
+  const readingAfter = (next: AppData) =>
+    next.groups.find(g => g.id === wizard.groupId)?.yearReadings[selectedYear]?.[selectedPerson];
+
+  const handleSaveEdit = () => {
+    if (!selectedGroup || filledCount !== cardsPerSlot) return;
+    const cardIds = selectedCards.map(c => c!.id);
+    const change = (prev: AppData) => ({
+      ...editSlot(prev, selectedGroup.id, selectedYear, selectedPerson, activeSlot, cardIds, editorName, cardName),
+      settings: { ...prev.settings, editorName: editorName.trim() || undefined }
     });
+    if (!canApply(data, change, showNotification)) return;
+    updateData(change, `Corrected ${slots[activeSlot]} reading for ${selectedPerson}`);
+    showNotification(`Saved changes to ${slots[activeSlot]}`);
+    const next = change(data);
+    afterSave(next, readingAfter(next)!);
+  };
 
-    showNotification(`Saved ${MONTHS[currentMonth]} reading for ${selectedPerson}`);
-    setSelectedCards([]);
-    if (currentMonth < 11) {
-      setCurrentMonth(currentMonth + 1);
+  const handleSaveMonth = () => {
+    if (editing) {
+      handleSaveEdit();
+      return;
+    }
+    if (filledCount !== cardsPerSlot || !selectedGroup || !selectedPerson) return;
+    if (deal && revealed.some(flipped => !flipped)) return;
+
+    const cardIds = selectedCards.map(c => c!.id);
+    const change = (prev: AppData) => saveSlot(
+      prev, selectedGroup.id, selectedYear, selectedPerson, activeSlot, spread, cardIds,
+      deal ? { seed: drawSeed, entry: deal } : undefined,
+      cardName
+    );
+    if (!canApply(data, change, showNotification)) return;
+    updateData(change, `Saved ${slots[activeSlot]} reading for ${selectedPerson}`);
+
+    const next = change(data);
+    const saved = readingAfter(next)!;
+    if (isReadingComplete(saved, spread)) {
+      showNotification(slots.length === 1 ? `Saved ${spread.name} reading for ${selectedPerson}!` : `Completed full year reading for ${selectedPerson}!`, 'success');
     } else {
-      showNotification(`Completed full year reading for ${selectedPerson}!`, 'success');
-      setCurrentMonth(0);
-      setSelectedPerson('');
+      showNotification(`Saved ${slots[activeSlot]} reading for ${selectedPerson}`);
     }
+    afterSave(next, saved);
   };
 
   const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
@@ -821,7 +2416,7 @@ function EnterReading({ data, updateData, theme, showNotification }: any) {
     ? 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
     : 'w-full px-4 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500';
 
-  if (data.cards.length === 0) {
+  if (activeCardCount === 0) {
     return (
       <div className={`${cardClass} border rounded-lg p-12 text-center`}>
         <AlertCircle className="w-16 h-16 mx-auto mb-4 text-gray-400" />
@@ -833,7 +2428,7 @@ function EnterReading({ data, updateData, theme, showNotification }: any) {
     );
   }
 
-  if (data.groups.length === 0) {
+  if (activeGroups.length === 0) {
     return (
       <div className={`${cardClass} border rounded-lg p-12 text-center`}>
         <Users className="w-16 h-16 mx-auto mb-4 text-gray-400" />
@@ -849,22 +2444,62 @@ function EnterReading({ data, updateData, theme, showNotification }: any) {
     <div className="space-y-6">
       <h2 className="text-2xl font-bold">Enter New Reading</h2>
 
+      {session && !inSession && (
+        <div className={`${cardClass} border rounded-lg p-4 flex flex-wrap justify-between items-center gap-3`}>
+          <div>
+            <div className="font-bold">{sessionGroupNow?.name ?? 'Missing group'} {session.year} session</div>
+            <div className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+              {session.pausedAt ? `Paused ${new Date(session.pausedAt).toLocaleString()}` : `Started ${new Date(session.startedAt).toLocaleString()}`}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {sessionGroupNow && (
+              <button
+                onClick={handleResumeSession}
+                className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+              >
+                Resume Session
+              </button>
+            )}
+            <button
+              onClick={handleEndSession}
+              className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+            >
+              End Session
+            </button>
+          </div>
+        </div>
+      )}
+
+      {session && inSession && (
+        <SessionBoard
+          session={session}
+          groupName={sessionGroupNow?.name ?? ''}
+          rows={rowsFor(data, session)}
+          current={wizard.step === 'enterCards' ? { personName: selectedPerson, slot: activeSlot } : null}
+          onOrderChange={handleSessionOrder}
+          onSkip={handleSkipTurn}
+          onPause={handlePauseSession}
+          onEnd={handleEndSession}
+          theme={theme}
+        />
+      )}
+
       {/* Selection */}
-      {!selectedPerson ? (
+      {wizard.step === 'chooseGroup' || wizard.step === 'choosePerson' ? (
         <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
           <div>
             <label className="block mb-2 font-medium">Select Group</label>
             <select
-              value={selectedGroup?.id || ''}
+              value={wizard.groupId}
               onChange={(e) => {
                 const group = data.groups.find((g: Group) => g.id === e.target.value);
-                setSelectedGroup(group || null);
-                setSelectedPerson('');
+                go({ type: 'selectGroup', groupId: group?.id ?? '', spreadId: group ? groupSpread(data, group).id : DEFAULT_SPREAD_ID });
               }}
               className={inputClass}
             >
               <option value="">Choose a group...</option>
-              {data.groups.map((group: Group) => (
+              {activeGroups.map((group: Group) => (
                 <option key={group.id} value={group.id}>{group.name}</option>
               ))}
             </select>
@@ -873,31 +2508,92 @@ function EnterReading({ data, updateData, theme, showNotification }: any) {
           {selectedGroup && (
             <>
               <div>
-                <label className="block mb-2 font-medium">Select Person</label>
+                <label className="block mb-2 font-medium">Year</label>
+                <input
+                  type="number"
+                  value={selectedYear}
+                  onChange={(e) => go({ type: 'selectYear', year: parseInt(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block mb-2 font-medium">Spread</label>
                 <select
-                  value={selectedPerson}
-                  onChange={(e) => setSelectedPerson(e.target.value)}
+                  value={wizard.spreadId}
+                  onChange={(e) => dispatch({ type: 'selectSpread', spreadId: e.target.value })}
                   className={inputClass}
                 >
-                  <option value="">Choose a person...</option>
-                  {selectedGroup.members.map((member, idx) => (
-                    <option key={idx} value={member.name}>{member.name}</option>
+                  {data.spreads.map((option: Spread) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name} ({option.positions.length} cards, {PERIOD_LABELS[option.period].toLowerCase()})
+                    </option>
                   ))}
                 </select>
+                <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Used for new readings. A reading that has already been started keeps its own spread.
+                </p>
               </div>
 
               <div>
-                <label className="block mb-2 font-medium">Year</label>
-                <input
-                  type="number"
-                  value={selectedYear}
-                  onChange={(e) => setSelectedYear(parseInt(e.target.value))}
-                  className={inputClass}
-                />
+                <label className="block mb-2 font-medium">Select Person</label>
+                {activeMembersIn(selectedGroup, selectedYear).length === 0 ? (
+                  <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+                    Nobody in {selectedGroup.name} is marked active in {selectedYear}. Set active years under Groups.
+                  </p>
+                ) : (
+                  <select
+                    value={selectedPerson}
+                    onChange={(e) => choosePerson(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a person...</option>
+                    {activeMembersIn(selectedGroup, selectedYear).map(member => (
+                      <option key={member.id} value={member.name}>{member.name}</option>
+                    ))}
+                  </select>
+                )}
               </div>
+
+              {activeMembersIn(selectedGroup, selectedYear).length > 0 && (
+                <div className={`pt-4 border-t ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <label className="block mb-2 font-medium">Or run a session for everyone</label>
+                  <div className="flex flex-wrap gap-2">
+                    <select
+                      value={sessionOrder}
+                      onChange={(e) => setSessionOrder(e.target.value as SessionOrder)}
+                      className={`${inputClass} md:w-auto`}
+                    >
+                      <option value="round-robin">Round-robin: everyone's {slots[0]} first</option>
+                      <option value="person">Person by person</option>
+                    </select>
+                    <button
+                      onClick={handleStartSession}
+                      className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 whitespace-nowrap"
+                    >
+                      Start Session
+                    </button>
+                  </div>
+                  <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                    Queues the {activeMembersIn(selectedGroup, selectedYear).length} members active in {selectedYear}. A session can be paused and picked up again later, even after closing the app.
+                  </p>
+                </div>
+              )}
             </>
           )}
         </div>
+      ) : wizard.step === 'complete' ? (
+        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+          <Check className="w-16 h-16 mx-auto mb-4 text-green-500" />
+          <h3 className="text-xl font-bold mb-2">{selectedPerson}'s {selectedYear} reading is complete</h3>
+          {slotChips}
+          <button
+            onClick={() => go({ type: 'changePerson' })}
+            className={`mt-4 px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            Change Person
+          </button>
+        </div>
       ) : (
         <div className="space-y-6">
           {/* Progress */}
@@ -906,79 +2602,155 @@ function EnterReading({ data, updateData, theme, showNotification }: any) {
               <div>
                 <h3 className="text-xl font-bold">{selectedPerson} - {selectedYear}</h3>
                 <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                  {MONTHS[currentMonth]} (Month {currentMonth + 1} of 12)
+                  {editing
+                    ? `${spread.name}: correcting ${slots[activeSlot]}`
+                    : `${spread.name}: ${slots[activeSlot]} (${savedSlotCount} of ${slots.length} saved)`}
                 </p>
               </div>
-              <button
-                onClick={() => {
-                  setSelectedPerson('');
-                  setCurrentMonth(0);
-                  setSelectedCards([]);
-                }}
-                className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
-              >
-                Change Person
-              </button>
+              {!inSession && (
+                <button
+                  onClick={() => go({ type: 'changePerson' })}
+                  className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+                >
+                  Change Person
+                </button>
+              )}
             </div>
 
             {/* Progress Bar */}
             <div className={`h-2 rounded-full ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-200'}`}>
               <div
                 className="h-full bg-amber-600 rounded-full transition-all"
-                style={{ width: `${((currentMonth + (selectedCards.length / 4)) / 12) * 100}%` }}
+                style={{ width: `${((savedSlotCount + (editing ? 0 : filledCount / cardsPerSlot)) / slots.length) * 100}%` }}
               />
             </div>
 
             <div className={`mt-2 text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-              {alreadySelected.size} cards used • {data.cards.length - alreadySelected.size} remaining
+              {blockedCards.size} cards used in other slots • {remainingCount} left to choose from
             </div>
+            {slotChips}
           </div>
 
           {/* Selected Cards */}
           <div className={`${cardClass} border rounded-lg p-6`}>
-            <h4 className="font-bold mb-4">Selected Cards ({selectedCards.length}/4)</h4>
-            {selectedCards.length === 0 ? (
-              <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
-                No cards selected yet
-              </p>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                {selectedCards.map(card => (
-                  <div key={card.id} className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'} flex justify-between items-start`}>
-                    <div>
-                      <div className="font-bold">{card.name}</div>
-                      <div className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                        {card.shortDescription}
-                      </div>
-                    </div>
+            <div className="flex justify-between items-center mb-4 gap-2">
+              <h4 className="font-bold">
+                {editing ? `Correcting ${slots[activeSlot]}` : 'Selected Cards'} ({filledCount}/{cardsPerSlot})
+              </h4>
+              {!editing && <div className={`flex rounded-lg overflow-hidden text-sm ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                {(['pick', 'draw'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => switchMode(mode)}
+                    className={`px-3 py-1 ${entryMode === mode ? 'bg-amber-600 text-white' : ''}`}
+                  >
+                    {mode === 'pick' ? 'Pick by hand' : 'Draw in app'}
+                  </button>
+                ))}
+              </div>}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {spread.positions.map((position, idx) => {
+                const card = selectedCards[idx];
+                if (deal && !revealed[idx]) {
+                  return (
                     <button
-                      onClick={() => handleRemoveCard(card.id)}
-                      className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                      key={idx}
+                      onClick={() => handleReveal(idx)}
+                      className={`p-4 rounded-lg text-left border-2 border-dashed ${theme === 'dark' ? 'bg-gray-900 border-amber-700' : 'bg-amber-100 border-amber-400'}`}
                     >
-                      <X className="w-4 h-4" />
+                      <div className={`text-xs uppercase ${theme === 'dark' ? 'text-amber-400' : 'text-amber-700'}`}>{position}</div>
+                      <div className="font-bold">Face down</div>
+                      <div className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>Tap to reveal</div>
                     </button>
+                  );
+                }
+                return (
+                  <div key={idx} className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'} flex justify-between items-start`}>
+                    <div>
+                      <div className={`text-xs uppercase ${theme === 'dark' ? 'text-amber-400' : 'text-amber-700'}`}>{position}</div>
+                      {card ? (
+                        <>
+                          <div className="font-bold">{card.name}</div>
+                          <div className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                            {card.shortDescription}
+                          </div>
+                        </>
+                      ) : entryMode === 'draw' ? (
+                        <div className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>Not dealt yet</div>
+                      ) : (
+                        <button
+                          onClick={() => openPicker(idx)}
+                          className={`text-sm underline ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}
+                        >
+                          Choose card
+                        </button>
+                      )}
+                    </div>
+                    {card && entryMode === 'pick' && (
+                      <button
+                        onClick={() => handleRemoveCard(idx)}
+                        className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
-                ))}
-              </div>
-            )}
+                );
+              })}
+            </div>
 
             <div className="flex gap-2 mt-4">
-              <button
-                onClick={() => setShowCardPicker(true)}
-                disabled={selectedCards.length === 4}
-                className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {selectedCards.length === 0 ? 'Select Cards' : 'Add More Cards'}
-              </button>
+              {entryMode === 'pick' ? (
+                <button
+                  onClick={() => openPicker()}
+                  disabled={filledCount === cardsPerSlot}
+                  className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {filledCount === 0 ? 'Select Cards' : 'Add More Cards'}
+                </button>
+              ) : (
+                <button
+                  onClick={handleDeal}
+                  className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+                >
+                  {deal ? 'Shuffle and Deal Again' : 'Shuffle and Deal'}
+                </button>
+              )}
               <button
                 onClick={handleSaveMonth}
-                disabled={selectedCards.length !== 4}
+                disabled={filledCount !== cardsPerSlot || (!!deal && revealed.some(flipped => !flipped))}
                 className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Save {MONTHS[currentMonth]}
+                {editing ? 'Save Changes' : `Save ${slots[activeSlot]}`}
               </button>
+              {editing && (
+                <button
+                  onClick={() => go({ type: 'stopEditing', reading: savedReading, spread })}
+                  className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+                >
+                  Cancel
+                </button>
+              )}
             </div>
-          </div>
+            {editing && (
+              <div className="mt-4">
+                <label className="block mb-1 text-sm font-medium">Edited by</label>
+                <input
+                  type="text"
+                  value={editorName}
+                  onChange={(e) => setEditorName(e.target.value)}
+                  placeholder="Your name, kept in the reading's edit trail"
+                  className={inputClass}
+                />
+              </div>
+            )}
+            {entryMode === 'draw' && (
+              <p className={`text-xs mt-2 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                Seed {drawSeed}{deal && deal.attempt > 1 ? `, deal ${deal.attempt}` : ''}. Dealt from {deal?.poolSize ?? remainingCount} cards not yet drawn this year; the seed and every saved deal are kept with the reading.
+              </p>
+            )}
+          </div>
         </div>
       )}
 
@@ -987,7 +2759,9 @@ function EnterReading({ data, updateData, theme, showNotification }: any) {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className={`${cardClass} border rounded-lg p-6 max-w-4xl w-full max-h-[90vh] flex flex-col`}>
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-xl font-bold">Select Cards ({selectedCards.length}/4)</h3>
+              <h3 className="text-xl font-bold">
+                Select {spread.positions[pickingPosition] || 'Cards'} ({filledCount}/{cardsPerSlot})
+              </h3>
               <button onClick={() => setShowCardPicker(false)}>
                 <X className="w-5 h-5" />
               </button>
@@ -1033,13 +2807,579 @@ function EnterReading({ data, updateData, theme, showNotification }: any) {
   );
 }
 
+// Who is done and what is left in a group session
+function SessionBoard({ session, groupName, rows, current, onOrderChange, onSkip, onPause, onEnd, theme }: {
+  session: ReadingSession;
+  groupName: string;
+  rows: SessionRow[];
+  current: { personName: string; slot: number } | null;
+  onOrderChange: (order: SessionOrder) => void;
+  onSkip: () => void;
+  onPause: () => void;
+  onEnd: () => void;
+  theme: string;
+}) {
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const doneCount = rows.filter(row => row.openSlots.length === 0).length;
+
+  return (
+    <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+      <div className="flex flex-wrap justify-between items-start gap-3">
+        <div>
+          <h3 className="text-xl font-bold">{groupName} {session.year} session</h3>
+          <p className={`text-sm ${mutedText}`}>{doneCount} of {rows.length} readings complete</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={session.order}
+            onChange={(e) => onOrderChange(e.target.value as SessionOrder)}
+            className={`px-3 py-2 rounded-lg border ${theme === 'dark' ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+          >
+            <option value="round-robin">Round-robin</option>
+            <option value="person">Person by person</option>
+          </select>
+          <button
+            onClick={onSkip}
+            disabled={!current}
+            className={`px-3 py-2 rounded-lg disabled:opacity-50 ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            Skip {current?.personName ?? ''}
+          </button>
+          <button
+            onClick={onPause}
+            className={`px-3 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            Pause
+          </button>
+          <button
+            onClick={onEnd}
+            className="px-3 py-2 rounded-lg text-red-500 hover:bg-red-50"
+          >
+            End
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {rows.map(row => {
+          const isCurrent = current?.personName === row.member.name;
+          return (
+            <div
+              key={row.member.id}
+              className={`p-3 rounded-lg flex flex-wrap items-center gap-3 ${isCurrent
+                ? theme === 'dark' ? 'bg-amber-900/40' : 'bg-amber-50'
+                : theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'
+                }`}
+            >
+              <div className="w-32 font-medium flex items-center gap-2">
+                {row.openSlots.length === 0 && <Check className="w-4 h-4 text-green-500" />}
+                {row.member.name}
+              </div>
+              <div className="flex flex-wrap gap-1 flex-1">
+                {row.slots.map((label, idx) => {
+                  const open = row.openSlots.includes(idx);
+                  const active = isCurrent && current?.slot === idx;
+                  return (
+                    <span
+                      key={idx}
+                      title={`${label}: ${open ? 'not yet' : 'saved'}`}
+                      className={`px-2 py-0.5 rounded text-xs ${active
+                        ? 'bg-amber-600 text-white'
+                        : open
+                          ? theme === 'dark' ? 'bg-gray-600 text-gray-300' : 'bg-gray-200 text-gray-600'
+                          : 'bg-green-100 text-green-800'
+                        }`}
+                    >
+                      {label.slice(0, 3)}
+                    </span>
+                  );
+                })}
+              </div>
+              <div className={`text-sm ${mutedText}`}>
+                {row.openSlots.length === 0 ? 'Done' : `${row.openSlots.length} left`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Reading Card Component
+function ReadingCard({ cardId, card, position, connections = [], highlighted = false, isExpanded, onToggle, theme }: {
+  cardId: string;
+  card: Card | undefined;
+  // Name of the spread position the card was drawn for
+  position?: string;
+  // The cards in connected positions, listed under the expanded text
+  connections?: { position: string; name: string }[];
+  // Set while a card connected to this one is expanded
+  highlighted?: boolean;
+  isExpanded: boolean;
+  onToggle: () => void;
+  theme: string;
+}) {
+  const positionLabel = position && (
+    <div className={`text-xs uppercase mb-1 ${theme === 'dark' ? 'text-amber-400' : 'text-amber-700'}`}>{position}</div>
+  );
+
+  if (!card) {
+    return (
+      <div className={`p-3 rounded border border-dashed ${theme === 'dark' ? 'bg-gray-800 border-red-700' : 'bg-white border-red-300'}`}>
+        {positionLabel}
+        <div className="flex items-center gap-2 font-medium text-red-500">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          Orphaned card
+        </div>
+        <div className={`text-sm mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+          "{cardId}" is no longer in the card library
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-3 rounded ${theme === 'dark' ? 'bg-gray-800' : 'bg-white'} ${highlighted ? 'ring-2 ring-amber-500' : ''}`}>
+      <button
+        onClick={onToggle}
+        className="w-full text-left"
+      >
+        {positionLabel}
+        <div className="flex justify-between items-start">
+          <div className="font-medium">{card.name}</div>
+          {isExpanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+        </div>
+        <div className={`text-sm mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+          {card.shortDescription}
+        </div>
+        {isExpanded && (
+          <div className={`text-sm mt-2 pt-2 border-t ${theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-700'}`}>
+            {card.longDescription}
+            {connections.length > 0 && (
+              <div className={`mt-2 ${theme === 'dark' ? 'text-amber-400' : 'text-amber-700'}`}>
+                Connecting cards: {connections.map(c => `${c.name} (${c.position})`).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+      </button>
+    </div>
+  );
+}
+
+// One slot of a reading, laid out by spread position. Expanding a card
+// highlights the cards in the positions connected to it.
+function SlotCards({ cardIds, cardNotes = [], onSaveCardNote, spread, cardsById, keyPrefix, expandedCards, toggleCard, theme }: {
+  cardIds: string[];
+  cardNotes?: string[];
+  // Lets the note on an expanded card be edited
+  onSaveCardNote?: (position: number, text: string) => void;
+  spread: Spread;
+  cardsById: Map<string, Card>;
+  keyPrefix: string;
+  expandedCards: Set<string>;
+  toggleCard: (key: string) => void;
+  theme: string;
+}) {
+  const keyFor = (position: number) => `${keyPrefix}-${position}-${cardIds[position]}`;
+  const highlighted = new Set(cardIds.flatMap((_, position) =>
+    expandedCards.has(keyFor(position)) ? connectedPositions(spread, position) : []
+  ));
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {cardIds.map((cardId, position) => (
+        <div key={`${position}-${cardId}`} className="space-y-1">
+          <ReadingCard
+            cardId={cardId}
+            card={cardsById.get(cardId)}
+            position={spread.positions[position]}
+            connections={connectedPositions(spread, position)
+              .filter(other => other < cardIds.length)
+              .map(other => ({ position: spread.positions[other], name: cardsById.get(cardIds[other])?.name ?? cardIds[other] }))}
+            highlighted={highlighted.has(position)}
+            isExpanded={expandedCards.has(keyFor(position))}
+            onToggle={() => toggleCard(keyFor(position))}
+            theme={theme}
+          />
+          {onSaveCardNote && (cardNotes[position] || expandedCards.has(keyFor(position))) && (
+            <NoteEditor
+              label="Card note"
+              value={cardNotes[position] || ''}
+              placeholder="What the reader said about this card"
+              onSave={(text) => onSaveCardNote(position, text)}
+              theme={theme}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Shows a note with an edit button; blank notes show just the add button.
+function NoteEditor({ label, value, placeholder, onSave, theme }: {
+  label: string;
+  value: string;
+  placeholder: string;
+  onSave: (text: string) => void;
+  theme: string;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  if (draft !== null) {
+    return (
+      <div className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={placeholder}
+          autoFocus
+          className={`w-full px-3 py-2 text-sm rounded-lg border h-20 focus:outline-none focus:ring-2 focus:ring-amber-500 ${theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-300'}`}
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => {
+              onSave(draft);
+              setDraft(null);
+            }}
+            className="px-3 py-1 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setDraft(null)}
+            className={`px-3 py-1 text-sm rounded-lg ${theme === 'dark' ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!value) {
+    return (
+      <button onClick={() => setDraft('')} className={`text-sm underline ${mutedText}`}>
+        Add {label.toLowerCase()}
+      </button>
+    );
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center gap-2">
+        <span className={`text-xs uppercase ${mutedText}`}>{label}</span>
+        <button onClick={() => setDraft(value)} title={`Edit ${label.toLowerCase()}`} className={mutedText}>
+          <Edit2 className="w-3 h-3" />
+        </button>
+      </div>
+      <p className="whitespace-pre-wrap">{value}</p>
+    </div>
+  );
+}
+
+// Slot notes from the session and the later reflection on how it turned out
+function SlotNotes({ month, onSaveNotes, onSaveReflection, theme }: {
+  month: MonthReading;
+  onSaveNotes: (text: string) => void;
+  onSaveReflection: (text: string, accuracy: AccuracyRating | undefined) => void;
+  theme: string;
+}) {
+  const [reflectionDraft, setReflectionDraft] = useState<{ text: string; accuracy?: AccuracyRating } | null>(null);
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const reflection = month.reflection;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <NoteEditor
+        label={`${month.month} notes`}
+        value={month.notes || ''}
+        placeholder="What came up in the session"
+        onSave={onSaveNotes}
+        theme={theme}
+      />
+      {reflectionDraft ? (
+        <div className="space-y-2">
+          <select
+            value={reflectionDraft.accuracy || ''}
+            onChange={(e) => setReflectionDraft({ ...reflectionDraft, accuracy: (e.target.value || undefined) as AccuracyRating | undefined })}
+            className={`px-3 py-1 text-sm rounded-lg border ${theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-300'}`}
+          >
+            <option value="">Not rated</option>
+            {(Object.keys(ACCURACY_LABELS) as AccuracyRating[]).map(rating => (
+              <option key={rating} value={rating}>{ACCURACY_LABELS[rating]}</option>
+            ))}
+          </select>
+          <textarea
+            value={reflectionDraft.text}
+            onChange={(e) => setReflectionDraft({ ...reflectionDraft, text: e.target.value })}
+            placeholder="How did it turn out?"
+            className={`w-full px-3 py-2 text-sm rounded-lg border h-20 focus:outline-none focus:ring-2 focus:ring-amber-500 ${theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-300'}`}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                onSaveReflection(reflectionDraft.text, reflectionDraft.accuracy);
+                setReflectionDraft(null);
+              }}
+              className="px-3 py-1 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setReflectionDraft(null)}
+              className={`px-3 py-1 text-sm rounded-lg ${theme === 'dark' ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'}`}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : reflection ? (
+        <div className="text-sm">
+          <div className="flex items-center gap-2">
+            <span className={`text-xs uppercase ${mutedText}`}>How it turned out</span>
+            {reflection.accuracy && (
+              <span className={`px-2 py-0.5 rounded-full text-xs ${reflection.accuracy === 'accurate'
+                ? 'bg-green-100 text-green-800'
+                : reflection.accuracy === 'partly' ? 'bg-amber-100 text-amber-800' : 'bg-red-100 text-red-800'}`}
+              >
+                {ACCURACY_LABELS[reflection.accuracy]}
+              </span>
+            )}
+            <button onClick={() => setReflectionDraft({ text: reflection.text, accuracy: reflection.accuracy })} title="Edit reflection" className={mutedText}>
+              <Edit2 className="w-3 h-3" />
+            </button>
+          </div>
+          {reflection.text && <p className="whitespace-pre-wrap">{reflection.text}</p>}
+        </div>
+      ) : (
+        <button onClick={() => setReflectionDraft({ text: '' })} className={`block text-sm underline ${mutedText}`}>
+          Add how it turned out
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Person Timeline Component: one person's years across groups, recurring cards highlighted
+function PersonTimeline({ data, personName, onPersonChange, cardsById, theme }: {
+  data: AppData;
+  personName: string;
+  onPersonChange: (name: string) => void;
+  cardsById: Map<string, Card>;
+  theme: string;
+}) {
+  const [focusCard, setFocusCard] = useState<string | null>(null);
+  const people = useMemo(() => timelinePeople(data), [data]);
+  const rows = useMemo(() => personName ? personTimeline(data, personName) : [], [data, personName]);
+  const recurring = useMemo(() => recurringCards(rows), [rows]);
+  const inSeveralGroups = new Set(rows.map(row => row.group.id)).size > 1;
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const cardName = (cardId: string) => cardsById.get(cardId)?.name ?? cardId;
+
+  const chipClass = (cardId: string) => {
+    if (focusCard === cardId) return 'bg-amber-600 text-white';
+    if (recurring.has(cardId)) return theme === 'dark' ? 'bg-amber-900 text-amber-100' : 'bg-amber-200 text-amber-900';
+    return theme === 'dark' ? 'bg-gray-700' : 'bg-gray-100';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className={`${cardClass} border rounded-lg p-6`}>
+        <label className="block mb-2 font-medium">Person</label>
+        <select
+          value={personName}
+          onChange={(e) => {
+            onPersonChange(e.target.value);
+            setFocusCard(null);
+          }}
+          className={`w-full md:w-80 px-4 py-2 rounded-lg border ${theme === 'dark' ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+        >
+          <option value="">Select person...</option>
+          {people.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </div>
+
+      {!personName ? (
+        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+          <User className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+          <p className={mutedText}>Select a person to see their readings year by year</p>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+          <Calendar className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+          <p className={mutedText}>No current readings for {personName}</p>
+        </div>
+      ) : (
+        <>
+          <div className={`${cardClass} border rounded-lg p-6 overflow-x-auto`}>
+            <table className="w-full text-sm border-separate border-spacing-1">
+              <thead>
+                <tr>
+                  <th className="text-left p-1">Year</th>
+                  {MONTHS.map(month => <th key={month} className={`p-1 font-medium ${mutedText}`}>{month.slice(0, 3)}</th>)}
+                  <th className="text-left p-1">Themes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const themes = dominantThemes(row.cells.flatMap(cell => cell.cardIds), cardsById);
+                  return (
+                    <tr key={`${row.group.id}-${row.reading.year}`}>
+                      <td className="p-1 align-top whitespace-nowrap">
+                        <div className="font-bold">{row.reading.year}</div>
+                        {inSeveralGroups && <div className={`text-xs ${mutedText}`}>{row.group.name}</div>}
+                      </td>
+                      {row.cells.map(cell => (
+                        <td
+                          key={cell.startMonth}
+                          colSpan={cell.months}
+                          title={cell.label}
+                          className={`p-1 align-top rounded ${theme === 'dark' ? 'bg-gray-900' : 'bg-amber-50'}`}
+                        >
+                          {cell.cardIds.length === 0 ? (
+                            <span className={mutedText}>—</span>
+                          ) : (
+                            <div className="flex flex-col gap-1">
+                              {cell.cardIds.map((cardId, position) => (
+                                <button
+                                  key={position}
+                                  onClick={() => setFocusCard(focusCard === cardId ? null : cardId)}
+                                  title={[
+                                    `${row.spread.positions[position] ?? `Card ${position + 1}`}: ${cardsById.get(cardId)?.shortDescription ?? ''}`,
+                                    recurring.has(cardId) ? `Drawn in ${recurring.get(cardId)!.join(', ')}` : ''
+                                  ].filter(Boolean).join('\n')}
+                                  className={`px-1 rounded text-xs text-left truncate ${chipClass(cardId)}`}
+                                >
+                                  {cardName(cardId)}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      ))}
+                      <td className={`p-1 align-top text-xs ${mutedText}`}>
+                        {themes.length > 0 ? themes.map(t => `${t.word} ×${t.count}`).join(', ') : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={`${cardClass} border rounded-lg p-6`}>
+            <h3 className="text-xl font-bold mb-3">Recurring cards</h3>
+            {recurring.size === 0 ? (
+              <p className={mutedText}>No card has turned up more than once for {personName} yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {Array.from(recurring)
+                  .sort((a, b) => b[1].length - a[1].length || cardName(a[0]).localeCompare(cardName(b[0])))
+                  .map(([cardId, years]) => (
+                    <button
+                      key={cardId}
+                      onClick={() => setFocusCard(focusCard === cardId ? null : cardId)}
+                      className={`px-3 py-1 rounded-full text-sm ${chipClass(cardId)}`}
+                    >
+                      {cardName(cardId)} ×{years.length} <span className="opacity-75">({years.join(', ')})</span>
+                    </button>
+                  ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Print-only year booklets: a cover page per person, then one section per slot.
+// Always black on white, whatever the theme.
+function PrintBooklets({ booklets }: { booklets: Booklet[] }) {
+  return (
+    <div className="hidden print:block bg-white text-black">
+      {booklets.map((booklet, i) => (
+        <div key={`${booklet.personName}-${i}`} className={i > 0 ? 'break-before-page' : ''}>
+          <section className="min-h-[90vh] flex flex-col items-center justify-center text-center break-after-page">
+            <div className="text-6xl mb-6">🍵</div>
+            <h1 className="text-4xl font-bold mb-2">{booklet.personName}</h1>
+            <p className="text-2xl mb-8">Tea leaf reading for {booklet.year}</p>
+            <p className="text-lg">{booklet.groupName}</p>
+            <p className="text-sm text-gray-600">{booklet.spreadName}</p>
+          </section>
+
+          <section className="mb-8 break-inside-avoid">
+            <h2 className="text-2xl font-bold border-b border-gray-400 pb-1 mb-3">Your year at a glance</h2>
+            {booklet.summary.map((paragraph, i) => <p key={i} className="mb-2">{paragraph}</p>)}
+          </section>
+
+          {booklet.sections.map((section, slot) => (
+            <section key={slot} className="mb-8 break-inside-avoid">
+              <h2 className="text-2xl font-bold border-b border-gray-400 pb-1 mb-3">{section.label}</h2>
+              {section.cards.length === 0 ? (
+                <p className="italic text-gray-600">Not read yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {section.cards.map((card, position) => (
+                    <div key={position}>
+                      <h3 className="font-bold">
+                        <span className="text-sm font-normal text-gray-600">{card.position}:</span> {card.name}
+                        {card.shortDescription && <span className="font-normal"> — {card.shortDescription}</span>}
+                      </h3>
+                      {card.longDescription && <p className="text-sm">{card.longDescription}</p>}
+                      {card.note && <p className="text-sm italic">Note: {card.note}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {section.notes && <p className="mt-3 text-sm whitespace-pre-wrap"><span className="font-semibold">Reader's notes:</span> {section.notes}</p>}
+              {section.reflection && (
+                <p className="mt-2 text-sm whitespace-pre-wrap">
+                  <span className="font-semibold">How it turned out{section.reflection.accuracy ? ` (${ACCURACY_LABELS[section.reflection.accuracy]})` : ''}:</span> {section.reflection.text}
+                </p>
+              )}
+            </section>
+          ))}
+
+          <section className="break-inside-avoid">
+            <h2 className="text-2xl font-bold border-b border-gray-400 pb-1 mb-3">Notes</h2>
+            {booklet.notes && <p className="mb-4 whitespace-pre-wrap">{booklet.notes}</p>}
+            {/* Ruled lines to write on */}
+            {Array.from({ length: 12 }, (_, line) => (
+              <div key={line} className="h-8 border-b border-gray-300" />
+            ))}
+          </section>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // View Readings Component
-function ViewReadings({ data, theme }: any) {
-  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
+function ViewReadings({ data, updateData, theme, showNotification }: any) {
+  const [selectedGroupId, setSelectedGroupId] = useState('');
   const [selectedYear, setSelectedYear] = useState<number | null>(null);
   const [selectedPeople, setSelectedPeople] = useState<string[]>([]);
   const [orderBy, setOrderBy] = useState<'person' | 'month'>('person');
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
+  const [showArchived, setShowArchived] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  // Booklets laid out for the print dialog; cleared again once it closes
+  const [printing, setPrinting] = useState<Booklet[] | null>(null);
+  const [mode, setMode] = useState<'year' | 'timeline'>('year');
+  const [timelinePerson, setTimelinePerson] = useState('');
+
+  // Looked up on every render so archiving or deleting shows up straight away
+  const selectedGroup: Group | null = data.groups.find((g: Group) => g.id === selectedGroupId) || null;
+
+  const cardsById = useMemo(() => new Map<string, Card>(data.cards.map((c: Card) => [c.id, c])), [data.cards]);
 
   const availableYears = useMemo(() => {
     if (!selectedGroup) return [];
@@ -1053,9 +3393,84 @@ function ViewReadings({ data, theme }: any) {
     const people = selectedPeople.length > 0 ? selectedPeople : Object.keys(yearData);
 
     return people
-      .filter(person => yearData[person])
-      .map(person => yearData[person]);
-  }, [selectedGroup, selectedYear, selectedPeople]);
+      .filter(person => yearData[person] && (showArchived || !yearData[person].archived))
+      .map(person => yearData[person])
+      .filter(reading => readingMatches(reading, searchTerm, cardsById));
+  }, [selectedGroup, selectedYear, selectedPeople, showArchived, searchTerm, cardsById]);
+
+  // While searching, only the matching slots are shown, unless the match is on the reading as a whole
+  const visibleSlot = (reading: PersonYearReading, month: MonthReading | null) =>
+    !!month && (slotMatches(month, searchTerm, cardsById) || !reading.readings.some(m => m && slotMatches(m, searchTerm, cardsById)));
+
+  // Slot labels across every spread shown, in calendar order, for the by-period layout
+  const slotLabels = useMemo(() => {
+    if (!selectedGroup) return [];
+    const labels = new Set<string>();
+    readings.forEach(reading => {
+      periodSlots(readingSpread(data, selectedGroup, reading).period).forEach(label => labels.add(label));
+      reading.readings.forEach(slot => slot && labels.add(slot.month));
+    });
+    return Array.from(labels);
+  }, [data, selectedGroup, readings]);
+
+  const archivedCount = useMemo(() => {
+    if (!selectedGroup || !selectedYear) return 0;
+    return Object.values(selectedGroup.yearReadings[selectedYear] || {}).filter(reading => reading.archived).length;
+  }, [selectedGroup, selectedYear]);
+
+  const handleArchiveReading = (reading: PersonYearReading) => {
+    if (!selectedGroup) return;
+    updateData(
+      (prev: AppData) => setReadingArchived(prev, selectedGroup.id, reading.year, reading.personName, !reading.archived),
+      `${reading.archived ? 'Unarchived' : 'Archived'} ${reading.year} reading for ${reading.personName}`
+    );
+    showNotification(reading.archived ? 'Reading unarchived' : 'Reading archived');
+  };
+
+  // Deals every logged slot again from the seed and compares the cards
+  const handleVerifyDraw = (reading: PersonYearReading, spread: Spread) => {
+    const checks = checkDrawLog(data.cards, reading);
+    const labels = periodSlots(spread.period);
+    const slotsWhere = (check: DrawCheck) => joinList(Array.from(new Set(
+      (reading.drawLog || []).filter((_, i) => checks[i] === check).map(entry => labels[entry.slot] ?? `Slot ${entry.slot + 1}`)
+    )));
+    if (checks.includes('differs')) {
+      showNotification(`The deals for ${slotsWhere('differs')} don't match their seed.`, 'error');
+    } else if (checks.includes('unknown')) {
+      showNotification(`The deals for ${slotsWhere('unknown')} can't be checked: the card library has changed since, or a slot was entered by hand after them.`, 'error');
+    } else {
+      showNotification(`All ${checks.length} saved deals match their seed.`);
+    }
+  };
+
+  const handleDeleteReading = (reading: PersonYearReading) => {
+    if (!selectedGroup) return;
+    if (!confirm(`Delete the ${reading.year} reading for ${reading.personName}? It can be restored from the trash.`)) return;
+    updateData(
+      (prev: AppData) => deleteReading(prev, selectedGroup.id, reading.year, reading.personName),
+      `Deleted ${reading.year} reading for ${reading.personName}`
+    );
+    showNotification('Reading moved to the trash');
+  };
+
+  const saveReadingChange = (reading: PersonYearReading, update: (r: PersonYearReading) => PersonYearReading, label: string) => {
+    if (!selectedGroup) return;
+    updateData((prev: AppData) => updateReading(prev, selectedGroup.id, reading.year, reading.personName, update), label);
+  };
+
+  // Card notes and slot notes and reflections, wired up for one slot of one reading
+  const slotEditing = (reading: PersonYearReading, slot: number) => {
+    const month = reading.readings[slot];
+    const where = `${month?.month} ${reading.year} for ${reading.personName}`;
+    return {
+      onSaveCardNote: (position: number, text: string) =>
+        saveReadingChange(reading, r => setCardNote(r, slot, position, text), `Edited card note in ${where}`),
+      onSaveNotes: (text: string) =>
+        saveReadingChange(reading, r => setSlotNotes(r, slot, text), `Edited notes for ${where}`),
+      onSaveReflection: (text: string, accuracy: AccuracyRating | undefined) =>
+        saveReadingChange(reading, r => setReflection(r, slot, text, accuracy), `Recorded how ${where} turned out`)
+    };
+  };
 
   const toggleCard = (key: string) => {
     const newExpanded = new Set(expandedCards);
@@ -1067,348 +3482,707 @@ function ViewReadings({ data, theme }: any) {
     setExpandedCards(newExpanded);
   };
 
+  // The booklets have to be rendered before the print dialog opens
+  useEffect(() => {
+    if (!printing) return;
+    const done = () => setPrinting(null);
+    window.addEventListener('afterprint', done);
+    window.print();
+    return () => window.removeEventListener('afterprint', done);
+  }, [printing]);
+
+  const handlePrintGroup = () => {
+    if (!selectedGroup || !selectedYear) return;
+    const booklets = groupBooklets(data, selectedGroup, selectedYear);
+    if (booklets.length === 0) {
+      showNotification(`No current readings in ${selectedGroup.name} for ${selectedYear}`, 'error');
+      return;
+    }
+    setPrinting(booklets);
+  };
+
+  // Exports cover exactly what is listed: the chosen people, archived and search filters included
+  const handleExport = (format: 'csv' | 'md' | 'ics') => {
+    if (!selectedGroup || !selectedYear || readings.length === 0) return;
+    const people = selectedPeople.length === 1 ? `-${selectedPeople[0]}` : '';
+    const base = `tea-leaf-readings-${selectedGroup.name}-${selectedYear}${people}`.replace(/[^\w-]+/g, '-').toLowerCase();
+    if (format === 'csv') downloadFile(`${base}.csv`, readingsCsv(data, selectedGroup, readings), 'text/csv');
+    if (format === 'md') downloadFile(`${base}.md`, readingsMarkdown(data, selectedGroup, readings), 'text/markdown');
+    if (format === 'ics') downloadFile(`${base}.ics`, readingsIcs(data, selectedGroup, readings), 'text/calendar');
+    showNotification(`Exported ${readings.length} ${readings.length === 1 ? 'reading' : 'readings'}`);
+  };
+
   const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
   const inputClass = theme === 'dark'
     ? 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
     : 'w-full px-4 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500';
 
-  return (
-    <div className="space-y-6">
-      <h2 className="text-2xl font-bold">View Readings</h2>
+  const modeTabs = (
+    <div className={`inline-flex rounded-lg p-1 ${theme === 'dark' ? 'bg-gray-800' : 'bg-amber-100'}`}>
+      {([['year', 'By Year'], ['timeline', 'Person Timeline']] as const).map(([id, label]) => (
+        <button
+          key={id}
+          onClick={() => setMode(id)}
+          className={`px-3 py-1 rounded-md text-sm ${mode === id ? 'bg-amber-600 text-white' : ''}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
 
-      {/* Filters */}
-      <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div>
-            <label className="block mb-2 font-medium">Group</label>
-            <select
-              value={selectedGroup?.id || ''}
-              onChange={(e) => {
-                const group = data.groups.find((g: Group) => g.id === e.target.value);
-                setSelectedGroup(group || null);
-                setSelectedYear(null);
-                setSelectedPeople([]);
-              }}
-              className={inputClass}
-            >
-              <option value="">Select group...</option>
-              {data.groups.map((group: Group) => (
-                <option key={group.id} value={group.id}>{group.name}</option>
-              ))}
-            </select>
-          </div>
+  if (mode === 'timeline') {
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <h2 className="text-2xl font-bold">View Readings</h2>
+          {modeTabs}
+        </div>
+        <PersonTimeline
+          data={data}
+          personName={timelinePerson}
+          onPersonChange={setTimelinePerson}
+          cardsById={cardsById}
+          theme={theme}
+        />
+      </div>
+    );
+  }
 
-          {selectedGroup && availableYears.length > 0 && (
-            <div>
-              <label className="block mb-2 font-medium">Year</label>
-              <select
-                value={selectedYear || ''}
-                onChange={(e) => setSelectedYear(Number(e.target.value))}
-                className={inputClass}
-              >
-                <option value="">Select year...</option>
-                {availableYears.map(year => (
-                  <option key={year} value={year}>{year}</option>
-                ))}
-              </select>
-            </div>
+  return (
+    <>
+      {printing && <PrintBooklets booklets={printing} />}
+      <div className="space-y-6 print:hidden">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <h2 className="text-2xl font-bold">View Readings</h2>
+          {modeTabs}
+          {selectedGroup && selectedYear && (
+            <button
+              onClick={handlePrintGroup}
+              title="One booklet per member, each starting on a new page. Choose Save as PDF in the print dialog for a file."
+              className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 flex items-center gap-2"
+            >
+              <Printer className="w-4 h-4" />
+              Print Booklets for {selectedGroup.name}
+            </button>
           )}
+        </div>
 
-          {selectedYear && (
+        {/* Filters */}
+        <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
-              <label className="block mb-2 font-medium">Order By</label>
+              <label className="block mb-2 font-medium">Group</label>
               <select
-                value={orderBy}
-                onChange={(e) => setOrderBy(e.target.value as 'person' | 'month')}
+                value={selectedGroupId}
+                onChange={(e) => {
+                  setSelectedGroupId(e.target.value);
+                  setSelectedYear(null);
+                  setSelectedPeople([]);
+                }}
                 className={inputClass}
               >
-                <option value="person">Person</option>
-                <option value="month">Month</option>
+                <option value="">Select group...</option>
+                {data.groups.filter((group: Group) => !group.archived).map((group: Group) => (
+                  <option key={group.id} value={group.id}>{group.name}</option>
+                ))}
               </select>
             </div>
-          )}
-        </div>
-      </div>
 
-      {/* Readings Display */}
-      {!selectedGroup ? (
-        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
-          <Eye className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-          <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
-            Select a group to view readings
-          </p>
-        </div>
-      ) : availableYears.length === 0 ? (
-        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
-          <Calendar className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-          <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
-            No readings recorded for this group yet
-          </p>
-        </div>
-      ) : !selectedYear ? (
-        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
-          <Calendar className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-          <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
-            Select a year to view readings
-          </p>
-        </div>
-      ) : readings.length === 0 ? (
-        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
-          <User className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-          <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
-            No readings found
-          </p>
-        </div>
-      ) : orderBy === 'person' ? (
-        <div className="space-y-6">
-          {readings.map(reading => (
-            <div key={reading.personName} className={`${cardClass} border rounded-lg p-6`}>
-              <h3 className="text-xl font-bold mb-4">{reading.personName} - {reading.year}</h3>
-              <div className="space-y-4">
-                {reading.readings.map((monthReading, idx) => (
-                  <div key={idx} className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
-                    <h4 className="font-bold mb-3">{monthReading.month}</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      {monthReading.cards.map(card => {
-                        const cardKey = `${reading.personName}-${idx}-${card.id}`;
-                        const isExpanded = expandedCards.has(cardKey);
-                        return (
-                          <div key={card.id} className={`p-3 rounded ${theme === 'dark' ? 'bg-gray-800' : 'bg-white'}`}>
-                            <button
-                              onClick={() => toggleCard(cardKey)}
-                              className="w-full text-left"
-                            >
-                              <div className="flex justify-between items-start">
-                                <div className="font-medium">{card.name}</div>
-                                {isExpanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
-                              </div>
-                              <div className={`text-sm mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                                {card.shortDescription}
-                              </div>
-                              {isExpanded && (
-                                <div className={`text-sm mt-2 pt-2 border-t ${theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-700'}`}>
-                                  {card.longDescription}
-                                </div>
-                              )}
-                            </button>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
+            {selectedGroup && availableYears.length > 0 && (
+              <div>
+                <label className="block mb-2 font-medium">Year</label>
+                <select
+                  value={selectedYear || ''}
+                  onChange={(e) => {
+                    setSelectedYear(Number(e.target.value));
+                    setSelectedPeople([]);
+                  }}
+                  className={inputClass}
+                >
+                  <option value="">Select year...</option>
+                  {availableYears.map(year => (
+                    <option key={year} value={year}>{year}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {selectedYear && (
+              <div>
+                <label className="block mb-2 font-medium">Order By</label>
+                <select
+                  value={orderBy}
+                  onChange={(e) => setOrderBy(e.target.value as 'person' | 'month')}
+                  className={inputClass}
+                >
+                  <option value="person">Person</option>
+                  <option value="month">Period</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          {selectedGroup && selectedYear && activeMembersIn(selectedGroup, selectedYear).length > 0 && (
+            <div>
+              <label className="block mb-2 font-medium">People</label>
+              <div className="flex flex-wrap gap-2">
+                {activeMembersIn(selectedGroup, selectedYear).map(member => (
+                  <button
+                    key={member.id}
+                    onClick={() => setSelectedPeople(selectedPeople.includes(member.name)
+                      ? selectedPeople.filter(name => name !== member.name)
+                      : [...selectedPeople, member.name])}
+                    className={`px-3 py-1 rounded-full text-sm ${selectedPeople.includes(member.name)
+                      ? 'bg-amber-600 text-white'
+                      : theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                      }`}
+                  >
+                    {member.name}
+                  </button>
                 ))}
               </div>
             </div>
-          ))}
-        </div>
-      ) : (
-        <div className="space-y-6">
-          {MONTHS.map((month, monthIdx) => {
-            const monthReadings = readings
-              .map(r => ({ person: r.personName, reading: r.readings[monthIdx] }))
-              .filter(m => m.reading);
+          )}
 
-            if (monthReadings.length === 0) return null;
+          {selectedYear && (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search cards, notes and reflections..."
+                className={`${inputClass} pl-10`}
+              />
+            </div>
+          )}
 
-            return (
-              <div key={month} className={`${cardClass} border rounded-lg p-6`}>
-                <h3 className="text-xl font-bold mb-4">{month} {selectedYear}</h3>
-                <div className="space-y-4">
-                  {monthReadings.map(({ person, reading }) => (
-                    <div key={person} className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
-                      <h4 className="font-bold mb-3">{person}</h4>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                        {reading.cards.map(card => {
-                          const cardKey = `${month}-${person}-${card.id}`;
-                          const isExpanded = expandedCards.has(cardKey);
-                          return (
-                            <div key={card.id} className={`p-3 rounded ${theme === 'dark' ? 'bg-gray-800' : 'bg-white'}`}>
-                              <button
-                                onClick={() => toggleCard(cardKey)}
-                                className="w-full text-left"
-                              >
-                                <div className="flex justify-between items-start">
-                                  <div className="font-medium">{card.name}</div>
-                                  {isExpanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
-                                </div>
-                                <div className={`text-sm mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                                  {card.shortDescription}
-                                </div>
-                                {isExpanded && (
-                                  <div className={`text-sm mt-2 pt-2 border-t ${theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-700'}`}>
-                                    {card.longDescription}
-                                  </div>
-                                )}
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+              Show archived readings ({archivedCount})
+            </label>
+          )}
+
+          {readings.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">Export {readings.length === 1 ? 'this reading' : `these ${readings.length} readings`}:</span>
+              {([
+                ['csv', 'CSV', 'One row per card, for spreadsheets'],
+                ['md', 'Markdown', 'Formatted text for sharing in chats'],
+                ['ics', 'Calendar', 'One all-day event per month, for calendar apps']
+              ] as const).map(([format, label, hint]) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  title={hint}
+                  className={`px-3 py-1 rounded-lg text-sm flex items-center gap-1 ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+                >
+                  <Download className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Readings Display */}
+        {!selectedGroup ? (
+          <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+            <Eye className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+            <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+              Select a group to view readings
+            </p>
+          </div>
+        ) : availableYears.length === 0 ? (
+          <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+            <Calendar className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+            <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+              No readings recorded for this group yet
+            </p>
+          </div>
+        ) : !selectedYear ? (
+          <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+            <Calendar className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+            <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+              Select a year to view readings
+            </p>
+          </div>
+        ) : readings.length === 0 ? (
+          <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+            <User className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+            <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+              No readings found
+            </p>
+          </div>
+        ) : orderBy === 'person' ? (
+          <div className="space-y-6">
+            {readings.map(reading => {
+              const spread = readingSpread(data, selectedGroup, reading);
+              return (
+                <div key={reading.personName} className={`${cardClass} border rounded-lg p-6 ${reading.archived ? 'opacity-60' : ''}`}>
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="text-xl font-bold">
+                        {reading.personName} - {reading.year}
+                        {reading.archived && <span className="ml-2 text-xs font-normal uppercase text-gray-500">Archived</span>}
+                      </h3>
+                      <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>{spread.name}</p>
+                      {reading.drawSeed && (
+                        <p
+                          className="text-xs text-gray-500"
+                          title={(reading.drawLog || []).map(entry =>
+                            `${periodSlots(spread.period)[entry.slot]} deal ${entry.attempt}: ${entry.cardIds.length} of ${entry.poolSize} cards, ${new Date(entry.drawnAt).toLocaleString()}`
+                          ).join('\n')}
+                        >
+                          Dealt in app • seed {reading.drawSeed} • {(reading.drawLog || []).length} saved deals
+                          {(reading.drawLog || []).length > 0 && (
+                            <>
+                              {' • '}
+                              <button onClick={() => handleVerifyDraw(reading, spread)} className="underline print:hidden">
+                                Verify
                               </button>
-                            </div>
-                          );
-                        })}
+                            </>
+                          )}
+                        </p>
+                      )}
+                      <div className="mt-2">
+                        <NoteEditor
+                          label="Year notes"
+                          value={reading.notes || ''}
+                          placeholder="Themes for the year, what the reader said overall"
+                          onSave={(text) => saveReadingChange(reading, r => setYearNotes(r, text), `Edited ${reading.year} notes for ${reading.personName}`)}
+                          theme={theme}
+                        />
                       </div>
+                      {reading.edits && reading.edits.length > 0 && (
+                        <details className="mt-2 text-sm">
+                          <summary className={`cursor-pointer ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                            Corrected {reading.edits.length} {reading.edits.length === 1 ? 'time' : 'times'}
+                          </summary>
+                          <ul className="mt-1 space-y-1">
+                            {reading.edits.map((edit, i) => {
+                              const name = (id: string) => cardsById.get(id)?.name ?? id;
+                              const changes = edit.after
+                                .map((id, position) => id === edit.before[position] ? null : `${spread.positions[position] ?? `Card ${position + 1}`}: ${name(edit.before[position])} → ${name(id)}`)
+                                .filter(Boolean);
+                              return (
+                                <li key={i}>
+                                  {new Date(edit.at).toLocaleString()} • {edit.by || 'Unnamed'} • {periodSlots(spread.period)[edit.slot]}: {changes.join('; ')}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </details>
+                      )}
                     </div>
-                  ))}
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => {
+                          setTimelinePerson(reading.personName);
+                          setMode('timeline');
+                        }}
+                        title="All years for this person"
+                        className={`p-2 rounded-lg ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                      >
+                        <Calendar className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setPrinting([buildBooklet(data, selectedGroup, reading)])}
+                        title="Print booklet"
+                        className={`p-2 rounded-lg ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                      >
+                        <Printer className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleArchiveReading(reading)}
+                        title={reading.archived ? 'Unarchive reading' : 'Archive reading'}
+                        className={`p-2 rounded-lg ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                      >
+                        {reading.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteReading(reading)}
+                        title="Delete reading"
+                        className={`p-2 rounded-lg text-red-500 ${theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className={`mb-4 p-4 rounded-lg border-l-4 border-amber-500 ${theme === 'dark' ? 'bg-gray-900' : 'bg-amber-50'}`}>
+                    <h4 className="font-bold mb-1">Year at a glance</h4>
+                    {yearNarrative(data, selectedGroup, reading).map((paragraph, i) => (
+                      <p key={i} className="text-sm mt-1">{paragraph}</p>
+                    ))}
+                  </div>
+                  <div className="space-y-4">
+                    {reading.readings.map((monthReading, idx) => monthReading && visibleSlot(reading, monthReading) && (
+                      <div key={idx} className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                        <h4 className="font-bold mb-3">{monthReading.month}</h4>
+                        <SlotCards
+                          cardIds={monthReading.cardIds}
+                          cardNotes={monthReading.cardNotes}
+                          onSaveCardNote={slotEditing(reading, idx).onSaveCardNote}
+                          spread={spread}
+                          cardsById={cardsById}
+                          keyPrefix={`${reading.personName}-${idx}`}
+                          expandedCards={expandedCards}
+                          toggleCard={toggleCard}
+                          theme={theme}
+                        />
+                        <SlotNotes month={monthReading} {...slotEditing(reading, idx)} theme={theme} />
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
-            );
-          })}
-        </div>
-      )}
-    </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {slotLabels.map(month => {
+              const monthReadings = readings
+                .map(r => {
+                  const slot = r.readings.findIndex(m => m?.month === month);
+                  return { person: r.personName, full: r, slot, reading: r.readings[slot], spread: readingSpread(data, selectedGroup, r) };
+                })
+                .filter(m => m.slot !== -1 && visibleSlot(m.full, m.reading));
+
+              if (monthReadings.length === 0) return null;
+
+              return (
+                <div key={month} className={`${cardClass} border rounded-lg p-6`}>
+                  <h3 className="text-xl font-bold mb-4">{month} {selectedYear}</h3>
+                  <div className="space-y-4">
+                    {monthReadings.map(({ person, full, slot, reading, spread }) => (
+                      <div key={person} className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                        <h4 className="font-bold mb-3">{person}</h4>
+                        <SlotCards
+                          cardIds={reading.cardIds}
+                          cardNotes={reading.cardNotes}
+                          onSaveCardNote={slotEditing(full, slot).onSaveCardNote}
+                          spread={spread}
+                          cardsById={cardsById}
+                          keyPrefix={`${month}-${person}`}
+                          expandedCards={expandedCards}
+                          toggleCard={toggleCard}
+                          theme={theme}
+                        />
+                        <SlotNotes month={reading} {...slotEditing(full, slot)} theme={theme} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
   );
 }
 
 // Analytics Component
 function Analytics({ data, theme }: any) {
-  const [filterType, setFilterType] = useState<'all' | 'year' | 'month' | 'person' | 'group'>('all');
-  const [selectedGroup, setSelectedGroup] = useState<string>('');
-  const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
-  const [selectedMonth, setSelectedMonth] = useState<string>('');
-  const [selectedPerson, setSelectedPerson] = useState<string>('');
-
-  const cardFrequency = useMemo(() => {
-    const freq = new Map<string, { card: Card; count: number }>();
-
-    data.groups.forEach((group: Group) => {
-      if (filterType === 'group' && group.id !== selectedGroup) return;
-
-      Object.entries(group.yearReadings).forEach(([year, yearData]) => {
-        if (filterType === 'year' && Number(year) !== selectedYear) return;
-
-        Object.entries(yearData).forEach(([person, reading]: [string, PersonYearReading]) => {
-          if (filterType === 'person' && person !== selectedPerson) return;
-
-          reading.readings.forEach(monthReading => {
-            if (filterType === 'month' && monthReading.month !== selectedMonth) return;
-
-            monthReading.cards.forEach(card => {
-              const existing = freq.get(card.id);
-              if (existing) {
-                existing.count++;
-              } else {
-                freq.set(card.id, { card, count: 1 });
-              }
-            });
-          });
-        });
-      });
-    });
+  // The view lives in the URL, so it can be bookmarked and opened again
+  const [filter, setFilter] = useState<AnalyticsFilter>(() => parseAnalyticsQuery(new URLSearchParams(window.location.search)).filter);
+  const [sort, setSort] = useState<AnalyticsSort>(() => parseAnalyticsQuery(new URLSearchParams(window.location.search)).sort);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ view: 'analytics' });
+    analyticsQuery(filter, sort).forEach((value, key) => params.append(key, value));
+    window.history.replaceState(null, '', `${window.location.pathname}?${params}${window.location.hash}`);
+  }, [filter, sort]);
+
+  // Leaving Analytics drops its query, so other views get a clean URL
+  useEffect(() => () => window.history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`), []);
+
+  // Months, quarters and single draws, for whichever periods the spreads use
+  const periodOptions = useMemo(() => {
+    const periods: SpreadPeriod[] = ['monthly', 'quarterly', 'single'];
+    return periods
+      .filter(period => data.spreads.some((spread: Spread) => spread.period === period))
+      .flatMap(period => periodSlots(period));
+  }, [data.spreads]);
+
+  const activeGroups: Group[] = data.groups.filter((group: Group) => !group.archived);
+  const people = useMemo(() => Array.from(new Set<string>(
+    data.groups
+      .filter((group: Group) => !group.archived && (filter.groupIds.length === 0 || filter.groupIds.includes(group.id)))
+      .flatMap((group: Group) => group.members.map(member => member.name))
+  )).sort((a, b) => a.localeCompare(b)), [data.groups, filter.groupIds]);
+
+  const slots = useMemo(() => matchingSlots(data, filter), [data, filter]);
+
+  const cardFrequency = useMemo(() => sortCardCounts(countCards(data, slots, filter.tags), sort), [data, slots, filter.tags, sort]);
+  const maxCount = Math.max(0, ...cardFrequency.map(item => item.count));
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
 
-    return Array.from(freq.values())
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 20);
-  }, [data, filterType, selectedGroup, selectedYear, selectedMonth, selectedPerson]);
+  const yearValue = (value: string) => value === '' || !Number.isInteger(Number(value)) ? null : Number(value);
+
+  // One chip per selected value, each removable on its own
+  const chips: { key: string; label: string; onRemove: () => void }[] = [
+    ...filter.groupIds.map(id => ({
+      key: `group-${id}`,
+      label: data.groups.find((group: Group) => group.id === id)?.name ?? id,
+      onRemove: () => setFilter({ ...filter, groupIds: filter.groupIds.filter(other => other !== id) })
+    })),
+    ...(filter.yearFrom !== null || filter.yearTo !== null ? [{
+      key: 'years',
+      label: filter.yearFrom === filter.yearTo
+        ? String(filter.yearFrom)
+        : filter.yearFrom === null ? `Up to ${filter.yearTo}` : filter.yearTo === null ? `From ${filter.yearFrom}` : `${filter.yearFrom}–${filter.yearTo}`,
+      onRemove: () => setFilter({ ...filter, yearFrom: null, yearTo: null })
+    }] : []),
+    ...filter.months.map(month => ({
+      key: `month-${month}`,
+      label: month,
+      onRemove: () => setFilter({ ...filter, months: filter.months.filter(other => other !== month) })
+    })),
+    ...filter.personNames.map(name => ({
+      key: `person-${name}`,
+      label: name,
+      onRemove: () => setFilter({ ...filter, personNames: filter.personNames.filter(other => other !== name) })
+    })),
+    ...filter.spreadIds.map(id => ({
+      key: `spread-${id}`,
+      label: data.spreads.find((spread: Spread) => spread.id === id)?.name ?? id,
+      onRemove: () => setFilter({ ...filter, spreadIds: filter.spreadIds.filter(other => other !== id) })
+    })),
+    ...(filter.tags.sentiment ? [{
+      key: 'sentiment',
+      label: filter.tags.sentiment === 'untagged' ? 'Not tagged' : SENTIMENT_LABELS[filter.tags.sentiment],
+      onRemove: () => setFilter({ ...filter, tags: { ...filter.tags, sentiment: '' } })
+    }] : []),
+    ...(filter.tags.theme ? [{
+      key: 'theme',
+      label: THEME_LABELS[filter.tags.theme],
+      onRemove: () => setFilter({ ...filter, tags: { ...filter.tags, theme: '' } })
+    }] : []),
+    ...(filter.tags.needsConnecting ? [{
+      key: 'connecting',
+      label: 'Needs connecting cards',
+      onRemove: () => setFilter({ ...filter, tags: { ...filter.tags, needsConnecting: false } })
+    }] : []),
+    ...(filter.tags.unreviewed ? [{
+      key: 'unreviewed',
+      label: 'Not reviewed',
+      onRemove: () => setFilter({ ...filter, tags: { ...filter.tags, unreviewed: false } })
+    }] : [])
+  ];
 
   const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
   const inputClass = theme === 'dark'
     ? 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
     : 'w-full px-4 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const pillClass = (selected: boolean) => `px-3 py-1 rounded-full text-sm ${selected
+    ? 'bg-amber-600 text-white'
+    : theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+    }`;
 
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold">Analytics & Leaderboards</h2>
 
       {/* Filters */}
-      <div className={`${cardClass} border rounded-lg p-6`}>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+        <p className={`text-sm ${mutedText}`}>Filters combine; with nothing picked in a row, that row matches everything.</p>
+
+        {activeGroups.length > 0 && (
           <div>
-            <label className="block mb-2 font-medium">Filter Type</label>
-            <select
-              value={filterType}
-              onChange={(e) => setFilterType(e.target.value as any)}
+            <label className="block mb-2 font-medium">Groups</label>
+            <div className="flex flex-wrap gap-2">
+              {activeGroups.map(group => (
+                <button
+                  key={group.id}
+                  onClick={() => setFilter({ ...filter, groupIds: toggle(filter.groupIds, group.id) })}
+                  className={pillClass(filter.groupIds.includes(group.id))}
+                >
+                  {group.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="block mb-2 font-medium">Years</label>
+          <div className="flex items-center gap-2 md:w-96">
+            <input
+              type="number"
+              value={filter.yearFrom ?? ''}
+              onChange={(e) => setFilter({ ...filter, yearFrom: yearValue(e.target.value) })}
+              placeholder="From"
               className={inputClass}
-            >
-              <option value="all">All Time</option>
-              <option value="year">By Year</option>
-              <option value="month">By Month</option>
-              <option value="person">By Person</option>
-              <option value="group">By Group</option>
-            </select>
+            />
+            <span>to</span>
+            <input
+              type="number"
+              value={filter.yearTo ?? ''}
+              onChange={(e) => setFilter({ ...filter, yearTo: yearValue(e.target.value) })}
+              placeholder="To"
+              className={inputClass}
+            />
           </div>
+        </div>
 
-          {filterType === 'group' && (
-            <div>
-              <label className="block mb-2 font-medium">Group</label>
-              <select
-                value={selectedGroup}
-                onChange={(e) => setSelectedGroup(e.target.value)}
-                className={inputClass}
+        <div>
+          <label className="block mb-2 font-medium">Periods</label>
+          <div className="flex flex-wrap gap-2">
+            {periodOptions.map(month => (
+              <button
+                key={month}
+                onClick={() => setFilter({ ...filter, months: toggle(filter.months, month) })}
+                className={pillClass(filter.months.includes(month))}
               >
-                <option value="">Select group...</option>
-                {data.groups.map((group: Group) => (
-                  <option key={group.id} value={group.id}>{group.name}</option>
-                ))}
-              </select>
-            </div>
-          )}
+                {month}
+              </button>
+            ))}
+          </div>
+        </div>
 
-          {filterType === 'year' && (
-            <div>
-              <label className="block mb-2 font-medium">Year</label>
-              <input
-                type="number"
-                value={selectedYear}
-                onChange={(e) => setSelectedYear(parseInt(e.target.value))}
-                className={inputClass}
-              />
+        {people.length > 0 && (
+          <div>
+            <label className="block mb-2 font-medium">People</label>
+            <div className="flex flex-wrap gap-2">
+              {people.map(name => (
+                <button
+                  key={name}
+                  onClick={() => setFilter({ ...filter, personNames: toggle(filter.personNames, name) })}
+                  className={pillClass(filter.personNames.includes(name))}
+                >
+                  {name}
+                </button>
+              ))}
             </div>
-          )}
+          </div>
+        )}
 
-          {filterType === 'month' && (
-            <div>
-              <label className="block mb-2 font-medium">Month</label>
-              <select
-                value={selectedMonth}
-                onChange={(e) => setSelectedMonth(e.target.value)}
-                className={inputClass}
-              >
-                <option value="">Select month...</option>
-                {MONTHS.map(month => (
-                  <option key={month} value={month}>{month}</option>
-                ))}
-              </select>
+        {data.spreads.length > 1 && (
+          <div>
+            <label className="block mb-2 font-medium">Spreads</label>
+            <div className="flex flex-wrap gap-2">
+              {data.spreads.map((spread: Spread) => (
+                <button
+                  key={spread.id}
+                  onClick={() => setFilter({ ...filter, spreadIds: toggle(filter.spreadIds, spread.id) })}
+                  className={pillClass(filter.spreadIds.includes(spread.id))}
+                >
+                  {spread.name}
+                </button>
+              ))}
             </div>
-          )}
+          </div>
+        )}
 
-          {filterType === 'person' && (
-            <div>
-              <label className="block mb-2 font-medium">Person</label>
-              <select
-                value={selectedPerson}
-                onChange={(e) => setSelectedPerson(e.target.value)}
-                className={inputClass}
-              >
-                <option value="">Select person...</option>
-                {data.groups.flatMap((g: Group) => g.members).map((m: GroupMember, idx: number) => (
-                  <option key={idx} value={m.name}>{m.name}</option>
-                ))}
-              </select>
-            </div>
-          )}
+        <div>
+          <label className="block mb-2 font-medium">Card Tags</label>
+          <div className="flex flex-wrap gap-4 items-center text-sm">
+            <select
+              value={filter.tags.sentiment}
+              onChange={(e) => setFilter({ ...filter, tags: { ...filter.tags, sentiment: e.target.value as CardTagFilter['sentiment'] } })}
+              className={`${inputClass} md:w-48`}
+            >
+              <option value="">Any sentiment</option>
+              {(Object.keys(SENTIMENT_LABELS) as CardSentiment[]).map(sentiment => (
+                <option key={sentiment} value={sentiment}>{SENTIMENT_LABELS[sentiment]}</option>
+              ))}
+              <option value="untagged">Not tagged</option>
+            </select>
+            <select
+              value={filter.tags.theme}
+              onChange={(e) => setFilter({ ...filter, tags: { ...filter.tags, theme: e.target.value as CardTagFilter['theme'] } })}
+              className={`${inputClass} md:w-48`}
+            >
+              <option value="">Any theme</option>
+              {CARD_THEMES.map(cardTheme => <option key={cardTheme} value={cardTheme}>{THEME_LABELS[cardTheme]}</option>)}
+            </select>
+            <label className="flex items-center gap-2 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={filter.tags.needsConnecting}
+                onChange={(e) => setFilter({ ...filter, tags: { ...filter.tags, needsConnecting: e.target.checked } })}
+              />
+              Needs connecting cards
+            </label>
+            <label className="flex items-center gap-2 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={filter.tags.unreviewed}
+                onChange={(e) => setFilter({ ...filter, tags: { ...filter.tags, unreviewed: e.target.checked } })}
+              />
+              Not reviewed
+            </label>
+          </div>
         </div>
+
+        {chips.length > 0 && (
+          <div className="flex flex-wrap gap-2 items-center">
+            {chips.map(chip => (
+              <span key={chip.key} className={`px-3 py-1 rounded-full text-sm flex items-center gap-1 ${theme === 'dark' ? 'bg-amber-900 text-amber-100' : 'bg-amber-100 text-amber-900'}`}>
+                {chip.label}
+                <button onClick={chip.onRemove} title={`Remove ${chip.label}`}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <button
+              onClick={() => setFilter(EMPTY_ANALYTICS_FILTER)}
+              className={`text-sm underline ${mutedText}`}
+            >
+              Clear all
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Leaderboard */}
       <div className={`${cardClass} border rounded-lg p-6`}>
-        <h3 className="text-xl font-bold mb-4">
-          Top {cardFrequency.length} Most Drawn Cards
-          {filterType !== 'all' && ` - ${filterType.charAt(0).toUpperCase() + filterType.slice(1)}`}
-        </h3>
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <h3 className="text-xl font-bold">
+            {cardFrequency.length} {cardFrequency.length === 1 ? 'Card' : 'Cards'} Drawn
+            {chips.length > 0 && ` - ${slots.length} matching ${slots.length === 1 ? 'slot' : 'slots'}`}
+          </h3>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as AnalyticsSort)}
+            className={`${inputClass} md:w-56`}
+          >
+            <option value="count">Most drawn</option>
+            <option value="name">Name</option>
+            <option value="first">First seen</option>
+            <option value="last">Last seen</option>
+          </select>
+        </div>
 
         {cardFrequency.length === 0 ? (
           <div className="text-center py-8">
             <BarChart3 className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-            <p className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>
+            <p className={mutedText}>
               No readings data available for this filter
             </p>
           </div>
         ) : (
           <div className="space-y-3">
             {cardFrequency.map((item, idx) => (
-              <div key={item.card.id} className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+              <div key={item.cardId} className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
                 <div className="flex items-center justify-between mb-2">
                   <div>
-                    <div className="font-bold">{idx + 1}. {item.card.name}</div>
-                    <div className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                      {item.card.shortDescription}
+                    <div className={`font-bold ${item.card ? '' : 'text-red-500'}`}>
+                      {idx + 1}. {item.card ? item.card.name : 'Orphaned card'}
+                    </div>
+                    <div className={`text-sm ${mutedText}`}>
+                      {item.card ? item.card.shortDescription : `"${item.cardId}" is no longer in the card library`}
+                    </div>
+                    <div className={`text-xs ${mutedText}`}>
+                      {item.firstSeen === item.lastSeen
+                        ? `Seen ${seenLabel(item.firstSeen)}`
+                        : `First seen ${seenLabel(item.firstSeen)}, last seen ${seenLabel(item.lastSeen)}`}
                     </div>
                   </div>
                   <div className={`text-2xl font-bold ${theme === 'dark' ? 'text-amber-400' : 'text-amber-600'}`}>
@@ -1418,7 +4192,7 @@ function Analytics({ data, theme }: any) {
                 <div className={`h-2 rounded-full ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'}`}>
                   <div
                     className="h-full bg-amber-600 rounded-full"
-                    style={{ width: `${(item.count / cardFrequency[0].count) * 100}%` }}
+                    style={{ width: `${(item.count / maxCount) * 100}%` }}
                   />
                 </div>
               </div>
@@ -1426,6 +4200,658 @@ function Analytics({ data, theme }: any) {
           </div>
         )}
       </div>
+
+      <CardPairings data={data} slots={slots} tags={filter.tags} theme={theme} />
+
+      <FairnessCheck data={data} theme={theme} />
+    </div>
+  );
+}
+
+// Chi-square check of the physical deck against fair draws, overall or per group
+function FairnessCheck({ data, theme }: { data: AppData; theme: string }) {
+  const [groupId, setGroupId] = useState('');
+  const [result, setResult] = useState<FairnessResult | null | undefined>(undefined);
+  const [showAll, setShowAll] = useState(false);
+
+  // A result only stands for the data and scope it was run on
+  useEffect(() => {
+    setResult(undefined);
+  }, [data, groupId]);
+
+  const handleRun = () => {
+    const slots = matchingSlots(data, { ...EMPTY_ANALYTICS_FILTER, groupIds: groupId ? [groupId] : [] });
+    setResult(fairnessCheck(data, slots));
+  };
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const formatP = (p: number) => p < 0.001 ? '< 0.001' : p.toFixed(3);
+  const flagged = result ? result.cards.filter(card => card.flag) : [];
+  const listed = result ? (showAll ? result.cards : flagged) : [];
+
+  return (
+    <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+      <div>
+        <h3 className="text-xl font-bold">Deck Fairness</h3>
+        <p className={`text-sm ${mutedText}`}>
+          Compares how often each card was drawn with {FAIRNESS_RUNS} simulated rounds of the same readings, dealt fairly under the
+          real rules: a full spread per slot and no card twice in a person's year.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={groupId}
+          onChange={(e) => setGroupId(e.target.value)}
+          className={`px-4 py-2 rounded-lg border ${theme === 'dark' ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+        >
+          <option value="">All groups</option>
+          {data.groups.filter(group => !group.archived).map(group => (
+            <option key={group.id} value={group.id}>{group.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleRun}
+          className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+        >
+          Run Check
+        </button>
+      </div>
+
+      {result === null && <p className={mutedText}>There are no draws of current library cards to check.</p>}
+
+      {result && (
+        <>
+          <div className={`p-4 rounded-lg ${result.pValue < 0.05
+            ? theme === 'dark' ? 'bg-red-900 text-red-100' : 'bg-red-50 text-red-900'
+            : theme === 'dark' ? 'bg-green-900 text-green-100' : 'bg-green-50 text-green-900'
+            }`}>
+            <div className="font-bold">
+              {result.pValue < 0.05 ? 'The draws look uneven.' : 'No sign of an unfair deck.'}
+            </div>
+            <div className="text-sm mt-1">
+              χ² = {result.chiSquare.toFixed(1)} over {result.degreesOfFreedom} degrees of freedom, p {result.pValue < 0.001 ? '< 0.001' : `= ${result.pValue.toFixed(3)}`}.
+              {' '}{result.draws} draws across {result.readings} {result.readings === 1 ? 'reading' : 'readings'} from a {result.deckSize}-card deck,
+              about {result.expected.toFixed(1)} per card.
+              {result.leftOut > 0 && ` ${result.leftOut} draws of archived or missing cards were left out.`}
+            </div>
+            {result.expected < MIN_EXPECTED && (
+              <div className="text-sm mt-1">
+                With fewer than {MIN_EXPECTED} expected draws per card, only very lopsided decks will show up.
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <h4 className="font-bold">
+              {showAll ? 'Every card, least likely first' : `${flagged.length} ${flagged.length === 1 ? 'card stands' : 'cards stand'} out`}
+            </h4>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+              Show every card
+            </label>
+          </div>
+          <p className={`text-xs ${mutedText}`}>
+            Testing {result.deckSize} cards at once, about {Math.round(result.deckSize * 0.05)} will fall below p = 0.05 by chance alone.
+            Cards marked significant stay below it after allowing for that.
+          </p>
+
+          {listed.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className={`text-left ${mutedText}`}>
+                    <th className="p-2">Card</th>
+                    <th className="p-2 text-right">Drawn</th>
+                    <th className="p-2 text-right">Expected</th>
+                    <th className="p-2 text-right">p</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {listed.map(item => (
+                    <tr key={item.cardId} className={`border-t ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+                      <td className="p-2 font-medium">{item.card.name}</td>
+                      <td className="p-2 text-right">{item.observed}</td>
+                      <td className="p-2 text-right">{item.expected.toFixed(1)}</td>
+                      <td className="p-2 text-right">{formatP(item.pValue)}</td>
+                      <td className="p-2">
+                        {item.flag && (
+                          <span className={`px-2 py-0.5 rounded text-xs ${item.flag === 'significant' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-900'}`}>
+                            {item.direction === 'over' ? 'Over-drawn' : 'Under-drawn'}{item.flag === 'significant' ? ', significant' : ''}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Cards drawn together in the same slot, as a ranked list or a heatmap of the
+// most drawn cards. Picking a pair lists the readings it turned up in.
+function CardPairings({ data, slots, tags, theme }: { data: AppData; slots: SlotRef[]; tags: CardTagFilter; theme: string }) {
+  const [view, setView] = useState<'list' | 'heatmap'>('list');
+  const [selectedPair, setSelectedPair] = useState<string | null>(null);
+
+  const cardsById = useMemo(() => new Map<string, Card>(data.cards.map(card => [card.id, card])), [data.cards]);
+  const deck = deckSize(data);
+  const pairs = useMemo(() => cardPairs(data, slots, deck, tags), [data, slots, deck, tags]);
+  const pairsByKey = useMemo(() => new Map(pairs.map(pair => [pairKey(pair.a, pair.b), pair])), [pairs]);
+  // Pairs seen once are mostly noise, so the list starts at two
+  const repeated = pairs.filter(pair => pair.count > 1).slice(0, 25);
+  const heatmapCards = useMemo(() => countCards(data, slots, tags).slice(0, 15).map(item => item.cardId), [data, slots, tags]);
+  const maxCount = Math.max(1, ...heatmapCards.flatMap(a => heatmapCards.map(b => a === b ? 0 : pairsByKey.get(pairKey(a, b))?.count ?? 0)));
+  const selected = selectedPair ? pairsByKey.get(selectedPair) : undefined;
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const name = (cardId: string) => cardsById.get(cardId)?.name ?? cardId;
+  const liftText = (lift: number) => `${lift >= 10 ? lift.toFixed(0) : lift.toFixed(1)}× chance`;
+
+  return (
+    <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h3 className="text-xl font-bold">Cards Drawn Together</h3>
+          <p className={`text-sm ${mutedText}`}>
+            Pairs in the same slot across {slots.length} {slots.length === 1 ? 'slot' : 'slots'}, compared with random draws from a {deck}-card deck
+          </p>
+        </div>
+        <div className={`inline-flex rounded-lg p-1 ${theme === 'dark' ? 'bg-gray-700' : 'bg-amber-100'}`}>
+          {([['list', 'Top Pairs'], ['heatmap', 'Heatmap']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`px-3 py-1 rounded-md text-sm ${view === id ? 'bg-amber-600 text-white' : ''}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'list' ? (
+        repeated.length === 0 ? (
+          <p className={`text-center py-8 ${mutedText}`}>No two cards have been drawn together more than once for this filter</p>
+        ) : (
+          <div className="space-y-2">
+            {repeated.map(pair => {
+              const key = pairKey(pair.a, pair.b);
+              return (
+                <button
+                  key={key}
+                  onClick={() => setSelectedPair(selectedPair === key ? null : key)}
+                  className={`w-full p-3 rounded-lg flex items-center justify-between text-left ${selectedPair === key
+                    ? 'ring-2 ring-amber-500'
+                    : ''} ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}
+                >
+                  <span className="font-bold">{name(pair.a)} + {name(pair.b)}</span>
+                  <span className="flex items-center gap-4">
+                    <span className={`text-sm ${pair.lift >= 2 ? 'text-amber-600 font-medium' : mutedText}`}>{liftText(pair.lift)}</span>
+                    <span className={`text-xl font-bold ${theme === 'dark' ? 'text-amber-400' : 'text-amber-600'}`}>{pair.count}</span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )
+      ) : heatmapCards.length < 2 ? (
+        <p className={`text-center py-8 ${mutedText}`}>Not enough cards drawn for this filter</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate border-spacing-0.5">
+            <thead>
+              <tr>
+                <th />
+                {heatmapCards.map(cardId => (
+                  <th key={cardId} className="p-1 font-medium align-bottom">
+                    <div className="[writing-mode:vertical-rl] rotate-180 whitespace-nowrap">{name(cardId)}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {heatmapCards.map(rowId => (
+                <tr key={rowId}>
+                  <th className="p-1 text-right font-medium whitespace-nowrap">{name(rowId)}</th>
+                  {heatmapCards.map(colId => {
+                    if (rowId === colId) return <td key={colId} className={theme === 'dark' ? 'bg-gray-900' : 'bg-gray-100'} />;
+                    const key = pairKey(rowId, colId);
+                    const pair = pairsByKey.get(key);
+                    const strength = pair ? pair.count / maxCount : 0;
+                    return (
+                      <td
+                        key={colId}
+                        onClick={() => pair && setSelectedPair(selectedPair === key ? null : key)}
+                        title={pair ? `${name(rowId)} + ${name(colId)}: ${pair.count} times, ${liftText(pair.lift)}` : `${name(rowId)} + ${name(colId)}: never`}
+                        className={`w-8 h-8 text-center rounded ${pair ? 'cursor-pointer' : ''} ${selectedPair === key ? 'ring-2 ring-amber-500' : ''}`}
+                        style={{ backgroundColor: pair ? `rgba(217, 119, 6, ${0.15 + strength * 0.85})` : undefined }}
+                      >
+                        {pair?.count ?? ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className={`text-xs mt-2 ${mutedText}`}>The {heatmapCards.length} most drawn cards for this filter; darker cells were drawn together more often.</p>
+        </div>
+      )}
+
+      {selected && (
+        <div className={`p-4 rounded-lg ${theme === 'dark' ? 'bg-gray-900' : 'bg-amber-50'}`}>
+          <h4 className="font-bold mb-2">
+            {name(selected.a)} + {name(selected.b)}: {selected.count} {selected.count === 1 ? 'time' : 'times'}
+            <span className={`ml-2 text-sm font-normal ${mutedText}`}>(about {selected.expected.toFixed(2)} expected by chance)</span>
+          </h4>
+          <ul className="text-sm space-y-1">
+            {selected.slots.map(ref => (
+              <li key={`${ref.group.id}-${ref.reading.year}-${ref.reading.personName}-${ref.slot}`}>
+                {ref.reading.personName} • {ref.month.month} {ref.reading.year} • {ref.group.name}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Backup & Restore Component
+function BackupRestore({ data, updateData, store, theme, showNotification }: any) {
+  const [pendingRestore, setPendingRestore] = useState<ParsedBackup | null>(null);
+  const [restoreFileName, setRestoreFileName] = useState('');
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [previewSnapshot, setPreviewSnapshot] = useState<{ info: SnapshotInfo; data: AppData } | null>(null);
+
+  const currentSummary = useMemo(() => summarizeData(data), [data]);
+  const restoreSummary = useMemo(() => pendingRestore ? summarizeData(pendingRestore.data) : null, [pendingRestore]);
+  const backupDays = daysSinceBackup(data.settings.lastBackupAt);
+  const snapshotSummary = useMemo(() => previewSnapshot ? summarizeData(previewSnapshot.data) : null, [previewSnapshot]);
+
+  const refreshSnapshots = () => {
+    (store as DataStore).listSnapshots()
+      .then(setSnapshots)
+      .catch(e => showNotification(`Could not list snapshots: ${e instanceof Error ? e.message : String(e)}`, 'error'));
+  };
+
+  useEffect(refreshSnapshots, [store]);
+
+  const handleExport = async () => {
+    try {
+      const backup = await createBackup(data);
+      downloadFile(`tea-leaf-readings-backup-${dateStamp()}.json`, backup, 'application/json');
+      updateData((prev: AppData) => ({
+        ...prev,
+        settings: { ...prev.settings, lastBackupAt: new Date().toISOString() }
+      }), 'Recorded backup download');
+      showNotification('Backup downloaded');
+    } catch (e) {
+      showNotification(`Backup failed: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setPendingRestore(null);
+    setRestoreFileName(file.name);
+    try {
+      setPendingRestore(await parseBackup(await file.text()));
+    } catch (e) {
+      showNotification(e instanceof Error ? e.message : String(e), 'error');
+    }
+  };
+
+  const handleRestore = (mode: 'replace' | 'merge') => {
+    if (!pendingRestore) return;
+    if (mode === 'replace' && !confirm('Replace all current data with this backup? Anything not in the backup will be lost.')) return;
+
+    if (mode === 'replace') {
+      updateData((prev: AppData) => ({
+        ...pendingRestore.data,
+        // Backup bookkeeping describes this browser, not the backup, so it is kept
+        settings: {
+          ...pendingRestore.data.settings,
+          backupReminderDays: prev.settings.backupReminderDays,
+          lastBackupAt: prev.settings.lastBackupAt
+        }
+      }), `Restored backup ${restoreFileName}`);
+      showNotification('Backup restored');
+    } else {
+      const { added } = mergeAppData(data, pendingRestore.data);
+      updateData((prev: AppData) => mergeAppData(prev, pendingRestore.data).data, `Merged backup ${restoreFileName}`);
+      showNotification(`Merged backup: ${added.cards} cards, ${added.groups} groups, ${added.readings} readings added`);
+    }
+    setPendingRestore(null);
+    setRestoreFileName('');
+  };
+
+  const formatSnapshotTime = (snapshot: SnapshotInfo) =>
+    snapshot.kind === 'daily'
+      ? new Date(`${snapshot.takenAt}T00:00:00`).toLocaleDateString()
+      : new Date(snapshot.takenAt).toLocaleString();
+
+  const handlePreviewSnapshot = async (info: SnapshotInfo) => {
+    setPreviewSnapshot(null);
+    try {
+      const raw = await (store as DataStore).loadSnapshot(info.key);
+      if (!raw) throw new Error('The snapshot no longer exists.');
+      const result = parseStoredData(raw);
+      if ('failure' in result) throw new Error(result.failure.message);
+      setPreviewSnapshot({ info, data: result.data });
+    } catch (e) {
+      showNotification(`Could not read snapshot: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+  };
+
+  const handleRestoreSnapshot = () => {
+    if (!previewSnapshot) return;
+    if (!confirm('Replace all current data with this snapshot? Your current data will still be in the snapshot list.')) return;
+    updateData((prev: AppData) => ({
+      ...previewSnapshot.data,
+      settings: {
+        ...previewSnapshot.data.settings,
+        backupReminderDays: prev.settings.backupReminderDays,
+        lastBackupAt: prev.settings.lastBackupAt
+      }
+    }), `Restored snapshot from ${formatSnapshotTime(previewSnapshot.info)}`);
+    showNotification('Snapshot restored');
+    setPreviewSnapshot(null);
+  };
+
+  const setReminder = (days: number) => {
+    updateData((prev: AppData) => ({
+      ...prev,
+      settings: { ...prev.settings, backupReminderDays: days || undefined }
+    }), 'Changed backup reminder');
+  };
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const inputClass = theme === 'dark'
+    ? 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+    : 'w-full px-4 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  const renderSummary = (summary: DataSummary) => (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+      <div><span className="font-bold">{summary.cards}</span> cards</div>
+      <div><span className="font-bold">{summary.groups}</span> groups</div>
+      <div><span className="font-bold">{summary.members}</span> members</div>
+      <div><span className="font-bold">{summary.readings}</span> readings</div>
+      <div>
+        {summary.years.length > 0
+          ? <>{summary.years[0]}–{summary.years[summary.years.length - 1]}</>
+          : 'no years'}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">Backup & Restore</h2>
+
+      {/* Export */}
+      <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+        <div>
+          <h3 className="font-bold text-lg">Download Backup</h3>
+          <p className={`text-sm ${mutedText}`}>
+            Everything is stored only in this browser. Keep a backup file somewhere safe.
+            {' '}{backupDays === null ? 'No backup has been made yet.' : `Last backup: ${new Date(data.settings.lastBackupAt).toLocaleDateString()}.`}
+          </p>
+        </div>
+        {renderSummary(currentSummary)}
+        <button
+          onClick={handleExport}
+          className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          Download Backup
+        </button>
+      </div>
+
+      {/* Restore */}
+      <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+        <div>
+          <h3 className="font-bold text-lg">Restore from Backup</h3>
+          <p className={`text-sm ${mutedText}`}>
+            The file is checked before anything changes. Replace swaps in the backup; merge only adds what's missing here.
+          </p>
+        </div>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          className={`text-sm ${mutedText}`}
+        />
+
+        {pendingRestore && restoreSummary && (
+          <div className={`p-4 rounded-lg space-y-3 ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+            <div className="flex items-center gap-2 font-medium">
+              <Check className="w-4 h-4 text-green-600" />
+              {restoreFileName} — made {new Date(pendingRestore.createdAt).toLocaleString()}
+            </div>
+            {pendingRestore.schemaVersion < data.schemaVersion && (
+              <p className={`text-sm ${mutedText}`}>
+                Written with an older data format (version {pendingRestore.schemaVersion}); it has been upgraded.
+              </p>
+            )}
+            {renderSummary(restoreSummary)}
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleRestore('replace')}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                Replace Current Data
+              </button>
+              <button
+                onClick={() => handleRestore('merge')}
+                className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+              >
+                Merge into Current Data
+              </button>
+              <button
+                onClick={() => setPendingRestore(null)}
+                className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'}`}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Snapshots */}
+      <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h3 className="font-bold text-lg">Snapshots</h3>
+            <p className={`text-sm ${mutedText}`}>
+              Saved automatically in {(store as DataStore).backendName}: the last {(store as DataStore).snapshotLimits.recent} saves and one per day for {(store as DataStore).snapshotLimits.daily} days.
+            </p>
+          </div>
+          <button
+            onClick={refreshSnapshots}
+            className={`px-3 py-1 text-sm rounded-lg ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            Refresh
+          </button>
+        </div>
+
+        {snapshots.length === 0 ? (
+          <p className={`text-sm ${mutedText}`}>No snapshots yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {snapshots.map(snapshot => (
+              <button
+                key={snapshot.key}
+                onClick={() => handlePreviewSnapshot(snapshot)}
+                className={`w-full text-left px-3 py-2 rounded text-sm flex justify-between ${
+                  previewSnapshot?.info.key === snapshot.key
+                    ? 'bg-amber-600 text-white'
+                    : theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-amber-50'
+                }`}
+              >
+                <span>{formatSnapshotTime(snapshot)}</span>
+                <span className={previewSnapshot?.info.key === snapshot.key ? '' : mutedText}>
+                  {snapshot.kind === 'daily' ? 'Daily' : 'Recent'}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {previewSnapshot && snapshotSummary && (
+          <div className={`p-4 rounded-lg space-y-3 ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'}`}>
+            <div className="font-medium">Snapshot from {formatSnapshotTime(previewSnapshot.info)}</div>
+            {renderSummary(snapshotSummary)}
+            <div className="flex gap-2">
+              <button
+                onClick={handleRestoreSnapshot}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                Restore Snapshot
+              </button>
+              <button
+                onClick={() => setPreviewSnapshot(null)}
+                className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'}`}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Reminder */}
+      <div className={`${cardClass} border rounded-lg p-6 space-y-4`}>
+        <h3 className="font-bold text-lg">Backup Reminder</h3>
+        <select
+          value={data.settings.backupReminderDays || 0}
+          onChange={(e) => setReminder(Number(e.target.value))}
+          className={inputClass}
+        >
+          <option value={0}>Don't remind me</option>
+          {[7, 14, 30, 90].map(days => (
+            <option key={days} value={days}>Remind me after {days} days without a backup</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+// Trash Component
+function TrashView({ data, updateData, theme, showNotification }: any) {
+  const retentionDays = trashRetentionDays(data);
+  const items: TrashItem[] = [...data.trash].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+  const handleRestore = (item: TrashItem) => {
+    const { title } = describeTrashItem(item);
+    const change = (prev: AppData) => restoreTrashItem(prev, item.id);
+    if (!canApply(data, change, showNotification)) return;
+    updateData(change, `Restored ${title} from the trash`);
+    showNotification(`${title} restored`);
+  };
+
+  const handleDeleteForever = (item: TrashItem) => {
+    const { title } = describeTrashItem(item);
+    if (!confirm(`Permanently delete ${title}? This can still be undone until you close the app.`)) return;
+    updateData((prev: AppData) => removeFromTrash(prev, [item.id]), `Permanently deleted ${title}`);
+  };
+
+  const handleEmpty = () => {
+    if (!confirm(`Permanently delete all ${items.length} items in the trash?`)) return;
+    updateData((prev: AppData) => removeFromTrash(prev, prev.trash.map(item => item.id)), 'Emptied the trash');
+    showNotification('Trash emptied');
+  };
+
+  const setRetention = (days: number) => {
+    updateData((prev: AppData) => ({
+      ...prev,
+      settings: { ...prev.settings, trashRetentionDays: days }
+    }), 'Changed trash retention');
+  };
+
+  const cardClass = theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-amber-200';
+  const inputClass = theme === 'dark'
+    ? 'px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+    : 'px-4 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">Trash ({items.length})</h2>
+        {items.length > 0 && (
+          <button
+            onClick={handleEmpty}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 flex items-center gap-2"
+          >
+            <Trash2 className="w-4 h-4" />
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      <div className={`${cardClass} border rounded-lg p-4 flex flex-wrap items-center gap-3`}>
+        <span className={mutedText}>Deleted items are removed for good after</span>
+        <select
+          value={retentionDays}
+          onChange={(e) => setRetention(Number(e.target.value))}
+          className={inputClass}
+        >
+          {[7, 30, 90, 365].map(days => (
+            <option key={days} value={days}>{days} days</option>
+          ))}
+        </select>
+      </div>
+
+      {items.length === 0 ? (
+        <div className={`${cardClass} border rounded-lg p-12 text-center`}>
+          <Trash2 className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+          <p className={mutedText}>The trash is empty</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => {
+            const { title, detail } = describeTrashItem(item);
+            const daysLeft = Math.max(0, Math.ceil((trashExpiresAt(item, retentionDays).getTime() - Date.now()) / 86400000));
+            return (
+              <div key={item.id} className={`${cardClass} border rounded-lg p-4 flex items-center justify-between gap-4`}>
+                <div>
+                  <div className="font-bold">{title}</div>
+                  <div className={`text-sm ${mutedText}`}>
+                    {detail} • deleted {new Date(item.deletedAt).toLocaleDateString()} • {daysLeft === 0 ? 'removed on next start' : `${daysLeft} days left`}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => handleRestore(item)}
+                    className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 flex items-center gap-1"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDeleteForever(item)}
+                    className={`px-3 py-1 rounded-lg text-red-600 ${theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'}`}
+                  >
+                    Delete Forever
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
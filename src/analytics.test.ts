@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_ANALYTICS_FILTER,
+  analyticsQuery,
+  cardPairs,
+  countCards,
+  matchingSlots,
+  pairKey,
+  parseAnalyticsQuery,
+  seenLabel,
+  sortCardCounts,
+  type AnalyticsFilter
+} from './analytics';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { AppData, Card, Group } from './types';
+
+const cards: Card[] = ['axe', 'bat', 'bear', 'bell', 'bird', 'sun'].map(id => ({ id, name: id.toUpperCase(), shortDescription: '', longDescription: '' }));
+
+const reading = (personName: string, year: number, slots: string[][]) => ({
+  personName,
+  year,
+  spreadId: 'monthly-4',
+  readings: slots.map((cardIds, idx) => ({ month: ['January', 'February', 'March'][idx], cardIds }))
+});
+
+const group: Group = {
+  id: 'g1',
+  name: 'Thursday',
+  members: [],
+  yearReadings: {
+    2024: { Ann: reading('Ann', 2024, [['bell', 'bird', 'axe', 'bat'], ['bear', 'sun', 'bell', 'bird']]) },
+    2025: {
+      Ann: reading('Ann', 2025, [['bird', 'bell', 'bear', 'sun']]),
+      Bob: { ...reading('Bob', 2025, [['bell', 'bird', 'axe', 'bat']]), archived: true }
+    }
+  }
+};
+
+const data: AppData = { schemaVersion: 7, cards, groups: [group], spreads: BUILT_IN_SPREADS, trash: [], settings: { theme: 'light' } };
+
+const filter = (changes: Partial<AnalyticsFilter>): AnalyticsFilter =>
+  ({ ...EMPTY_ANALYTICS_FILTER, ...changes });
+
+describe('analytics', () => {
+  it('filters slots and leaves out archived readings', () => {
+    expect(matchingSlots(data, filter({}))).toHaveLength(3);
+    expect(matchingSlots(data, filter({ yearFrom: 2024, yearTo: 2024 }))).toHaveLength(2);
+    expect(matchingSlots(data, filter({ months: ['February'] }))).toHaveLength(1);
+    expect(matchingSlots(data, filter({ personNames: ['Bob'] }))).toHaveLength(0);
+    expect(matchingSlots(data, filter({ groupIds: ['g2'] }))).toHaveLength(0);
+  });
+
+  it('combines filters, with lists matching any of their values', () => {
+    const januaries = matchingSlots(data, filter({ groupIds: ['g1'], personNames: ['Ann', 'Bob'], months: ['January'], yearFrom: 2022, yearTo: 2025 }));
+    expect(januaries.map(ref => ref.reading.year)).toEqual([2024, 2025]);
+    expect(matchingSlots(data, filter({ months: ['January', 'February'], yearFrom: 2025 }))).toHaveLength(1);
+  });
+
+  it('counts cards, most drawn first, with when they were first and last seen', () => {
+    const counts = countCards(data, matchingSlots(data, filter({})));
+    expect(counts.slice(0, 2).map(item => [item.cardId, item.count])).toEqual([['bell', 3], ['bird', 3]]);
+    const bear = counts.find(item => item.cardId === 'bear')!;
+    expect([seenLabel(bear.firstSeen), seenLabel(bear.lastSeen)]).toEqual(['February 2024', 'January 2025']);
+  });
+
+  it('counts only cards that match the tag filter', () => {
+    const tagged = { ...data, cards: cards.map(card => card.id === 'sun' ? { ...card, sentiment: 'positive' as const } : card) };
+    const counts = countCards(tagged, matchingSlots(tagged, filter({})), { ...EMPTY_ANALYTICS_FILTER.tags, sentiment: 'positive' });
+    expect(counts.map(item => [item.cardId, item.count])).toEqual([['sun', 2]]);
+  });
+
+  it('sorts counts by name and by first and last seen', () => {
+    const counts = countCards(data, matchingSlots(data, filter({})));
+    expect(sortCardCounts(counts, 'name').map(item => item.cardId)).toEqual(['axe', 'bat', 'bear', 'bell', 'bird', 'sun']);
+    expect(sortCardCounts(counts, 'first').map(item => item.cardId)).toEqual(['bell', 'bird', 'axe', 'bat', 'bear', 'sun']);
+    expect(sortCardCounts(counts, 'last').slice(0, 4).map(item => item.cardId)).toEqual(['bell', 'bird', 'bear', 'sun']);
+  });
+
+  it('keeps only pairs of cards that both match the tag filter', () => {
+    const tagged = { ...data, cards: cards.map(card => ['bell', 'bird', 'sun'].includes(card.id) ? { ...card, themes: ['love' as const] } : card) };
+    const love = { ...EMPTY_ANALYTICS_FILTER.tags, theme: 'love' as const };
+    const pairs = cardPairs(tagged, matchingSlots(tagged, filter({})), 6, love);
+    expect(pairs.map(pair => [pairKey(pair.a, pair.b), pair.count])).toEqual([['bell|bird', 3], ['bell|sun', 2], ['bird|sun', 2]]);
+    expect(pairs[0].expected).toBeCloseTo(1.2);
+  });
+
+  it('round-trips the filter and sort through the URL', () => {
+    const view = filter({
+      groupIds: ['g1'],
+      yearFrom: 2022,
+      yearTo: 2025,
+      months: ['January'],
+      personNames: ['Ann, Jr.', 'Bob'],
+      tags: { ...EMPTY_ANALYTICS_FILTER.tags, theme: 'love', needsConnecting: true }
+    });
+    const query = analyticsQuery(view, 'last');
+    expect(parseAnalyticsQuery(new URLSearchParams(query.toString()))).toEqual({ filter: view, sort: 'last' });
+    expect(analyticsQuery(EMPTY_ANALYTICS_FILTER, 'count').toString()).toBe('');
+  });
+
+  it('drops malformed URL values', () => {
+    const { filter: parsed, sort } = parseAnalyticsQuery(new URLSearchParams('from=soon&theme=fame&sentiment=glum&sort=random&to=2025'));
+    expect(parsed).toEqual(filter({ yearTo: 2025 }));
+    expect(sort).toBe('count');
+    ['toString', 'constructor', '__proto__'].forEach(key => {
+      expect(parseAnalyticsQuery(new URLSearchParams(`sentiment=${key}&theme=${key}&sort=${key}`))).toEqual({ filter: EMPTY_ANALYTICS_FILTER, sort: 'count' });
+    });
+  });
+
+  it('counts pairs and compares them with chance', () => {
+    const slots = matchingSlots(data, filter({}));
+    const pairs = cardPairs(data, slots, 6);
+    const bellBird = pairs[0];
+    expect(pairKey(bellBird.a, bellBird.b)).toBe('bell|bird');
+    expect(bellBird.count).toBe(3);
+    // Three 4-card slots from 6 cards: 3 × (4 × 3) / (6 × 5)
+    expect(bellBird.expected).toBeCloseTo(1.2);
+    expect(bellBird.lift).toBeCloseTo(2.5);
+    expect(bellBird.slots.map(ref => `${ref.reading.year} ${ref.month.month}`)).toEqual(['2024 January', '2024 February', '2025 January']);
+    expect(pairs.find(pair => pairKey(pair.a, pair.b) === 'axe|sun')).toBeUndefined();
+  });
+});
@@ -0,0 +1,213 @@
+import { CARD_SENTIMENTS, CARD_THEMES, EMPTY_TAG_FILTER, matchesTagFilter, type CardTagFilter } from './cardTags';
+import { readingSpread, slotStartMonth } from './spreads';
+import { MONTHS, type AppData, type Card, type CardSentiment, type CardTheme, type Group, type MonthReading, type PersonYearReading } from './types';
+
+// Counting over saved readings. Everything works on the slots that pass the
+// Analytics filter, so the leaderboard and the pairings always agree.
+
+// Every part combines with the others; an empty list or range matches everything
+export interface AnalyticsFilter {
+  groupIds: string[];
+  yearFrom: number | null;
+  yearTo: number | null;
+  months: string[];
+  personNames: string[];
+  spreadIds: string[];
+  // Narrows which cards are counted, not which slots
+  tags: CardTagFilter;
+}
+
+export const EMPTY_ANALYTICS_FILTER: AnalyticsFilter = {
+  groupIds: [],
+  yearFrom: null,
+  yearTo: null,
+  months: [],
+  personNames: [],
+  spreadIds: [],
+  tags: EMPTY_TAG_FILTER
+};
+
+export type AnalyticsSort = 'count' | 'name' | 'first' | 'last';
+
+const ANALYTICS_SORTS: AnalyticsSort[] = ['count', 'name', 'first', 'last'];
+
+// One saved slot of one reading
+export interface SlotRef {
+  group: Group;
+  reading: PersonYearReading;
+  slot: number;
+  month: MonthReading;
+}
+
+export interface CardCount {
+  cardId: string;
+  card: Card | undefined;
+  count: number;
+  // Earliest and latest draw, as months since year 0 (see seenLabel)
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface CardPair {
+  // Ordered by card ID, so each pair is counted once
+  a: string;
+  b: string;
+  count: number;
+  // Times the pair would turn up by chance, drawing at random from the deck
+  expected: number;
+  // count / expected; above 1 the pair turns up more often than chance
+  lift: number;
+  slots: SlotRef[];
+}
+
+const within = <T>(values: T[], value: T) => values.length === 0 || values.includes(value);
+
+// Slots in current groups and readings that pass the filter
+export const matchingSlots = (data: AppData, filter: AnalyticsFilter): SlotRef[] =>
+  data.groups
+    .filter(group => !group.archived && within(filter.groupIds, group.id))
+    .flatMap(group => Object.entries(group.yearReadings)
+      .filter(([year]) =>
+        (filter.yearFrom === null || Number(year) >= filter.yearFrom) &&
+        (filter.yearTo === null || Number(year) <= filter.yearTo))
+      .flatMap(([, yearData]) => Object.entries(yearData)
+        .filter(([person, reading]) =>
+          !reading.archived &&
+          within(filter.personNames, person) &&
+          within(filter.spreadIds, readingSpread(data, group, reading).id))
+        .flatMap(([, reading]) => reading.readings.flatMap((month, slot): SlotRef[] =>
+          month && within(filter.months, month.month) ? [{ group, reading, slot, month }] : []
+        ))
+      )
+    );
+
+export const hasTagFilter = (tags: CardTagFilter) =>
+  tags.sentiment !== '' || tags.theme !== '' || tags.needsConnecting || tags.unreviewed;
+
+// Whether a card is counted under the tag filter. With one set, cards gone
+// from the library drop out, having no tags to match.
+const tagMatcher = (data: AppData, tags: CardTagFilter) => {
+  if (!hasTagFilter(tags)) return () => true;
+  const cardsById = new Map<string, Card>(data.cards.map(card => [card.id, card]));
+  return (cardId: string) => {
+    const card = cardsById.get(cardId);
+    return !!card && matchesTagFilter(card, tags);
+  };
+};
+
+// "March 2024"
+export const seenLabel = (seen: number) => `${MONTHS[seen % 12]} ${Math.floor(seen / 12)}`;
+
+// Most drawn first, counting only cards that match the tag filter
+export const countCards = (data: AppData, slots: SlotRef[], tags: CardTagFilter = EMPTY_TAG_FILTER): CardCount[] => {
+  const cardsById = new Map<string, Card>(data.cards.map(card => [card.id, card]));
+  const counts = new Map<string, CardCount>();
+  slots.forEach(({ group, reading, slot, month }) => {
+    const seen = reading.year * 12 + slotStartMonth(readingSpread(data, group, reading).period, slot);
+    month.cardIds.forEach(cardId => {
+      const item = counts.get(cardId) || { cardId, card: cardsById.get(cardId), count: 0, firstSeen: seen, lastSeen: seen };
+      item.count++;
+      item.firstSeen = Math.min(item.firstSeen, seen);
+      item.lastSeen = Math.max(item.lastSeen, seen);
+      counts.set(cardId, item);
+    });
+  });
+  const matches = tagMatcher(data, tags);
+  return Array.from(counts.values())
+    .filter(item => matches(item.cardId))
+    .sort((a, b) => b.count - a.count);
+};
+
+const cardName = (item: CardCount) => item.card?.name ?? item.cardId;
+
+// Count and last seen put the biggest first; name and first seen the smallest
+export const sortCardCounts = (counts: CardCount[], sort: AnalyticsSort): CardCount[] => {
+  const byCount = (a: CardCount, b: CardCount) => b.count - a.count;
+  const byName = (a: CardCount, b: CardCount) => cardName(a).localeCompare(cardName(b));
+  const compare: Record<AnalyticsSort, (a: CardCount, b: CardCount) => number> = {
+    count: (a, b) => byCount(a, b) || byName(a, b),
+    name: (a, b) => byName(a, b) || byCount(a, b),
+    first: (a, b) => a.firstSeen - b.firstSeen || byCount(a, b) || byName(a, b),
+    last: (a, b) => b.lastSeen - a.lastSeen || byCount(a, b) || byName(a, b)
+  };
+  return [...counts].sort(compare[sort]);
+};
+
+// Filter state as URL query parameters, so a view can be bookmarked. Lists use
+// repeated keys, which keeps names with commas intact.
+export const analyticsQuery = (filter: AnalyticsFilter, sort: AnalyticsSort): URLSearchParams => {
+  const params = new URLSearchParams();
+  filter.groupIds.forEach(id => params.append('group', id));
+  if (filter.yearFrom !== null) params.set('from', String(filter.yearFrom));
+  if (filter.yearTo !== null) params.set('to', String(filter.yearTo));
+  filter.months.forEach(month => params.append('month', month));
+  filter.personNames.forEach(name => params.append('person', name));
+  filter.spreadIds.forEach(id => params.append('spread', id));
+  if (filter.tags.sentiment) params.set('sentiment', filter.tags.sentiment);
+  if (filter.tags.theme) params.set('theme', filter.tags.theme);
+  if (filter.tags.needsConnecting) params.set('connecting', '1');
+  if (filter.tags.unreviewed) params.set('unreviewed', '1');
+  if (sort !== 'count') params.set('sort', sort);
+  return params;
+};
+
+// Unknown or malformed values are dropped rather than failing the whole view
+export const parseAnalyticsQuery = (params: URLSearchParams): { filter: AnalyticsFilter; sort: AnalyticsSort } => {
+  const year = (key: string) => {
+    const value = Number(params.get(key));
+    return params.has(key) && Number.isInteger(value) ? value : null;
+  };
+  const sentiment = params.get('sentiment') || '';
+  const theme = params.get('theme') || '';
+  const sort = params.get('sort') as AnalyticsSort;
+  return {
+    filter: {
+      groupIds: params.getAll('group'),
+      yearFrom: year('from'),
+      yearTo: year('to'),
+      months: params.getAll('month'),
+      personNames: params.getAll('person'),
+      spreadIds: params.getAll('spread'),
+      tags: {
+        sentiment: sentiment === 'untagged' || CARD_SENTIMENTS.includes(sentiment as CardSentiment) ? sentiment as CardSentiment | 'untagged' : '',
+        theme: CARD_THEMES.includes(theme as CardTheme) ? theme as CardTheme : '',
+        needsConnecting: params.get('connecting') === '1',
+        unreviewed: params.get('unreviewed') === '1'
+      }
+    },
+    sort: ANALYTICS_SORTS.includes(sort) ? sort : 'count'
+  };
+};
+
+// Cards a physical deck is drawn from: the library, less archived cards
+export const deckSize = (data: AppData) => data.cards.filter(card => !card.archived).length;
+
+export const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+
+// Pairs of cards drawn in the same slot. Drawing k of n cards at random, a given
+// pair lands together with probability k(k-1) / n(n-1); that holds slot by slot
+// even with no repeats within a year, since every card is equally likely to be left.
+// With a tag filter only pairs where both cards match are kept, so the pairs are
+// drawn from the same cards as the leaderboard.
+export const cardPairs = (data: AppData, slots: SlotRef[], deck: number, tags: CardTagFilter = EMPTY_TAG_FILTER): CardPair[] => {
+  const matches = tagMatcher(data, tags);
+  const pairs = new Map<string, CardPair>();
+  let expected = 0;
+
+  slots.forEach(ref => {
+    const ids = Array.from(new Set(ref.month.cardIds)).sort();
+    if (deck > 1) expected += (ids.length * (ids.length - 1)) / (deck * (deck - 1));
+    ids.forEach((a, i) => ids.slice(i + 1).forEach(b => {
+      if (!matches(a) || !matches(b)) return;
+      const key = pairKey(a, b);
+      const pair = pairs.get(key) || { a, b, count: 0, expected: 0, lift: 0, slots: [] };
+      pair.count++;
+      pair.slots.push(ref);
+      pairs.set(key, pair);
+    }));
+  });
+
+  return Array.from(pairs.values())
+    .map(pair => ({ ...pair, expected, lift: expected > 0 ? pair.count / expected : 0 }))
+    .sort((x, y) => y.count - x.count || y.lift - x.lift || pairKey(x.a, x.b).localeCompare(pairKey(y.a, y.b)));
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { BackupError, createBackup, daysSinceBackup, mergeAppData, parseBackup, summarizeData } from './backup';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { AppData, GroupMember, PersonYearReading } from './types';
+
+const reading = (personName: string, year: number): PersonYearReading => ({
+  personName,
+  year,
+  spreadId: 'monthly-4',
+  readings: [{ month: 'January', cardIds: ['axe', 'bat', 'bear', 'bell'] }]
+});
+
+const dataWith = (members: GroupMember[], yearReadings: Record<number, Record<string, PersonYearReading>> = {}): AppData => ({
+  schemaVersion: 7,
+  cards: [],
+  groups: [{ id: 'g1', name: 'Thursday', members, yearReadings }],
+  spreads: BUILT_IN_SPREADS,
+  trash: [],
+  settings: { theme: 'light' }
+});
+
+describe('mergeAppData', () => {
+  it('recognises a member renamed since the backup by their ID', () => {
+    const current = dataWith([{ id: 'm1', name: 'Annie', joinedYears: [2025] }], { 2025: { Annie: reading('Annie', 2025) } });
+    const backup = dataWith([{ id: 'm1', name: 'Ann', joinedYears: [2024, 2025] }], { 2024: { Ann: reading('Ann', 2024) }, 2025: { Ann: reading('Ann', 2025) } });
+
+    const { data, added } = mergeAppData(current, backup);
+    const group = data.groups[0];
+    expect(group.members).toEqual([{ id: 'm1', name: 'Annie', joinedYears: [2024, 2025] }]);
+    expect(Object.keys(group.yearReadings[2024])).toEqual(['Annie']);
+    expect(group.yearReadings[2024].Annie.personName).toBe('Annie');
+    expect(Object.keys(group.yearReadings[2025])).toEqual(['Annie']);
+    expect(added.members).toBe(0);
+    expect(added.readings).toBe(1);
+  });
+
+  it('gives a member whose ID clashes with someone else a new ID', () => {
+    const current = dataWith([{ id: 'g1-m1', name: 'Bob', joinedYears: [2025] }]);
+    const other = dataWith(
+      [{ id: 'g1-m1', name: 'Carol', joinedYears: [2025] }, { id: 'g1-m2', name: 'Bob', joinedYears: [2024] }],
+      { 2025: { Carol: reading('Carol', 2025) } }
+    );
+
+    const members = mergeAppData(current, other).data.groups[0].members;
+    expect(members.map(m => m.name)).toEqual(['Bob', 'Carol']);
+    expect(members[0]).toEqual({ id: 'g1-m1', name: 'Bob', joinedYears: [2024, 2025] });
+    expect(members[1].id).not.toBe('g1-m1');
+    expect(new Set(members.map(m => m.id)).size).toBe(2);
+  });
+});
+
+describe('backup files', () => {
+  const data = dataWith([{ id: 'm1', name: 'Ann', joinedYears: [2024, 2025] }], { 2024: { Ann: reading('Ann', 2024) }, 2025: { Ann: reading('Ann', 2025) } });
+
+  it('reads back what it wrote', async () => {
+    const parsed = await parseBackup(await createBackup(data));
+    expect(parsed.data).toEqual(data);
+    expect(parsed.schemaVersion).toBe(7);
+    expect(summarizeData(parsed.data)).toEqual({ cards: 0, groups: 1, members: 1, readings: 2, years: [2024, 2025] });
+  });
+
+  it('rejects a file edited after it was written', async () => {
+    const tampered = (await createBackup(data)).replace('"Ann"', '"Anne"');
+    await expect(parseBackup(tampered)).rejects.toThrow(BackupError);
+    await expect(parseBackup(tampered)).rejects.toThrow('The checksum does not match');
+  });
+
+  it('rejects files that are not backups', async () => {
+    await expect(parseBackup('not json')).rejects.toThrow('The file is not valid JSON.');
+    await expect(parseBackup(JSON.stringify(data))).rejects.toThrow('The file is not a Tea Leaf Reader backup.');
+    const newer = JSON.parse(await createBackup(data));
+    await expect(parseBackup(JSON.stringify({ ...newer, backupVersion: 2 }))).rejects.toThrow('newer version');
+  });
+
+  it('counts whole days since the last backup', () => {
+    expect(daysSinceBackup(undefined)).toBeNull();
+    expect(daysSinceBackup('2025-01-01T00:00:00.000Z', Date.parse('2025-01-08T12:00:00.000Z'))).toBe(7);
+  });
+});
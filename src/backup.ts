@@ -0,0 +1,195 @@
+import { newMemberId } from './members';
+import { migrateData, schemaVersionOf } from './migrations';
+import type { AppData, Group } from './types';
+
+export const BACKUP_FORMAT = 'tea-leaf-readings-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  backupVersion: number;
+  createdAt: string;
+  schemaVersion: number;
+  // SHA-256 of JSON.stringify(data), hex encoded
+  checksum: string;
+  data: AppData;
+}
+
+export interface ParsedBackup {
+  createdAt: string;
+  // Schema version the backup was written with, before migration
+  schemaVersion: number;
+  data: AppData;
+}
+
+export interface DataSummary {
+  cards: number;
+  groups: number;
+  members: number;
+  readings: number;
+  years: number[];
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createBackup = async (data: AppData): Promise<string> => {
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersion: data.schemaVersion,
+    checksum: await sha256(JSON.stringify(data)),
+    data
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+// Checks the envelope and checksum, then brings the data up to the current schema.
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+  let backup: any;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+
+  if (backup?.format !== BACKUP_FORMAT) {
+    throw new BackupError('The file is not a Tea Leaf Reader backup.');
+  }
+  if (typeof backup.backupVersion !== 'number' || backup.backupVersion > BACKUP_VERSION) {
+    throw new BackupError('The backup was made by a newer version of the app.');
+  }
+  if (typeof backup.checksum !== 'string' || (await sha256(JSON.stringify(backup.data))) !== backup.checksum) {
+    throw new BackupError('The checksum does not match; the backup is damaged or was edited.');
+  }
+
+  return {
+    createdAt: backup.createdAt,
+    schemaVersion: schemaVersionOf(backup.data),
+    data: migrateData(backup.data)
+  };
+};
+
+export const summarizeData = (data: AppData): DataSummary => {
+  const years = new Set<number>();
+  let readings = 0;
+  data.groups.forEach(group => {
+    Object.entries(group.yearReadings).forEach(([year, yearData]) => {
+      const count = Object.keys(yearData).length;
+      readings += count;
+      if (count > 0) years.add(Number(year));
+    });
+  });
+
+  return {
+    cards: data.cards.length,
+    groups: data.groups.length,
+    members: data.groups.reduce((sum, group) => sum + group.members.length, 0),
+    readings,
+    years: Array.from(years).sort((a, b) => a - b)
+  };
+};
+
+// Which current member an incoming one is. The ID comes first, so a member
+// renamed since the backup was taken is still recognised. An ID match with a
+// different name only counts as a rename when neither name is in the other
+// copy; otherwise the IDs merely clash (older data numbered members per group)
+// and the name decides. Anyone left over is added, with a new ID if theirs is taken.
+const matchMembers = (current: Group, incoming: Group) => {
+  const currentNames = new Set(current.members.map(m => m.name));
+  const incomingNames = new Set(incoming.members.map(m => m.name));
+  const claimed = new Set<string>();
+  return incoming.members.map(member => {
+    const byId = current.members.find(m => m.id === member.id);
+    const renamed = byId && byId.name !== member.name && !currentNames.has(member.name) && !incomingNames.has(byId.name);
+    const match = byId && (byId.name === member.name || renamed) ? byId : current.members.find(m => m.name === member.name);
+    if (!match || claimed.has(match.id)) return { member, match: undefined };
+    claimed.add(match.id);
+    return { member, match };
+  });
+};
+
+const mergeGroup = (current: Group, incoming: Group): { group: Group; added: number } => {
+  const matches = matchMembers(current, incoming);
+  const members = current.members.map(member => {
+    const other = matches.find(({ match }) => match?.id === member.id)?.member;
+    if (!other) return member;
+    return { ...member, joinedYears: Array.from(new Set([...member.joinedYears, ...other.joinedYears])).sort((a, b) => a - b) };
+  });
+  const ids = new Set(members.map(m => m.id));
+  matches.forEach(({ member, match }) => {
+    if (match) return;
+    const added = ids.has(member.id) ? { ...member, id: newMemberId() } : member;
+    ids.add(added.id);
+    members.push(added);
+  });
+
+  // Incoming readings follow their member to the current name
+  const names = new Map(matches.map(({ member, match }) => [member.name, match?.name ?? member.name]));
+
+  let added = 0;
+  const yearReadings = { ...current.yearReadings };
+  Object.entries(incoming.yearReadings).forEach(([yearKey, yearData]) => {
+    const year = Number(yearKey);
+    const merged = { ...(yearReadings[year] || {}) };
+    Object.entries(yearData).forEach(([person, reading]) => {
+      const name = names.get(person) ?? person;
+      if (!merged[name]) {
+        merged[name] = name === person ? reading : { ...reading, personName: name };
+        added++;
+      }
+    });
+    yearReadings[year] = merged;
+  });
+
+  return { group: { ...current, members, yearReadings }, added };
+};
+
+// Adds everything from `incoming` that `current` doesn't have. Where both have
+// the same card, group member or person-year reading, the current one wins.
+export const mergeAppData = (current: AppData, incoming: AppData): { data: AppData; added: DataSummary } => {
+  const cardIds = new Set(current.cards.map(c => c.id));
+  const newCards = incoming.cards.filter(c => !cardIds.has(c.id));
+
+  let addedReadings = 0;
+  let addedMembers = 0;
+  const groups = current.groups.map(group => {
+    const other = incoming.groups.find(g => g.id === group.id);
+    if (!other) return group;
+    const result = mergeGroup(group, other);
+    addedReadings += result.added;
+    addedMembers += result.group.members.length - group.members.length;
+    return result.group;
+  });
+
+  const spreadIds = new Set(current.spreads.map(s => s.id));
+  const newSpreads = incoming.spreads.filter(s => !spreadIds.has(s.id));
+
+  const groupIds = new Set(current.groups.map(g => g.id));
+  const newGroups = incoming.groups.filter(g => !groupIds.has(g.id));
+  const newGroupSummary = summarizeData({ ...incoming, cards: [], groups: newGroups });
+
+  return {
+    data: { ...current, cards: [...current.cards, ...newCards], groups: [...groups, ...newGroups], spreads: [...current.spreads, ...newSpreads] },
+    added: {
+      cards: newCards.length,
+      groups: newGroups.length,
+      members: addedMembers + newGroupSummary.members,
+      readings: addedReadings + newGroupSummary.readings,
+      years: []
+    }
+  };
+};
+
+export const daysSinceBackup = (lastBackupAt: string | undefined, now = Date.now()) =>
+  lastBackupAt ? Math.floor((now - new Date(lastBackupAt).getTime()) / 86400000) : null;
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildBooklet, groupBooklets } from './booklet';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { AppData, Group } from './types';
+
+const single = BUILT_IN_SPREADS.find(spread => spread.id === 'past-present-future')!;
+
+const group: Group = {
+  id: 'g1',
+  name: 'Thursday',
+  spreadId: single.id,
+  members: [
+    { id: 'm1', name: 'Ann', joinedYears: [2025] },
+    { id: 'm2', name: 'Bob', joinedYears: [2025] },
+    { id: 'm3', name: 'Cy', joinedYears: [2025], archived: true }
+  ],
+  yearReadings: {
+    2025: {
+      Bob: { personName: 'Bob', year: 2025, readings: [], spreadId: single.id, archived: true },
+      Ann: {
+        personName: 'Ann',
+        year: 2025,
+        spreadId: single.id,
+        notes: 'A quiet year',
+        readings: [{ month: 'Reading', cardIds: ['bear', 'bell', 'gone'], cardNotes: ['', 'From abroad', ''], notes: 'Travel' }]
+      },
+      Cy: { personName: 'Cy', year: 2025, readings: [], spreadId: single.id }
+    }
+  }
+};
+
+const data: AppData = {
+  schemaVersion: 7,
+  cards: [
+    { id: 'bear', name: 'BEAR', shortDescription: 'Difficulty', longDescription: 'A difficult time ahead.' },
+    { id: 'bell', name: 'BELL', shortDescription: 'News', longDescription: 'Unexpected news.' }
+  ],
+  groups: [group],
+  spreads: BUILT_IN_SPREADS,
+  trash: [],
+  settings: { theme: 'light' }
+};
+
+describe('booklets', () => {
+  it('resolves cards, positions and notes', () => {
+    const booklet = buildBooklet(data, group, group.yearReadings[2025].Ann);
+    expect(booklet).toMatchObject({ personName: 'Ann', groupName: 'Thursday', year: 2025, spreadName: single.name, notes: 'A quiet year' });
+    expect(booklet.sections).toHaveLength(1);
+    expect(booklet.sections[0].notes).toBe('Travel');
+    expect(booklet.sections[0].cards.map(card => [card.position, card.name, card.note])).toEqual([
+      ['Past', 'BEAR', ''],
+      ['Present', 'BELL', 'From abroad'],
+      ['Future', 'Unknown card (gone)', '']
+    ]);
+  });
+
+  it('keeps a section for every slot, read or not', () => {
+    const monthly = { ...group.yearReadings[2025].Ann, spreadId: 'monthly-4', readings: [] };
+    const sections = buildBooklet(data, group, monthly).sections;
+    expect(sections).toHaveLength(12);
+    expect(sections.every(section => section.cards.length === 0)).toBe(true);
+  });
+
+  it('makes one booklet per current member with a reading', () => {
+    expect(groupBooklets(data, group, 2025).map(booklet => booklet.personName)).toEqual(['Ann']);
+    expect(groupBooklets(data, group, 2024)).toEqual([]);
+  });
+});
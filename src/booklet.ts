@@ -0,0 +1,77 @@
+import { yearNarrative } from './narrative';
+import { periodSlots, readingSpread } from './spreads';
+import type { AppData, Card, Group, PersonYearReading, Reflection } from './types';
+
+// Printable year booklets: everything a member takes home from a reading night,
+// resolved into plain text so the print layout needs no lookups of its own.
+
+export interface BookletCard {
+  position: string;
+  name: string;
+  shortDescription: string;
+  longDescription: string;
+  note: string;
+}
+
+export interface BookletSection {
+  label: string;
+  // Empty when the slot hasn't been read yet
+  cards: BookletCard[];
+  notes?: string;
+  reflection?: Reflection;
+}
+
+export interface Booklet {
+  personName: string;
+  groupName: string;
+  year: number;
+  spreadName: string;
+  // The year-at-a-glance narrative, one paragraph per entry
+  summary: string[];
+  notes?: string;
+  sections: BookletSection[];
+}
+
+export const buildBooklet = (data: AppData, group: Group, reading: PersonYearReading): Booklet => {
+  const spread = readingSpread(data, group, reading);
+  const cardsById = new Map<string, Card>(data.cards.map(card => [card.id, card]));
+
+  return {
+    personName: reading.personName,
+    groupName: group.name,
+    year: reading.year,
+    spreadName: spread.name,
+    summary: yearNarrative(data, group, reading),
+    notes: reading.notes,
+    sections: periodSlots(spread.period).map((label, slot) => {
+      const month = reading.readings[slot];
+      return {
+        label,
+        cards: (month?.cardIds || []).map((cardId, position) => {
+          const card = cardsById.get(cardId);
+          return {
+            position: spread.positions[position] ?? `Card ${position + 1}`,
+            name: card?.name ?? `Unknown card (${cardId})`,
+            shortDescription: card?.shortDescription ?? '',
+            longDescription: card?.longDescription ?? '',
+            note: month?.cardNotes?.[position] || ''
+          };
+        }),
+        notes: month?.notes,
+        reflection: month?.reflection
+      };
+    })
+  };
+};
+
+// One booklet per member with a reading that year, in member order. Archived
+// members and readings are left out.
+export const groupBooklets = (data: AppData, group: Group, year: number): Booklet[] => {
+  const yearData = group.yearReadings[year] || {};
+  return group.members
+    .filter(member => !member.archived)
+    .flatMap(member => {
+      const reading = yearData[member.name];
+      return reading && !reading.archived ? [buildBooklet(data, group, reading)] : [];
+    });
+};
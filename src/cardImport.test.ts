@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import deckText from '../Tea Leaf Cards.txt?raw';
+import { parseCardJson, parseCardText, splitFirstSentence, stripPageFooters } from './cardImport';
+
+describe('parseCardText', () => {
+  it('reads the whole published deck without warnings', () => {
+    const { cards, warnings } = parseCardText(deckText);
+    expect(warnings).toEqual([]);
+    expect(cards).toHaveLength(182);
+    expect(new Set(cards.map(card => card.id)).size).toBe(182);
+    // Names keep their OCR debris here; ocrCleanup proposes the fixes
+    cards.forEach(card => expect(card.shortDescription).not.toBe(''));
+  });
+
+  it('splits entries run together on one line and drops page footers', () => {
+    const { cards, warnings } = parseCardText('AXE: Danger ahead. Take care at work. 92 TEA LEAF FORTUNE CARDS I I BAT: Someone is false. BELL: News.');
+    expect(warnings).toEqual([]);
+    expect(cards).toEqual([
+      { id: 'AXE', name: 'AXE', shortDescription: 'Danger ahead.', longDescription: 'Take care at work.' },
+      { id: 'BAT', name: 'BAT', shortDescription: 'Someone is false.', longDescription: '' },
+      { id: 'BELL', name: 'BELL', shortDescription: 'News.', longDescription: '' }
+    ]);
+  });
+
+  it('finds names that OCR broke up, with a space before the colon', () => {
+    expect(parseCardText('Mo UN TA IN: A goal. UN I CORN : A surprise.').cards.map(card => card.name)).toEqual(['MO UN TA IN', 'UN I CORN']);
+  });
+
+  it('warns about preambles, duplicates and text with no cards', () => {
+    const { cards, warnings } = parseCardText('Tea leaf cards\n\nAXE: Danger. AXE: Again.');
+    expect(cards.map(card => card.id)).toEqual(['AXE', 'AXE-2']);
+    expect(warnings).toHaveLength(2);
+    expect(parseCardText('just some text').warnings).toEqual(['No "NAME: description" entries were found.']);
+  });
+});
+
+describe('cardImport helpers', () => {
+  it('splits off the first sentence', () => {
+    expect(splitFirstSentence('Good news. It comes by letter.')).toEqual(['Good news.', 'It comes by letter.']);
+    expect(splitFirstSentence('No full stop')).toEqual(['No full stop', '']);
+  });
+
+  it('strips page footers', () => {
+    expect(stripPageFooters('end. 12 TEA LEAF FORTUNE CARDS next')).toBe('end. next');
+  });
+
+  it('reads cards from JSON', () => {
+    expect(parseCardJson('[{"name":"AXE","shortDescription":"Danger."}]').cards).toEqual([
+      { id: 'AXE', name: 'AXE', shortDescription: 'Danger.', longDescription: '' }
+    ]);
+    expect(() => parseCardJson('{}')).toThrow('Invalid format');
+  });
+});
@@ -0,0 +1,136 @@
+import type { Card } from './types';
+
+export interface ParsedCardText {
+  cards: Card[];
+  warnings: string[];
+}
+
+// Page footers from the scanned booklet, e.g. "92 TEA LEAF FORTUNE CARDS",
+// sometimes followed by stray single-character scan debris ("I I").
+const FOOTER_PATTERN = /\s*\b\d{1,3}\s+TEA LEAF FORTUNE CARDS\b(?:\s+[Il1|](?=\s))*\s*/g;
+
+// A token that can be part of a card name. Names are upper case, but OCR
+// leaves the odd lower-case letter or digit inside them ("Mo UN TA IN", "COi NS").
+const NAME_TOKEN = /^["'“”]?[A-Za-z0-9&~_'-]+["'“”]?$/;
+
+const isNameToken = (token: string) =>
+  NAME_TOKEN.test(token) && token.replace(/[^a-z]/g, '').length <= 1;
+
+// Text before a name must end a sentence, a parenthetical or a paragraph
+// for the name to count.
+const endsSentence = (text: string) => /(?:[.!?)"”_]\s*|\n[^\S\n]*\W?\s*)$/.test(text);
+
+const cleanName = (tokens: string[]) =>
+  tokens
+    .join(' ')
+    .replace(/["“”_]/g, '')
+    .toUpperCase()
+    .trim();
+
+export const stripPageFooters = (text: string) => text.replace(FOOTER_PATTERN, ' ');
+
+// Splits on the first sentence end; the remainder becomes the long description.
+export const splitFirstSentence = (text: string): [string, string] => {
+  const match = /[.!?](?=\s|$)/.exec(text);
+  if (!match) return [text.trim(), ''];
+  const end = match.index + 1;
+  return [text.slice(0, end).trim(), text.slice(end).trim()];
+};
+
+interface Heading {
+  name: string;
+  start: number;
+  bodyStart: number;
+}
+
+const findHeadings = (text: string): Heading[] => {
+  const headings: Heading[] = [];
+  const colon = /:/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = colon.exec(text))) {
+    // OCR sometimes puts a space before the colon ("UN I CORN :").
+    const before = text.slice(0, match.index).replace(/ $/, '');
+    if (/\s$/.test(before)) continue;
+
+    const tokens = Array.from(before.matchAll(/\S+/g));
+    let first = tokens.length;
+    while (first > 0 && isNameToken(tokens[first - 1][0])) first--;
+    if (first === tokens.length) continue;
+
+    const nameTokens = tokens.slice(first).map(t => t[0]);
+    const letters = nameTokens.join('').replace(/[^A-Za-z]/g, '');
+    const upper = letters.replace(/[^A-Z]/g, '');
+    if (upper.length === 0 || upper.length < letters.length * 0.6) continue;
+
+    const start = tokens[first].index!;
+    if (start > 0 && !endsSentence(text.slice(0, start))) continue;
+
+    headings.push({ name: cleanName(nameTokens), start, bodyStart: match.index + 1 });
+  }
+
+  return headings;
+};
+
+// Parses the deck as published: "NAME: short meaning. long description",
+// with entries separated by blank lines or run together on one line.
+export const parseCardText = (raw: string): ParsedCardText => {
+  // Paragraph breaks survive as a single newline; all other whitespace collapses.
+  const text = stripPageFooters(raw.replace(/^﻿/, ''))
+    .replace(/\s+/g, ws => (/\n\s*\n/.test(ws) ? '\n' : ' '))
+    .trim();
+  const headings = findHeadings(text);
+  const warnings: string[] = [];
+  const cards: Card[] = [];
+  const seen = new Map<string, number>();
+
+  if (headings.length === 0) {
+    return { cards, warnings: ['No "NAME: description" entries were found.'] };
+  }
+
+  const preamble = text.slice(0, headings[0].start).replace(/\s+/g, ' ').trim();
+  if (preamble) {
+    warnings.push(`Ignored text before the first card: "${preamble.slice(0, 60)}${preamble.length > 60 ? '…' : ''}"`);
+  }
+
+  headings.forEach((heading, i) => {
+    const end = i + 1 < headings.length ? headings[i + 1].start : text.length;
+    const body = text.slice(heading.bodyStart, end).replace(/\s+/g, ' ').trim();
+    const [shortDescription, longDescription] = splitFirstSentence(body);
+
+    if (!shortDescription) {
+      warnings.push(`${heading.name} has no description.`);
+    }
+
+    const count = (seen.get(heading.name) || 0) + 1;
+    seen.set(heading.name, count);
+    if (count > 1) {
+      warnings.push(`${heading.name} appears more than once; later copies are suffixed.`);
+    }
+
+    cards.push({
+      id: count > 1 ? `${heading.name}-${count}` : heading.name,
+      name: heading.name,
+      shortDescription,
+      longDescription
+    });
+  });
+
+  return { cards, warnings };
+};
+
+// Parses a JSON array of { name, shortDescription, longDescription } objects.
+export const parseCardJson = (raw: string): ParsedCardText => {
+  const cards = JSON.parse(raw);
+  if (!Array.isArray(cards)) throw new Error('Invalid format');
+
+  return {
+    cards: cards.map((c, i) => ({
+      id: c.name || `card-${i}`,
+      name: c.name || `Card ${i + 1}`,
+      shortDescription: c.shortDescription || '',
+      longDescription: c.longDescription || ''
+    })),
+    warnings: []
+  };
+};
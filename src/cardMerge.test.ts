@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { applyCardMerge, normalizeCardName, planCardMerge, referencedCardIds } from './cardMerge';
+import type { Card, Group } from './types';
+
+const card = (id: string, name: string, shortDescription = `${name} meaning.`): Card =>
+  ({ id, name, shortDescription, longDescription: '' });
+
+const library = [card('AXE', 'AXE'), card('BAT', 'BAT'), card('WIND CHIMES', 'WIND CHIMES'), card('OWL', 'OWL')];
+
+const groups: Group[] = [{
+  id: 'g1',
+  name: 'Thursday',
+  members: [],
+  yearReadings: { 2025: { Ann: { personName: 'Ann', year: 2025, readings: [{ month: 'January', cardIds: ['OWL', 'AXE', 'BAT', 'WIND CHIMES'] }] } } }
+}];
+
+const incoming = [
+  card('AXE', 'AXE'),
+  card('BAT', 'BAT', 'A false friend.'),
+  card('WI ND CH IMES', 'WI ND CH IMES', 'WIND CHIMES meaning.'),
+  card('SUN', 'SUN')
+];
+
+const statuses = (entries: ReturnType<typeof planCardMerge>) =>
+  Object.fromEntries(entries.map(entry => [(entry.existing || entry.incoming)!.name, entry.status]));
+
+describe('cardMerge', () => {
+  it('matches names however the scan spaced them', () => {
+    expect(normalizeCardName('Wind Chimes')).toBe(normalizeCardName('WI ND CH IMES'));
+  });
+
+  it('sorts every card into added, changed, unchanged or missing', () => {
+    const entries = planCardMerge(library, incoming, new Set());
+    expect(statuses(entries)).toEqual({ AXE: 'unchanged', BAT: 'changed', 'WIND CHIMES': 'changed', SUN: 'added', OWL: 'missing' });
+    expect(entries.find(entry => entry.key === 'BAT')!.diffs).toEqual([{ field: 'shortDescription', existing: 'BAT meaning.', incoming: 'A false friend.' }]);
+  });
+
+  it('keeps library IDs and only adds or removes what was chosen', () => {
+    const entries = planCardMerge(library, incoming, new Set());
+    const merged = applyCardMerge(library, entries, { BAT: 'incoming', 'WIND CHIMES': 'existing', OWL: 'incoming' });
+    expect(merged.map(c => [c.id, c.shortDescription])).toEqual([
+      ['AXE', 'AXE meaning.'],
+      ['BAT', 'A false friend.'],
+      ['WIND CHIMES', 'WIND CHIMES meaning.'],
+      ['SUN', 'SUN meaning.']
+    ]);
+  });
+
+  it('never removes a card used in a saved reading', () => {
+    const entries = planCardMerge(library, incoming, referencedCardIds(groups));
+    expect(entries.find(entry => entry.key === 'OWL')!.referenced).toBe(true);
+    expect(applyCardMerge(library, entries, { OWL: 'incoming' }).map(c => c.id)).toContain('OWL');
+  });
+
+  it('gives an added card a free ID', () => {
+    const entries = planCardMerge([card('AXE', 'HATCHET')], [card('AXE', 'HATCHET'), card('AXE', 'AXE')], new Set());
+    expect(applyCardMerge([card('AXE', 'HATCHET')], entries, {}).map(c => c.id)).toEqual(['AXE', 'AXE-2']);
+  });
+});
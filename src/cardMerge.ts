@@ -0,0 +1,133 @@
+import { keepReviewedTags } from './cardTags';
+import type { Card, Group } from './types';
+
+export type MergeStatus = 'added' | 'changed' | 'unchanged' | 'missing';
+
+// existing: keep the library's version (for added cards: don't add it)
+// incoming: take the imported version (for missing cards: remove it)
+export type MergeChoice = 'existing' | 'incoming';
+
+type MergedField = 'name' | 'shortDescription' | 'longDescription';
+
+export interface FieldDiff {
+  field: MergedField;
+  existing: string;
+  incoming: string;
+}
+
+export interface CardMergeEntry {
+  key: string;
+  status: MergeStatus;
+  existing?: Card;
+  incoming?: Card;
+  diffs: FieldDiff[];
+  // Used in at least one saved reading, so it can never be removed
+  referenced: boolean;
+}
+
+const MERGED_FIELDS: MergedField[] = ['name', 'shortDescription', 'longDescription'];
+
+// "Wind Chimes", "WIND CHIMES" and "WI ND CH IMES" all match.
+export const normalizeCardName = (name: string) => name.toUpperCase().replace(/[^A-Z0-9&]/g, '');
+
+export const referencedCardIds = (groups: Group[]) => {
+  const ids = new Set<string>();
+  groups.forEach(group => {
+    Object.values(group.yearReadings).forEach(yearData => {
+      Object.values(yearData).forEach(reading => {
+        reading.readings.forEach(month => month?.cardIds.forEach(id => ids.add(id)));
+      });
+    });
+  });
+  return ids;
+};
+
+export const diffCards = (existing: Card, incoming: Card): FieldDiff[] =>
+  MERGED_FIELDS
+    .filter(field => existing[field] !== incoming[field])
+    .map(field => ({ field, existing: existing[field], incoming: incoming[field] }));
+
+// Pairs each incoming card with an existing card by ID, then by normalized name.
+// `referenced` holds the cards readings use, trashed readings included (see
+// trash.ts cardIdsInUse); those are never removed.
+export const planCardMerge = (existingCards: Card[], incomingCards: Card[], referenced: Set<string>): CardMergeEntry[] => {
+  const byId = new Map(existingCards.map(card => [card.id, card]));
+  const byName = new Map<string, Card>();
+  existingCards.forEach(card => {
+    const name = normalizeCardName(card.name);
+    if (!byName.has(name)) byName.set(name, card);
+  });
+
+  const matched = new Set<string>();
+  const entries: CardMergeEntry[] = [];
+
+  incomingCards.forEach((incoming, idx) => {
+    let existing = byId.get(incoming.id);
+    if (!existing || matched.has(existing.id)) existing = byName.get(normalizeCardName(incoming.name));
+    if (existing && matched.has(existing.id)) existing = undefined;
+
+    if (!existing) {
+      entries.push({ key: `incoming-${idx}`, status: 'added', incoming, diffs: [], referenced: false });
+      return;
+    }
+
+    matched.add(existing.id);
+    const diffs = diffCards(existing, incoming);
+    entries.push({
+      key: existing.id,
+      status: diffs.length > 0 ? 'changed' : 'unchanged',
+      existing,
+      incoming,
+      diffs,
+      referenced: referenced.has(existing.id)
+    });
+  });
+
+  existingCards
+    .filter(card => !matched.has(card.id))
+    .forEach(existing => {
+      entries.push({ key: existing.id, status: 'missing', existing, diffs: [], referenced: referenced.has(existing.id) });
+    });
+
+  return entries;
+};
+
+export const defaultMergeChoice = (entry: CardMergeEntry): MergeChoice =>
+  entry.status === 'added' ? 'incoming' : 'existing';
+
+// Builds the new library. Existing cards keep their IDs and order; added cards go last.
+// Removed cards are simply left out; trash.ts replaceCards sends them to the trash.
+export const applyCardMerge = (
+  existingCards: Card[],
+  entries: CardMergeEntry[],
+  choices: Record<string, MergeChoice>
+): Card[] => {
+  const choiceFor = (entry: CardMergeEntry) => choices[entry.key] || defaultMergeChoice(entry);
+  const byExistingId = new Map(entries.filter(e => e.existing).map(e => [e.existing!.id, e]));
+
+  const kept = existingCards.flatMap(card => {
+    const entry = byExistingId.get(card.id);
+    if (!entry) return [card];
+
+    const choice = choiceFor(entry);
+    if (entry.status === 'missing') {
+      return choice === 'incoming' && !entry.referenced ? [] : [card];
+    }
+    if (entry.status === 'changed' && choice === 'incoming') {
+      return [{ ...keepReviewedTags(card, entry.incoming!), id: card.id }];
+    }
+    return [card];
+  });
+
+  const ids = new Set(kept.map(card => card.id));
+  const added = entries
+    .filter(entry => entry.status === 'added' && choiceFor(entry) === 'incoming')
+    .map(entry => {
+      let id = entry.incoming!.id;
+      for (let n = 2; ids.has(id); n++) id = `${entry.incoming!.id}-${n}`;
+      ids.add(id);
+      return { ...entry.incoming!, id };
+    });
+
+  return [...kept, ...added];
+};
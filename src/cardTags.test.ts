@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { applyCardMerge, planCardMerge } from './cardMerge';
+import { EMPTY_TAG_FILTER, matchesTagFilter, setCardTags, suggestCardTags, withSuggestedTags } from './cardTags';
+import type { Card } from './types';
+
+const card = (name: string, shortDescription: string, longDescription = ''): Card =>
+  ({ id: name, name, shortDescription, longDescription });
+
+describe('card tags', () => {
+  it('proposes sentiment, themes and connecting cards from the text', () => {
+    expect(suggestCardTags(card('BEAR', 'Danger, especially in money matters.'))).toEqual({
+      sentiment: 'negative', themes: ['money'], needsConnecting: undefined
+    });
+    expect(suggestCardTags(card('ANT', 'Work, achievement, success.'))).toMatchObject({ sentiment: 'positive', themes: ['work'] });
+    expect(suggestCardTags(card('BELL', 'Announcement.', 'Check connecting cards to see what the news is about.'))).toEqual({
+      sentiment: 'neutral', themes: ['news'], needsConnecting: true
+    });
+    expect(suggestCardTags(card('FLUTE', 'Disappointment in a friend or lover.')).sentiment).toBe('ambiguous');
+  });
+
+  it('does not read "working" as a work theme', () => {
+    expect(suggestCardTags(card('AXE', 'Forces working against you.')).themes).toBeUndefined();
+  });
+
+  it('only proposes tags for untagged cards, and marks them for review', () => {
+    const reviewed = { ...card('EAR', 'Good news.'), sentiment: 'neutral' as const };
+    const [proposed, kept] = withSuggestedTags([card('BEAR', 'Danger.'), reviewed]);
+    expect(proposed).toMatchObject({ sentiment: 'negative', autoTagged: true });
+    expect(kept).toBe(reviewed);
+    expect(setCardTags(proposed, proposed).autoTagged).toBeUndefined();
+  });
+
+  it('keeps reviewed tags when an import replaces the card text', () => {
+    const existing = { ...card('BEAR', 'Danger.'), sentiment: 'ambiguous' as const, themes: ['money' as const] };
+    const incoming = withSuggestedTags([card('BEAR', 'Danger, especially in love.')]);
+    const plan = planCardMerge([existing], incoming, new Set());
+    const [merged] = applyCardMerge([existing], plan, { BEAR: 'incoming' });
+    expect(merged).toMatchObject({ shortDescription: 'Danger, especially in love.', sentiment: 'ambiguous', themes: ['money'] });
+    expect(merged.autoTagged).toBeUndefined();
+  });
+
+  it('filters on every tag field', () => {
+    const cards = withSuggestedTags([card('BEAR', 'Danger, especially in money matters.'), card('ANT', 'Work, achievement, success.')]);
+    const names = (filter: Partial<typeof EMPTY_TAG_FILTER>) =>
+      cards.filter(c => matchesTagFilter(c, { ...EMPTY_TAG_FILTER, ...filter })).map(c => c.name);
+    expect(names({ sentiment: 'negative' })).toEqual(['BEAR']);
+    expect(names({ theme: 'work' })).toEqual(['ANT']);
+    expect(names({ unreviewed: true })).toEqual(['BEAR', 'ANT']);
+    expect(names({ sentiment: 'untagged' })).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import type { Card, CardSentiment, CardTheme } from './types';
+
+// Structured meanings for the deck, plus a rule-based tagger that proposes them
+// from the card text. Proposals are marked autoTagged until someone reviews them.
+
+export const SENTIMENT_LABELS: Record<CardSentiment, string> = {
+  positive: 'Positive',
+  negative: 'Negative',
+  neutral: 'Neutral',
+  ambiguous: 'Ambiguous'
+};
+
+export const CARD_SENTIMENTS = Object.keys(SENTIMENT_LABELS) as CardSentiment[];
+
+export const THEME_LABELS: Record<CardTheme, string> = {
+  money: 'Money',
+  love: 'Love',
+  work: 'Work',
+  health: 'Health',
+  travel: 'Travel',
+  news: 'News',
+  people: 'People'
+};
+
+export const CARD_THEMES = Object.keys(THEME_LABELS) as CardTheme[];
+
+export type CardTags = Pick<Card, 'sentiment' | 'themes' | 'needsConnecting'>;
+
+// Word stems as regular expressions; each matches at the start of a word, so
+// "prosper" also finds "prosperity", while "work\b" leaves out "working"
+const POSITIVE_CUES = [
+  'lucky', 'luck', 'good fortune', 'success', 'achieve', 'prosper', 'abundan', 'plenty', 'happ', 'joy', 'pleasure',
+  'protect', 'opportunit', 'gift', 'reward', 'gain', 'honor', 'respect', 'recogni', 'compliment', 'admirer',
+  'good news', 'for the better', 'wish will be granted', 'wishes come true', 'overcom', 'windfall', 'celebrat', 'love',
+  'guidance', 'triumph', 'victory', 'well-being', 'peace', 'harmony', 'reconcil', 'taken care of', 'is over'
+];
+
+const NEGATIVE_CUES = [
+  'beware', 'warn', 'forewarn', 'danger', 'trouble', 'loss', 'lose', 'enem', 'against you', 'against your',
+  'difficult', 'problem', 'ill\\b', 'illness', 'sick', 'worr', 'fear', 'tense', 'accus', 'deceit', 'deceiv', 'jealous',
+  'quarrel', 'disappoint', 'dissatisf', 'unsuccessful', 'not be granted', 'two-faced', 'tempt', 'take care',
+  'be careful', 'risk', 'parting', 'lacking', 'leaving your life', 'going out of your life', 'opposition', 'criticism',
+  'sorrow', 'heartache', 'depress', 'anxi', 'frustrat', 'discord', 'misunderstand', 'unsettled', 'pinch', 'gossip',
+  'undependable', 'insincere', 'stubborn', 'arrogant', 'greed', 'pride', 'delusion', 'muddled', 'anger', 'harm'
+];
+
+const THEME_CUES: Record<CardTheme, string[]> = {
+  money: ['money', 'financ', 'wealth', 'rich', 'prosper', 'inherit', 'winnings', 'windfall', 'raise', 'property', 'material', 'debt', 'profit', 'income'],
+  love: ['love', 'romanc', 'romantic', 'marri', 'wedding', 'engage', 'admirer', 'lover', 'sweetheart', 'affection', 'courtship'],
+  work: ['work\\b', 'job', 'career', 'business', 'employ', 'promotion', 'achieve', 'enterprise', 'effort', 'task', 'colleague'],
+  health: ['health', 'ill\\b', 'illness', 'sick', 'heal', 'recover', 'doctor', 'hospital', 'injur', 'accident', 'birth', 'conception'],
+  travel: ['travel', 'journey', 'trip', 'abroad', 'voyage', 'holiday', 'vacation', 'distant', 'far away', 'new home', 'move'],
+  news: ['news', 'letter', 'message', 'announce', 'package', 'communicat', 'information', 'hear from', 'telephone', 'invitation'],
+  people: ['friend', 'family', 'relative', 'stranger', 'someone', 'a man', 'a woman', 'child', 'enem', 'social', 'neighbo', 'admirer', 'visitor']
+};
+
+const NEEDS_CONNECTING_CUES = ['connecting card', 'surrounding card', 'cards around', 'does not specify', 'does not say which'];
+
+const cueCount = (text: string, cues: string[]) =>
+  cues.filter(cue => new RegExp(`\\b${cue}`, 'i').test(text)).length;
+
+// The short description states the meaning, so it counts double against the story in the long one
+export const suggestCardTags = (card: Pick<Card, 'shortDescription' | 'longDescription'>): CardTags => {
+  const short = card.shortDescription;
+  const all = `${card.shortDescription} ${card.longDescription}`;
+
+  const positive = cueCount(short, POSITIVE_CUES) * 2 + cueCount(card.longDescription, POSITIVE_CUES);
+  const negative = cueCount(short, NEGATIVE_CUES) * 2 + cueCount(card.longDescription, NEGATIVE_CUES);
+  let sentiment: CardSentiment = 'neutral';
+  if (positive > 0 && negative > 0 && Math.abs(positive - negative) <= 1) sentiment = 'ambiguous';
+  else if (positive > negative) sentiment = 'positive';
+  else if (negative > positive) sentiment = 'negative';
+
+  const themes = CARD_THEMES.filter(theme => cueCount(all, THEME_CUES[theme]) > 0);
+  return {
+    sentiment,
+    themes: themes.length > 0 ? themes : undefined,
+    needsConnecting: cueCount(all, NEEDS_CONNECTING_CUES) > 0 || undefined
+  };
+};
+
+export const isTagged = (card: Card) => card.sentiment !== undefined;
+
+// Proposes tags for cards that have none; tagged cards are left alone
+export const withSuggestedTags = (cards: Card[]): Card[] =>
+  cards.map(card => isTagged(card) ? card : { ...card, ...suggestCardTags(card), autoTagged: true });
+
+// Reviewed tags survive an import that replaces the card's text; proposals are redone
+export const keepReviewedTags = (existing: Card, incoming: Card): Card =>
+  isTagged(existing) && !existing.autoTagged
+    ? { ...incoming, sentiment: existing.sentiment, themes: existing.themes, needsConnecting: existing.needsConnecting, autoTagged: undefined }
+    : incoming;
+
+// Saving tags from the editor counts as reviewing them
+export const setCardTags = (card: Card, tags: CardTags): Card => ({
+  ...card,
+  sentiment: tags.sentiment,
+  themes: tags.themes && tags.themes.length > 0 ? CARD_THEMES.filter(theme => tags.themes!.includes(theme)) : undefined,
+  needsConnecting: tags.needsConnecting || undefined,
+  autoTagged: undefined
+});
+
+export interface CardTagFilter {
+  sentiment: CardSentiment | '' | 'untagged';
+  theme: CardTheme | '';
+  needsConnecting: boolean;
+  unreviewed: boolean;
+}
+
+export const EMPTY_TAG_FILTER: CardTagFilter = { sentiment: '', theme: '', needsConnecting: false, unreviewed: false };
+
+export const matchesTagFilter = (card: Card, filter: CardTagFilter) =>
+  (filter.sentiment === '' || (filter.sentiment === 'untagged' ? !isTagged(card) : card.sentiment === filter.sentiment)) &&
+  (filter.theme === '' || !!card.themes?.includes(filter.theme)) &&
+  (!filter.needsConnecting || !!card.needsConnecting) &&
+  (!filter.unreviewed || !!card.autoTagged);
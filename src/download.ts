@@ -0,0 +1,12 @@
+// Saves text content as a file through a temporary object URL.
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const dateStamp = (date = new Date()) => date.toISOString().slice(0, 10);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { checkDrawLog, dealCards, replayMatches, shuffleIds } from './draw';
+import type { Card, DrawLogEntry, PersonYearReading } from './types';
+
+const ids = Array.from({ length: 60 }, (_, i) => `c${String(i).padStart(2, '0')}`);
+const cards: Card[] = ids.map(id => ({ id, name: id.toUpperCase(), shortDescription: '', longDescription: '' }));
+
+// Deals a whole year the way draw mode does, each slot from the cards still left
+const dealYear = (seed: string, slots = 12, perSlot = 4) => {
+  const log: DrawLogEntry[] = [];
+  const drawn = new Set<string>();
+  for (let slot = 0; slot < slots; slot++) {
+    const entry = dealCards(ids.filter(id => !drawn.has(id)), perSlot, seed, slot, 1);
+    entry.cardIds.forEach(id => drawn.add(id));
+    log.push(entry);
+  }
+  return log;
+};
+
+const readingFrom = (seed: string, log: DrawLogEntry[]): PersonYearReading => ({
+  personName: 'Ann',
+  year: 2025,
+  spreadId: 'monthly-4',
+  readings: log.map(entry => ({ month: `Slot ${entry.slot}`, cardIds: entry.cardIds })),
+  drawSeed: seed,
+  drawLog: log
+});
+
+describe('draw', () => {
+  it('shuffles the same way for a seed, whatever order the IDs come in', () => {
+    expect(shuffleIds(ids, 'abc')).toEqual(shuffleIds([...ids].reverse(), 'abc'));
+    expect(shuffleIds(ids, 'abc')).not.toEqual(shuffleIds(ids, 'abd'));
+    expect([...shuffleIds(ids, 'abc')].sort()).toEqual(ids);
+  });
+
+  it('deals the same cards for the same seed, slot and attempt', () => {
+    expect(dealCards(ids, 4, 'abc', 3, 1).cardIds).toEqual(dealCards(ids, 4, 'abc', 3, 1).cardIds);
+    expect(dealCards(ids, 4, 'abc', 3, 1).cardIds).not.toEqual(dealCards(ids, 4, 'abc', 3, 2).cardIds);
+  });
+
+  it('never repeats a card within a year', () => {
+    const drawn = dealYear('year').flatMap(entry => entry.cardIds);
+    expect(drawn).toHaveLength(48);
+    expect(new Set(drawn).size).toBe(48);
+  });
+
+  it('replays a logged deal and catches a tampered one', () => {
+    const entry = dealCards(ids, 4, 'abc', 0, 1);
+    expect(replayMatches(entry, ids, 'abc')).toBe(true);
+    expect(replayMatches({ ...entry, cardIds: [...entry.cardIds.slice(0, 3), 'c59'] }, ids, 'abc')).toBe(false);
+    expect(replayMatches(entry, ids, 'abd')).toBe(false);
+    expect(replayMatches(entry, ids.slice(1), 'abc')).toBe(false);
+  });
+
+  it('checks a saved year against its seed', () => {
+    const log = dealYear('year', 3);
+    expect(checkDrawLog(cards, readingFrom('year', log))).toEqual(['matches', 'matches', 'matches']);
+
+    const tampered = [log[0], { ...log[1], cardIds: [...log[1].cardIds].reverse() }, log[2]];
+    expect(checkDrawLog(cards, readingFrom('year', tampered))).toEqual(['matches', 'differs', 'matches']);
+
+    const archived = cards.map(card => card.id === 'c00' ? { ...card, archived: true } : card);
+    expect(checkDrawLog(archived, readingFrom('year', log))).toEqual(['unknown', 'unknown', 'unknown']);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Card, DrawLogEntry, PersonYearReading } from './types';
+
+// Digital draws. Every deal is a seeded shuffle of the cards still available,
+// so anyone holding the seed and the draw log can repeat it exactly.
+
+export const newDrawSeed = () => {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// cyrb53-style string hash, reduced to the 32-bit state mulberry32 needs
+const hashSeed = (seed: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  return h1 >>> 0;
+};
+
+// mulberry32: small, fast and good enough for shuffling a deck
+export const seededRandom = (seed: string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher–Yates over a copy; the input order doesn't change the result
+// because ids are sorted first.
+export const shuffleIds = (ids: string[], seed: string) => {
+  const deck = [...ids].sort();
+  const random = seededRandom(seed);
+  for (let i = deck.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck;
+};
+
+// Each slot and each re-deal gets its own seed derived from the reading's seed
+export const slotSeed = (readingSeed: string, slot: number, attempt: number) => `${readingSeed}:${slot}:${attempt}`;
+
+export const dealCards = (poolIds: string[], count: number, readingSeed: string, slot: number, attempt: number): DrawLogEntry => ({
+  slot,
+  attempt,
+  drawnAt: new Date().toISOString(),
+  poolSize: poolIds.length,
+  cardIds: shuffleIds(poolIds, slotSeed(readingSeed, slot, attempt)).slice(0, count)
+});
+
+// True when dealing again from the given pool gives the logged cards
+export const replayMatches = (entry: DrawLogEntry, poolIds: string[], readingSeed: string) =>
+  poolIds.length === entry.poolSize &&
+  dealCards(poolIds, entry.cardIds.length, readingSeed, entry.slot, entry.attempt).cardIds.join() === entry.cardIds.join();
+
+// 'unknown' when the pool can't be rebuilt: the library has changed since, or
+// a slot entered by hand was saved after the deal
+export type DrawCheck = 'matches' | 'differs' | 'unknown';
+
+// Deals each logged slot again from the pool it had: the library's current
+// cards, less those of slots saved before it. Hand-entered slots are taken to
+// have come first; the logged pool size tells when that guess is wrong.
+export const checkDrawLog = (cards: Card[], reading: PersonYearReading): DrawCheck[] => {
+  const log = reading.drawLog || [];
+  const dealtSlots = new Set(log.map(entry => entry.slot));
+  const library = cards.filter(card => !card.archived).map(card => card.id);
+  return log.map((entry, i): DrawCheck => {
+    if (!reading.drawSeed) return 'unknown';
+    const earlier = new Set(log.slice(0, i).map(other => other.slot));
+    const blocked = new Set(reading.readings.flatMap((month, slot) =>
+      month && slot !== entry.slot && (earlier.has(slot) || !dealtSlots.has(slot)) ? month.cardIds : []
+    ));
+    const pool = library.filter(id => !blocked.has(id));
+    if (pool.length !== entry.poolSize) return 'unknown';
+    return replayMatches(entry, pool, reading.drawSeed) ? 'matches' : 'differs';
+  });
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { blockedCardIds, initialWizard, nextOpenSlot, wizardReducer, type WizardState } from './entryWizard';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { MonthReading, PersonYearReading } from './types';
+
+const monthly = BUILT_IN_SPREADS.find(spread => spread.id === 'monthly-4')!;
+const single = BUILT_IN_SPREADS.find(spread => spread.id === 'past-present-future')!;
+
+const slot = (month: string, prefix: string): MonthReading => ({ month, cardIds: [1, 2, 3, 4].map(n => `${prefix}${n}`) });
+
+// A monthly reading with the given month indexes saved
+const readingWith = (months: number[]): PersonYearReading => {
+  const readings: MonthReading[] = [];
+  months.forEach(idx => { readings[idx] = slot(`Month ${idx + 1}`, `m${idx}-`); });
+  return { personName: 'Ann', year: 2025, readings, spreadId: monthly.id };
+};
+
+const choosingPerson = (): WizardState =>
+  wizardReducer(initialWizard(2025, monthly.id), { type: 'selectGroup', groupId: 'g1', spreadId: monthly.id });
+
+const enter = (reading: PersonYearReading | undefined, spread = monthly) =>
+  wizardReducer(choosingPerson(), { type: 'selectPerson', personName: 'Ann', reading, spread });
+
+describe('nextOpenSlot', () => {
+  it('finds the first slot without a full spread, skipping holes', () => {
+    expect(nextOpenSlot(readingWith([0, 1, 3]), monthly)).toBe(2);
+  });
+
+  it('treats a slot with too few cards as open', () => {
+    const reading = readingWith([0]);
+    reading.readings[0] = { month: 'January', cardIds: ['a', 'b'] };
+    expect(nextOpenSlot(reading, monthly)).toBe(0);
+  });
+
+  it('wraps round from the starting slot', () => {
+    expect(nextOpenSlot(readingWith([0, 1, 2, 3, 4, 5, 6, 7, 8, 10, 11]), monthly, 10)).toBe(9);
+  });
+
+  it('returns -1 when every slot is full', () => {
+    expect(nextOpenSlot(readingWith([...Array(12).keys()]), monthly)).toBe(-1);
+  });
+});
+
+describe('wizardReducer', () => {
+  it('moves from group to person selection', () => {
+    const state = choosingPerson();
+    expect(state.step).toBe('choosePerson');
+    expect(state.groupId).toBe('g1');
+  });
+
+  it('starts a new reading at the first slot', () => {
+    const state = enter(undefined);
+    expect(state).toMatchObject({ step: 'enterCards', slot: 0, editing: false, cardIds: [] });
+  });
+
+  it('resumes at the first open slot, not after the last saved one', () => {
+    expect(enter(readingWith([0, 1, 4])).slot).toBe(2);
+  });
+
+  it('shows a full reading as complete', () => {
+    expect(enter(readingWith([...Array(12).keys()])).step).toBe('complete');
+  });
+
+  it('does not count twelve entries with a hole as complete', () => {
+    const reading = readingWith([...Array(12).keys()]);
+    delete reading.readings[5];
+    const state = enter(reading);
+    expect(state).toMatchObject({ step: 'enterCards', slot: 5 });
+  });
+
+  it('skips to any open slot', () => {
+    const reading = readingWith([0]);
+    const state = wizardReducer(enter(reading), { type: 'goToSlot', slot: 7, reading, spread: monthly });
+    expect(state).toMatchObject({ step: 'enterCards', slot: 7, editing: false });
+  });
+
+  it('does not skip to a saved slot or past the end', () => {
+    const reading = readingWith([0, 3]);
+    const start = enter(reading);
+    expect(wizardReducer(start, { type: 'goToSlot', slot: 3, reading, spread: monthly })).toBe(start);
+    expect(wizardReducer(start, { type: 'goToSlot', slot: 12, reading, spread: monthly })).toBe(start);
+  });
+
+  it('moves on to the next open slot after saving, wrapping round to skipped ones', () => {
+    let reading = readingWith([]);
+    let state = wizardReducer(enter(reading), { type: 'goToSlot', slot: 10, reading, spread: monthly });
+
+    reading = readingWith([10]);
+    state = wizardReducer(state, { type: 'slotSaved', reading, spread: monthly });
+    expect(state.slot).toBe(11);
+
+    reading = readingWith([10, 11]);
+    state = wizardReducer(state, { type: 'slotSaved', reading, spread: monthly });
+    expect(state.slot).toBe(0);
+  });
+
+  it('completes when the last open slot is saved', () => {
+    const reading = readingWith([...Array(12).keys()].filter(idx => idx !== 6));
+    const state = enter(reading);
+    expect(state.slot).toBe(6);
+    const saved = wizardReducer(state, { type: 'slotSaved', reading: readingWith([...Array(12).keys()]), spread: monthly });
+    expect(saved.step).toBe('complete');
+  });
+
+  it('completes a single-slot spread after one save', () => {
+    const reading: PersonYearReading = { personName: 'Ann', year: 2025, readings: [{ month: 'Reading', cardIds: ['a', 'b', 'c'] }] };
+    const state = wizardReducer(enter(undefined, single), { type: 'slotSaved', reading, spread: single });
+    expect(state.step).toBe('complete');
+  });
+
+  it('opens a saved slot with its cards for correction and resumes afterwards', () => {
+    const reading = readingWith([0, 1]);
+    const editing = wizardReducer(enter(reading), { type: 'editSlot', slot: 0, reading });
+    expect(editing).toMatchObject({ step: 'enterCards', slot: 0, editing: true, cardIds: ['m0-1', 'm0-2', 'm0-3', 'm0-4'] });
+
+    const saved = wizardReducer(editing, { type: 'slotSaved', reading, spread: monthly });
+    expect(saved).toMatchObject({ step: 'enterCards', slot: 2, editing: false, cardIds: [] });
+  });
+
+  it('can correct a slot of a completed reading', () => {
+    const reading = readingWith([...Array(12).keys()]);
+    const editing = wizardReducer(enter(reading), { type: 'editSlot', slot: 4, reading });
+    expect(editing).toMatchObject({ step: 'enterCards', slot: 4, editing: true });
+    expect(wizardReducer(editing, { type: 'stopEditing', reading, spread: monthly }).step).toBe('complete');
+  });
+
+  it('only accepts cards while entering', () => {
+    const state = choosingPerson();
+    expect(wizardReducer(state, { type: 'setCards', cardIds: ['a'] })).toBe(state);
+  });
+
+  it('goes back to person selection, keeping group and year', () => {
+    const state = wizardReducer(enter(readingWith([0])), { type: 'changePerson' });
+    expect(state).toMatchObject({ step: 'choosePerson', groupId: 'g1', year: 2025, personName: '', slot: 0 });
+  });
+
+  it('starts a session turn at the given person and slot', () => {
+    const reading = readingWith([0, 1]);
+    const state = wizardReducer(initialWizard(2024, monthly.id), {
+      type: 'startTask', groupId: 'g2', year: 2025, personName: 'Ann', slot: 2, reading, spread: monthly
+    });
+    expect(state).toMatchObject({ step: 'enterCards', groupId: 'g2', year: 2025, personName: 'Ann', slot: 2, editing: false });
+  });
+
+  it('resumes instead when a session turn points at a saved slot', () => {
+    const reading = readingWith([0, 1]);
+    const state = wizardReducer(choosingPerson(), { type: 'startTask', groupId: 'g1', year: 2025, personName: 'Ann', slot: 0, reading, spread: monthly });
+    expect(state).toMatchObject({ step: 'enterCards', slot: 2 });
+  });
+
+  it('drops the person when the year changes', () => {
+    const state = wizardReducer(enter(undefined), { type: 'selectYear', year: 2026 });
+    expect(state).toMatchObject({ step: 'choosePerson', year: 2026, personName: '' });
+  });
+});
+
+describe('blockedCardIds', () => {
+  it('blocks cards from every other saved slot, before and after the current one', () => {
+    const reading = readingWith([0, 2, 5]);
+    const state = wizardReducer(enter(reading), { type: 'editSlot', slot: 2, reading });
+    const blocked = blockedCardIds(state, reading);
+    expect(blocked.has('m0-1')).toBe(true);
+    expect(blocked.has('m5-4')).toBe(true);
+    expect(blocked.has('m2-1')).toBe(false);
+  });
+
+  it('blocks nothing for a new reading', () => {
+    expect(blockedCardIds(enter(undefined), undefined).size).toBe(0);
+  });
+});
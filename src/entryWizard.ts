@@ -0,0 +1,137 @@
+import { cardIdsInOtherSlots } from './readings';
+import { isSlotComplete, periodSlots } from './spreads';
+import type { PersonYearReading, Spread } from './types';
+
+// EnterReading's progression as a pure state machine:
+//   chooseGroup -> choosePerson (with year and spread) -> enterCards -> complete
+// Entering resumes at the first slot without a full spread. Open slots can be
+// skipped and filled in any order, and saved slots can be reopened to correct them.
+// The component resolves the group and reading from AppData on every render and
+// passes them in with the events, so the state never holds stale copies.
+
+export type WizardStep = 'chooseGroup' | 'choosePerson' | 'enterCards' | 'complete';
+
+export interface WizardState {
+  step: WizardStep;
+  groupId: string;
+  year: number;
+  // Spread for a reading that hasn't been started; a started reading keeps its own
+  spreadId: string;
+  personName: string;
+  // Slot being filled in, or corrected when editing
+  slot: number;
+  editing: boolean;
+  // Chosen cards by spread position; null where none has been chosen yet
+  cardIds: (string | null)[];
+}
+
+export type WizardEvent =
+  | { type: 'selectGroup'; groupId: string; spreadId: string }
+  | { type: 'selectYear'; year: number }
+  | { type: 'selectSpread'; spreadId: string }
+  | { type: 'selectPerson'; personName: string; reading: PersonYearReading | undefined; spread: Spread }
+  | { type: 'goToSlot'; slot: number; reading: PersonYearReading | undefined; spread: Spread }
+  | { type: 'editSlot'; slot: number; reading: PersonYearReading | undefined }
+  | { type: 'setCards'; cardIds: (string | null)[] }
+  | { type: 'slotSaved'; reading: PersonYearReading; spread: Spread }
+  | { type: 'stopEditing'; reading: PersonYearReading | undefined; spread: Spread }
+  | { type: 'changePerson' }
+  // Jumps straight to a person's slot, e.g. the next turn in a group session
+  | { type: 'startTask'; groupId: string; year: number; personName: string; slot: number; reading: PersonYearReading | undefined; spread: Spread };
+
+export const initialWizard = (year: number, spreadId: string): WizardState => ({
+  step: 'chooseGroup',
+  groupId: '',
+  year,
+  spreadId,
+  personName: '',
+  slot: 0,
+  editing: false,
+  cardIds: []
+});
+
+// The first slot without a full spread, starting at `from` and wrapping round;
+// -1 when every slot is full.
+export const nextOpenSlot = (reading: PersonYearReading | undefined, spread: Spread, from = 0) => {
+  const count = periodSlots(spread.period).length;
+  for (let i = 0; i < count; i++) {
+    const slot = (from + i) % count;
+    if (!isSlotComplete(reading?.readings[slot], spread)) return slot;
+  }
+  return -1;
+};
+
+const resume = (state: WizardState, reading: PersonYearReading | undefined, spread: Spread, from = 0): WizardState => {
+  const slot = nextOpenSlot(reading, spread, from);
+  return slot === -1
+    ? { ...state, step: 'complete', slot: 0, editing: false, cardIds: [] }
+    : { ...state, step: 'enterCards', slot, editing: false, cardIds: [] };
+};
+
+const leaveReading = (state: WizardState): WizardState =>
+  ({ ...state, personName: '', slot: 0, editing: false, cardIds: [] });
+
+export const wizardReducer = (state: WizardState, event: WizardEvent): WizardState => {
+  switch (event.type) {
+    case 'selectGroup':
+      return {
+        ...leaveReading(state),
+        step: event.groupId ? 'choosePerson' : 'chooseGroup',
+        groupId: event.groupId,
+        spreadId: event.spreadId
+      };
+
+    case 'selectYear':
+      return { ...leaveReading(state), step: state.groupId ? 'choosePerson' : 'chooseGroup', year: event.year };
+
+    case 'selectSpread':
+      return { ...state, spreadId: event.spreadId };
+
+    case 'selectPerson':
+      if (!state.groupId) return state;
+      if (!event.personName) return { ...leaveReading(state), step: 'choosePerson' };
+      return resume({ ...state, personName: event.personName }, event.reading, event.spread);
+
+    case 'goToSlot': {
+      if (state.step !== 'enterCards' && state.step !== 'complete') return state;
+      const inRange = event.slot >= 0 && event.slot < periodSlots(event.spread.period).length;
+      // Saved slots are reopened with editSlot, so their cards are loaded
+      if (!inRange || isSlotComplete(event.reading?.readings[event.slot], event.spread)) return state;
+      return { ...state, step: 'enterCards', slot: event.slot, editing: false, cardIds: [] };
+    }
+
+    case 'editSlot': {
+      if (state.step !== 'enterCards' && state.step !== 'complete') return state;
+      const month = event.reading?.readings[event.slot];
+      if (!month) return state;
+      return { ...state, step: 'enterCards', slot: event.slot, editing: true, cardIds: [...month.cardIds] };
+    }
+
+    case 'setCards':
+      return state.step === 'enterCards' ? { ...state, cardIds: event.cardIds } : state;
+
+    // A new slot moves on to the next open one after it; a correction goes back
+    // to wherever entry would resume.
+    case 'slotSaved':
+      return resume(state, event.reading, event.spread, state.editing ? 0 : state.slot + 1);
+
+    case 'stopEditing':
+      return state.editing ? resume(state, event.reading, event.spread) : state;
+
+    case 'changePerson':
+      return state.groupId ? { ...leaveReading(state), step: 'choosePerson' } : state;
+
+    case 'startTask': {
+      const target = { ...leaveReading(state), groupId: event.groupId, year: event.year, spreadId: event.spread.id, personName: event.personName };
+      const open = event.slot >= 0 && event.slot < periodSlots(event.spread.period).length &&
+        !isSlotComplete(event.reading?.readings[event.slot], event.spread);
+      return open
+        ? { ...target, step: 'enterCards', slot: event.slot }
+        : resume(target, event.reading, event.spread);
+    }
+  }
+};
+
+// Cards that can't go in the current slot: everything saved in the year's other slots
+export const blockedCardIds = (state: WizardState, reading: PersonYearReading | undefined) =>
+  reading ? cardIdsInOtherSlots(reading, state.slot) : new Set<string>();
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { readingsCsv, readingsIcs, readingsMarkdown } from './exports';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { AppData, Group, MonthReading } from './types';
+
+const quarterly = BUILT_IN_SPREADS.find(spread => spread.id === 'quarterly-4')!;
+
+const q2: MonthReading = {
+  month: 'Q2 (Apr–Jun)',
+  cardIds: ['bell', 'bird', 'bear', 'axe'],
+  cardNotes: ['', 'Says "soon", maybe', '', ''],
+  notes: 'Travel, then news',
+  reflection: { text: 'The letter came', accuracy: 'accurate', recordedAt: '2025-07-01T00:00:00.000Z' }
+};
+
+const readings: MonthReading[] = [];
+readings[1] = q2;
+
+const group: Group = {
+  id: 'g1',
+  name: 'Thursday',
+  members: [{ id: 'm1', name: 'Ann', joinedYears: [2025] }],
+  yearReadings: { 2025: { Ann: { personName: 'Ann', year: 2025, spreadId: quarterly.id, readings } } }
+};
+
+const data: AppData = {
+  schemaVersion: 7,
+  cards: [
+    { id: 'bell', name: 'BELL', shortDescription: 'News', longDescription: '' },
+    { id: 'bird', name: 'BIRD-FLYING', shortDescription: 'Good news, travel', longDescription: '' },
+    { id: 'bear', name: 'BEAR', shortDescription: 'Difficulty', longDescription: '' },
+    { id: 'axe', name: 'AXE', shortDescription: 'Trouble', longDescription: '' }
+  ],
+  groups: [group],
+  spreads: BUILT_IN_SPREADS,
+  trash: [],
+  settings: { theme: 'light' }
+};
+
+const ann = [group.yearReadings[2025].Ann];
+
+describe('exports', () => {
+  it('writes one CSV row per card, quoting where needed', () => {
+    const lines = readingsCsv(data, group, ann).trimEnd().split('\r\n');
+    expect(lines).toHaveLength(5);
+    expect(lines[2]).toBe('Thursday,2025,Ann,Q2 (Apr–Jun),2,Influence,bird,BIRD-FLYING,"Good news, travel","Says ""soon"", maybe","Travel, then news",Came true,The letter came');
+  });
+
+  it('writes Markdown with notes and reflections', () => {
+    const markdown = readingsMarkdown(data, group, ann);
+    expect(markdown).toContain('## Ann, 2025');
+    expect(markdown).toContain('### Q2 (Apr–Jun)');
+    expect(markdown).toContain('- **Influence:** BIRD-FLYING — Good news, travel (Says "soon", maybe)');
+    expect(markdown).toContain('How it turned out: Came true. The letter came');
+  });
+
+  it('writes an all-day event on the first day of each saved slot', () => {
+    const ics = readingsIcs(data, group, ann, new Date('2025-01-02T03:04:05.678Z'));
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250401\r\n');
+    expect(ics).toContain('DTEND;VALUE=DATE:20250402\r\n');
+    expect(ics).toContain('DTSTAMP:20250102T030405Z\r\n');
+    expect(ics).toContain('SUMMARY:Ann\'s reading: Q2 (Apr–Jun)');
+    // Folded lines never run past 75 bytes
+    expect(ics.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, '')).toContain('DESCRIPTION:Main theme: BELL\\nInfluence: BIRD-FLYING\\nOutcome: BEAR\\nConnecting: AXE\\n\\nNotes: Travel\\, then news');
+  });
+});
@@ -0,0 +1,164 @@
+import { ACCURACY_LABELS } from './notes';
+import { periodSlots, readingSpread, slotStartMonth } from './spreads';
+import type { AppData, Card, Group, PersonYearReading } from './types';
+
+// Readings written out for use elsewhere: CSV for spreadsheets, Markdown for
+// chats and iCalendar for calendar apps. Each takes the readings currently shown.
+
+interface ExportRow {
+  reading: PersonYearReading;
+  slot: number;
+  label: string;
+  position: string;
+  cardId: string;
+  card: Card | undefined;
+  note: string;
+}
+
+const cardMap = (data: AppData) => new Map<string, Card>(data.cards.map(card => [card.id, card]));
+
+const cardName = (card: Card | undefined, cardId: string) => card?.name ?? `Unknown card (${cardId})`;
+
+// Every saved slot of every reading, with its spread's labels
+const savedSlots = (data: AppData, group: Group, readings: PersonYearReading[]) =>
+  readings.flatMap(reading => {
+    const spread = readingSpread(data, group, reading);
+    const labels = periodSlots(spread.period);
+    return reading.readings.flatMap((month, slot) => month ? [{ reading, spread, slot, label: labels[slot] ?? month.month, month }] : []);
+  });
+
+const exportRows = (data: AppData, group: Group, readings: PersonYearReading[]): ExportRow[] => {
+  const cardsById = cardMap(data);
+  return savedSlots(data, group, readings).flatMap(({ reading, spread, slot, label, month }) =>
+    month.cardIds.map((cardId, position) => ({
+      reading,
+      slot,
+      label,
+      position: spread.positions[position] ?? `Card ${position + 1}`,
+      cardId,
+      card: cardsById.get(cardId),
+      note: month.cardNotes?.[position] || ''
+    }))
+  );
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_HEADER = [
+  'Group', 'Year', 'Person', 'Slot', 'Slot number', 'Position', 'Card ID', 'Card', 'Short description',
+  'Card note', 'Slot notes', 'Accuracy', 'Reflection'
+];
+
+// One row per card drawn; slot notes and reflections repeat on each card of the slot
+export const readingsCsv = (data: AppData, group: Group, readings: PersonYearReading[]) => {
+  const rows = exportRows(data, group, readings).map(row => {
+    const month = row.reading.readings[row.slot];
+    return [
+      group.name,
+      row.reading.year,
+      row.reading.personName,
+      row.label,
+      row.slot + 1,
+      row.position,
+      row.cardId,
+      cardName(row.card, row.cardId),
+      row.card?.shortDescription ?? '',
+      row.note,
+      month.notes ?? '',
+      month.reflection?.accuracy ? ACCURACY_LABELS[month.reflection.accuracy] : '',
+      month.reflection?.text ?? ''
+    ];
+  });
+  return [CSV_HEADER, ...rows].map(fields => fields.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+export const readingsMarkdown = (data: AppData, group: Group, readings: PersonYearReading[]) => {
+  const cardsById = cardMap(data);
+  const lines: string[] = [];
+  readings.forEach(reading => {
+    const spread = readingSpread(data, group, reading);
+    lines.push(`## ${reading.personName}, ${reading.year}`, '', `*${group.name} • ${spread.name}*`, '');
+    if (reading.notes) lines.push(reading.notes, '');
+    savedSlots(data, group, [reading]).forEach(({ label, month }) => {
+      lines.push(`### ${label}`, '');
+      month.cardIds.forEach((cardId, position) => {
+        const card = cardsById.get(cardId);
+        const note = month.cardNotes?.[position];
+        lines.push(`- **${spread.positions[position] ?? `Card ${position + 1}`}:** ${cardName(card, cardId)}` +
+          (card?.shortDescription ? ` — ${card.shortDescription}` : '') +
+          (note ? ` (${note})` : ''));
+      });
+      lines.push('');
+      if (month.notes) lines.push(`Notes: ${month.notes}`, '');
+      if (month.reflection) {
+        const accuracy = month.reflection.accuracy ? ` ${ACCURACY_LABELS[month.reflection.accuracy]}.` : '';
+        lines.push(`How it turned out:${accuracy} ${month.reflection.text}`.trimEnd(), '');
+      }
+    });
+  });
+  return `# ${group.name} readings\n\n${lines.join('\n').trimEnd()}\n`;
+};
+
+const icsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 bytes are folded onto continuation lines starting with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (year: number, month: number, day: number) =>
+  `${year}${String(month + 1).padStart(2, '0')}${String(day).padStart(2, '0')}`;
+
+const icsStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// One all-day event on the first day of each saved slot, listing its cards
+export const readingsIcs = (data: AppData, group: Group, readings: PersonYearReading[], now = new Date()) => {
+  const cardsById = cardMap(data);
+  const events = savedSlots(data, group, readings).flatMap(({ reading, spread, slot, label, month }) => {
+    const start = slotStartMonth(spread.period, slot);
+    const cards = month.cardIds.map((cardId, position) =>
+      `${spread.positions[position] ?? `Card ${position + 1}`}: ${cardName(cardsById.get(cardId), cardId)}`);
+    const description = [
+      ...cards,
+      ...(month.notes ? ['', `Notes: ${month.notes}`] : []),
+      ...(month.reflection?.text ? ['', `How it turned out: ${month.reflection.text}`] : [])
+    ].join('\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${group.id}-${reading.year}-${encodeURIComponent(reading.personName)}-${slot}@tea-leaf-reader`,
+      `DTSTAMP:${icsStamp(now)}`,
+      `DTSTART;VALUE=DATE:${icsDate(reading.year, start, 1)}`,
+      // All-day events end, exclusively, on the next day
+      `DTEND;VALUE=DATE:${icsDate(reading.year, start, 2)}`,
+      `SUMMARY:${icsText(`${reading.personName}'s reading: ${label}`)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Tea Leaf Fortune Reader//Readings//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${icsText(`${group.name} readings`)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
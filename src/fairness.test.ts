@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_ANALYTICS_FILTER, matchingSlots } from './analytics';
+import { shuffleIds } from './draw';
+import { fairnessCheck } from './fairness';
+import { BUILT_IN_SPREADS, FOUR_CARD_POSITIONS } from './spreads';
+import type { AppData, Card, Group, PersonYearReading } from './types';
+
+const cards: Card[] = Array.from({ length: 60 }, (_, i) => ({ id: `c${String(i).padStart(2, '0')}`, name: `CARD ${i}`, shortDescription: '', longDescription: '' }));
+const ids = cards.map(card => card.id);
+
+// Twelve four-card months without repeats, dealt from a shuffled deck
+const fairYear = (personName: string, year: number, rig = false): PersonYearReading => {
+  const order = shuffleIds(rig ? ids.filter(id => id !== 'c00') : ids, `${personName}-${year}`);
+  return {
+    personName,
+    year,
+    spreadId: 'monthly-4',
+    readings: Array.from({ length: 12 }, (_, slot) => {
+      const dealt = order.slice(slot * FOUR_CARD_POSITIONS.length, (slot + 1) * FOUR_CARD_POSITIONS.length);
+      // A sticky card: c00 turns up every month, in place of one of the dealt cards
+      return { month: `M${slot + 1}`, cardIds: rig ? ['c00', ...dealt.slice(1)] : dealt };
+    })
+  };
+};
+
+const dataWith = (rig: boolean): AppData => {
+  const yearReadings: Group['yearReadings'] = {};
+  [2022, 2023, 2024, 2025].forEach(year => {
+    yearReadings[year] = Object.fromEntries(['Ann', 'Bob', 'Cy'].map(name => [name, fairYear(name, year, rig && name === 'Ann')]));
+  });
+  const group: Group = { id: 'g1', name: 'Thursday', members: [], yearReadings };
+  return { schemaVersion: 7, cards, groups: [group], spreads: BUILT_IN_SPREADS, trash: [], settings: { theme: 'light' } };
+};
+
+const check = (data: AppData) => fairnessCheck(data, matchingSlots(data, EMPTY_ANALYTICS_FILTER), 300)!;
+
+describe('fairness check', () => {
+  it('finds nothing wrong with a fairly dealt deck', () => {
+    const result = check(dataWith(false));
+    expect(result.draws).toBe(12 * 12 * 4);
+    expect(result.expected).toBeCloseTo(576 / 60);
+    expect(result.pValue).toBeGreaterThan(0.01);
+    expect(result.cards.filter(card => card.flag === 'significant')).toEqual([]);
+  });
+
+  it('flags a card that turns up far too often', () => {
+    const result = check(dataWith(true));
+    expect(result.pValue).toBeLessThan(0.01);
+    expect(result.cards[0]).toMatchObject({ cardId: 'c00', direction: 'over', flag: 'significant' });
+  });
+
+  it('is repeatable', () => {
+    const data = dataWith(false);
+    expect(check(data).pValue).toBe(check(data).pValue);
+  });
+
+  it('needs draws and a deck', () => {
+    expect(fairnessCheck({ ...dataWith(false), groups: [] }, [])).toBeNull();
+  });
+});
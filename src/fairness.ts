@@ -0,0 +1,136 @@
+import type { SlotRef } from './analytics';
+import { seededRandom } from './draw';
+import type { AppData, Card } from './types';
+
+// Is the physical deck fair? Observed draw counts are compared with what the
+// real draw rules give: k cards a slot, no card twice in a person's year. By
+// symmetry every card then has the same expected count, but the no-repeat rule
+// makes counts less spread out than independent draws would, so the null
+// distribution of the chi-square statistic is simulated rather than looked up.
+
+export const FAIRNESS_RUNS = 1000;
+
+// Below this many expected draws per card the test has little power
+export const MIN_EXPECTED = 5;
+
+export type FairnessFlag = 'significant' | 'watch';
+
+export interface CardFairness {
+  cardId: string;
+  card: Card;
+  observed: number;
+  expected: number;
+  // Two-sided, from the simulated counts of all cards
+  pValue: number;
+  direction: 'over' | 'under' | 'even';
+  // significant: p below 0.05 even after allowing for testing every card; watch: p below 0.05
+  flag: FairnessFlag | null;
+}
+
+export interface FairnessResult {
+  deckSize: number;
+  draws: number;
+  readings: number;
+  // Draws each card should get from a fair deck; the same for every card
+  expected: number;
+  chiSquare: number;
+  degreesOfFreedom: number;
+  // Share of simulated runs at least as extreme as what was observed
+  pValue: number;
+  runs: number;
+  // Draws of cards that are archived or gone, which the test leaves out
+  leftOut: number;
+  cards: CardFairness[];
+}
+
+const chiSquare = (counts: ArrayLike<number>, expected: number) => {
+  let total = 0;
+  for (let i = 0; i < counts.length; i++) total += (counts[i] - expected) ** 2 / expected;
+  return total;
+};
+
+export const fairnessCheck = (data: AppData, slots: SlotRef[], runs = FAIRNESS_RUNS, seed = 'fairness'): FairnessResult | null => {
+  const deck = data.cards.filter(card => !card.archived);
+  const n = deck.length;
+  const index = new Map(deck.map((card, i) => [card.id, i]));
+
+  // Slot sizes grouped by person-year, since the no-repeat rule works within a year
+  const years = new Map<string, number[]>();
+  const observed = new Array<number>(n).fill(0);
+  let draws = 0;
+  let leftOut = 0;
+  slots.forEach(({ group, reading, month }) => {
+    const inDeck = month.cardIds.filter(id => index.has(id));
+    inDeck.forEach(id => observed[index.get(id)!]++);
+    leftOut += month.cardIds.length - inDeck.length;
+    draws += inDeck.length;
+    const key = `${group.id}|${reading.year}|${reading.personName}`;
+    years.set(key, [...(years.get(key) || []), inDeck.length]);
+  });
+  if (n < 2 || draws === 0) return null;
+
+  const expected = draws / n;
+  const observedStat = chiSquare(observed, expected);
+
+  // Deal the same readings again and again from a fair deck
+  const random = seededRandom(seed);
+  const perm = Array.from({ length: n }, (_, i) => i);
+  const counts = new Int32Array(n);
+  // How often each per-card count came up, over every card of every run
+  const countFrequency = new Map<number, number>();
+  let asExtreme = 0;
+  for (let run = 0; run < runs; run++) {
+    counts.fill(0);
+    years.forEach(sizes => {
+      let remaining = n;
+      sizes.forEach(size => {
+        for (let j = 0; j < size && remaining > 0; j++) {
+          const pick = Math.floor(random() * remaining);
+          remaining--;
+          [perm[pick], perm[remaining]] = [perm[remaining], perm[pick]];
+          counts[perm[remaining]]++;
+        }
+      });
+    });
+    if (chiSquare(counts, expected) >= observedStat) asExtreme++;
+    counts.forEach(count => countFrequency.set(count, (countFrequency.get(count) || 0) + 1));
+  }
+
+  const samples = runs * n;
+  const tailProbability = (count: number) => {
+    let atLeast = 0;
+    let atMost = 0;
+    countFrequency.forEach((frequency, value) => {
+      if (value >= count) atLeast += frequency;
+      if (value <= count) atMost += frequency;
+    });
+    // Never quite zero: the simulation can only rule things out so far
+    return Math.min(1, (2 * (Math.min(atLeast, atMost) + 1)) / (samples + 1));
+  };
+
+  const cards = deck.map((card, i): CardFairness => {
+    const pValue = tailProbability(observed[i]);
+    return {
+      cardId: card.id,
+      card,
+      observed: observed[i],
+      expected,
+      pValue,
+      direction: observed[i] > expected ? 'over' : observed[i] < expected ? 'under' : 'even',
+      flag: pValue < 0.05 / n ? 'significant' : pValue < 0.05 ? 'watch' : null
+    };
+  }).sort((a, b) => a.pValue - b.pValue || Math.abs(b.observed - expected) - Math.abs(a.observed - expected));
+
+  return {
+    deckSize: n,
+    draws,
+    readings: years.size,
+    expected,
+    chiSquare: observedStat,
+    degreesOfFreedom: n - 1,
+    pValue: (asExtreme + 1) / (runs + 1),
+    runs,
+    leftOut,
+    cards
+  };
+};
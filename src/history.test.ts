@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_HISTORY, canRedo, canUndo, currentData, jumpTo, recordChange, startHistory } from './history';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { AppData } from './types';
+
+const base: AppData = { schemaVersion: 7, cards: [], groups: [], spreads: BUILT_IN_SPREADS, trash: [], settings: { theme: 'light' } };
+
+const withCard = (data: AppData, id: string): AppData =>
+  ({ ...data, cards: [...data.cards, { id, name: id, shortDescription: '', longDescription: '' }] });
+
+describe('history', () => {
+  it('undoes and redoes labelled changes', () => {
+    let history = startHistory(base);
+    history = recordChange(history, withCard(currentData(history), 'axe'), 'Added AXE');
+    history = recordChange(history, withCard(currentData(history), 'bat'), 'Added BAT');
+    expect(history.entries.map(e => e.label)).toEqual(['Opened', 'Added AXE', 'Added BAT']);
+
+    history = jumpTo(history, history.index - 1);
+    expect(currentData(history).cards.map(c => c.id)).toEqual(['axe']);
+    expect(canUndo(history) && canRedo(history)).toBe(true);
+
+    history = jumpTo(history, history.index + 1);
+    expect(currentData(history).cards.map(c => c.id)).toEqual(['axe', 'bat']);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('drops the redo steps when a new change is made', () => {
+    let history = recordChange(startHistory(base), withCard(base, 'axe'), 'Added AXE');
+    history = jumpTo(history, 0);
+    history = recordChange(history, withCard(base, 'bat'), 'Added BAT');
+    expect(history.entries.map(e => e.label)).toEqual(['Opened', 'Added BAT']);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('keeps settings changes out of the undo steps', () => {
+    let history = recordChange(startHistory(base), withCard(base, 'axe'), 'Added AXE');
+    const dark = { ...currentData(history), settings: { theme: 'dark' as const } };
+    history = recordChange(history, dark, 'Theme');
+    expect(history.entries).toHaveLength(2);
+    history = jumpTo(history, 0);
+    expect(currentData(history).cards).toEqual([]);
+    expect(currentData(history).settings.theme).toBe('dark');
+  });
+
+  it(`keeps at most ${MAX_HISTORY} entries`, () => {
+    let history = startHistory(base);
+    for (let i = 0; i < MAX_HISTORY + 5; i++) history = recordChange(history, withCard(currentData(history), `c${i}`), `Added ${i}`);
+    expect(history.entries).toHaveLength(MAX_HISTORY);
+    expect(history.index).toBe(MAX_HISTORY - 1);
+    expect(history.entries[0].label).toBe('Added 5');
+  });
+});
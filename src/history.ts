@@ -0,0 +1,68 @@
+import type { AppData } from './types';
+
+// Session-only undo history over AppData. Entries hold whole AppData values;
+// unchanged cards and groups are shared between entries, so this stays cheap.
+
+export const MAX_HISTORY = 100;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  at: string;
+  data: AppData;
+}
+
+export interface History {
+  entries: HistoryEntry[];
+  // Position of the current state in entries; anything after it can be redone
+  index: number;
+}
+
+let nextEntryId = 1;
+
+const entry = (label: string, data: AppData): HistoryEntry => ({
+  id: nextEntryId++,
+  label,
+  at: new Date().toISOString(),
+  data
+});
+
+export const startHistory = (data: AppData, label = 'Opened'): History => ({
+  entries: [entry(label, data)],
+  index: 0
+});
+
+export const currentData = (history: History) => history.entries[history.index].data;
+
+export const canUndo = (history: History) => history.index > 0;
+
+export const canRedo = (history: History) => history.index < history.entries.length - 1;
+
+// Adds a labelled entry and drops anything that could have been redone.
+// Settings-only changes (theme, backup bookkeeping) update the current entry
+// instead, so undo never flips preferences back and forth.
+export const recordChange = (history: History, data: AppData, label: string): History => {
+  const current = history.entries[history.index];
+  if (data === current.data) return history;
+
+  const { settings: _next, ...content } = data;
+  const { settings: _current, ...currentContent } = current.data;
+  if ((Object.keys(content) as (keyof typeof content)[]).every(key => content[key] === currentContent[key])) {
+    const entries = [...history.entries];
+    entries[history.index] = { ...current, data };
+    return { ...history, entries };
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), entry(label, data)].slice(-MAX_HISTORY);
+  return { entries, index: entries.length - 1 };
+};
+
+// Moves to any entry. Settings are carried over from the current state.
+export const jumpTo = (history: History, index: number): History => {
+  if (index < 0 || index >= history.entries.length || index === history.index) return history;
+
+  const settings = currentData(history).settings;
+  const entries = [...history.entries];
+  entries[index] = { ...entries[index], data: { ...entries[index].data, settings } };
+  return { entries, index };
+};
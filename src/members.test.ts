@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { MemberError, activeMembersIn, addMember, renameMember, setMemberYearActive, yearsWithReadings } from './members';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { AppData, PersonYearReading } from './types';
+
+const reading = (personName: string, year: number): PersonYearReading =>
+  ({ personName, year, spreadId: 'monthly-4', readings: [{ month: 'January', cardIds: ['axe', 'bat', 'bear', 'bell'] }] });
+
+const data = (): AppData => ({
+  schemaVersion: 7,
+  cards: [],
+  groups: [{
+    id: 'g1',
+    name: 'Thursday',
+    members: [{ id: 'm1', name: 'Ann', joinedYears: [2024, 2025] }, { id: 'm2', name: 'Bob', joinedYears: [2025] }],
+    yearReadings: { 2024: { Ann: reading('Ann', 2024) }, 2025: { Ann: reading('Ann', 2025), Bob: reading('Bob', 2025) } }
+  }],
+  spreads: BUILT_IN_SPREADS,
+  trash: [
+    { id: 't1', deletedAt: '2025-06-01T00:00:00.000Z', kind: 'reading', groupId: 'g1', groupName: 'Thursday', reading: reading('Ann', 2023) },
+    { id: 't2', deletedAt: '2025-06-01T00:00:00.000Z', kind: 'reading', groupId: 'g2', groupName: 'Friday', reading: reading('Ann', 2023) }
+  ],
+  settings: { theme: 'light' }
+});
+
+describe('renameMember', () => {
+  it('moves every reading to the new name, trashed ones included', () => {
+    const renamed = renameMember(data(), 'g1', 'm1', ' Annie ');
+    const group = renamed.groups[0];
+    expect(group.members[0]).toEqual({ id: 'm1', name: 'Annie', joinedYears: [2024, 2025] });
+    expect(Object.keys(group.yearReadings[2024])).toEqual(['Annie']);
+    expect(Object.keys(group.yearReadings[2025]).sort()).toEqual(['Annie', 'Bob']);
+    expect(group.yearReadings[2025].Annie.personName).toBe('Annie');
+    expect(yearsWithReadings(group, 'Annie')).toEqual([2024, 2025]);
+
+    const [own, otherGroup] = renamed.trash;
+    expect(own.kind === 'reading' && own.reading.personName).toBe('Annie');
+    expect(otherGroup.kind === 'reading' && otherGroup.reading.personName).toBe('Ann');
+  });
+
+  it('refuses a name someone in the group already has', () => {
+    expect(() => renameMember(data(), 'g1', 'm1', 'Bob')).toThrow(MemberError);
+    expect(() => renameMember(data(), 'g1', 'm1', '  ')).toThrow('The name cannot be empty.');
+    expect(renameMember(data(), 'g1', 'm1', 'Ann')).toEqual(data());
+  });
+});
+
+describe('members', () => {
+  it('adds members with their own IDs and refuses duplicate names', () => {
+    const added = addMember(data(), 'g1', 'Cleo', 2025);
+    const cleo = added.groups[0].members[2];
+    expect(cleo).toMatchObject({ name: 'Cleo', joinedYears: [2025] });
+    expect(['m1', 'm2']).not.toContain(cleo.id);
+    expect(() => addMember(data(), 'g1', 'Ann', 2025)).toThrow('Thursday already has a member called Ann.');
+  });
+
+  it('switches years on and off', () => {
+    let d = setMemberYearActive(data(), 'g1', 'm2', 2026, true);
+    expect(d.groups[0].members[1].joinedYears).toEqual([2025, 2026]);
+    d = setMemberYearActive(d, 'g1', 'm1', 2025, false);
+    expect(activeMembersIn(d.groups[0], 2025).map(m => m.name)).toEqual(['Bob']);
+  });
+});
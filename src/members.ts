@@ -0,0 +1,107 @@
+import type { AppData, Group, GroupMember } from './types';
+
+// Readings are keyed by the member's name within a group, so names must stay
+// unique per group and a rename has to move every reading along with it.
+
+export class MemberError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemberError';
+  }
+}
+
+export const newMemberId = () => `m-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const isActiveIn = (member: GroupMember, year: number) => member.joinedYears.includes(year);
+
+// Members who can get a reading for the year: active then and not archived
+export const activeMembersIn = (group: Group, year: number) =>
+  group.members.filter(member => !member.archived && isActiveIn(member, year));
+
+export const yearsWithReadings = (group: Group, memberName: string) =>
+  Object.entries(group.yearReadings)
+    .filter(([, yearData]) => yearData[memberName])
+    .map(([year]) => Number(year))
+    .sort((a, b) => a - b);
+
+// Every year worth showing as a toggle: all years the group has used, plus the next one.
+export const groupYearRange = (group: Group, now = new Date()) => {
+  const years = [
+    now.getFullYear(),
+    now.getFullYear() + 1,
+    ...group.members.flatMap(m => m.joinedYears),
+    ...Object.keys(group.yearReadings).map(Number)
+  ];
+  const first = Math.min(...years);
+  const last = Math.max(...years);
+  return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+};
+
+const findGroup = (data: AppData, groupId: string) => {
+  const group = data.groups.find(g => g.id === groupId);
+  if (!group) throw new MemberError('The group no longer exists.');
+  return group;
+};
+
+const checkName = (group: Group, name: string, exceptId?: string) => {
+  if (!name) throw new MemberError('The name cannot be empty.');
+  if (group.members.some(m => m.id !== exceptId && m.name === name)) {
+    throw new MemberError(`${group.name} already has a member called ${name}.`);
+  }
+};
+
+const updateGroup = (data: AppData, groupId: string, update: (group: Group) => Group): AppData => ({
+  ...data,
+  groups: data.groups.map(group => group.id === groupId ? update(group) : group)
+});
+
+export const addMember = (data: AppData, groupId: string, name: string, year: number): AppData => {
+  const trimmed = name.trim();
+  checkName(findGroup(data, groupId), trimmed);
+  return updateGroup(data, groupId, group => ({
+    ...group,
+    members: [...group.members, { id: newMemberId(), name: trimmed, joinedYears: [year] }]
+  }));
+};
+
+// Renames the member and moves their readings to the new name, including any
+// of their readings waiting in the trash.
+export const renameMember = (data: AppData, groupId: string, memberId: string, newName: string): AppData => {
+  const group = findGroup(data, groupId);
+  const member = group.members.find(m => m.id === memberId);
+  const name = newName.trim();
+  if (!member || member.name === name) return data;
+  checkName(group, name, memberId);
+
+  const yearReadings: Group['yearReadings'] = {};
+  Object.entries(group.yearReadings).forEach(([year, yearData]) => {
+    yearReadings[Number(year)] = Object.fromEntries(Object.entries(yearData).map(([person, reading]) =>
+      person === member.name ? [name, { ...reading, personName: name }] : [person, reading]
+    ));
+  });
+
+  const trash = data.trash.map(item =>
+    item.kind === 'reading' && item.groupId === groupId && item.reading.personName === member.name
+      ? { ...item, reading: { ...item.reading, personName: name } }
+      : item
+  );
+
+  return {
+    ...updateGroup(data, groupId, g => ({
+      ...g,
+      members: g.members.map(m => m.id === memberId ? { ...m, name } : m),
+      yearReadings
+    })),
+    trash
+  };
+};
+
+export const setMemberYearActive = (data: AppData, groupId: string, memberId: string, year: number, active: boolean): AppData =>
+  updateGroup(data, groupId, group => ({
+    ...group,
+    members: group.members.map(member => {
+      if (member.id !== memberId) return member;
+      const years = member.joinedYears.filter(y => y !== year);
+      return { ...member, joinedYears: (active ? [...years, year] : years).sort((a, b) => a - b) };
+    })
+  }));
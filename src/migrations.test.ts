@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, MigrationError, migrateData, schemaVersionOf } from './migrations';
+import { BUILT_IN_SPREADS } from './spreads';
+
+const card = (id: string) => ({ id, name: id.toUpperCase(), shortDescription: `${id} meaning.`, longDescription: '' });
+
+// Saved by the first release: no schemaVersion, trash or spreads, and full card copies in every month
+const versionOne = () => ({
+  cards: [card('axe'), card('bat'), card('bell')],
+  groups: [{
+    id: 'g1',
+    name: 'Thursday',
+    members: [{ name: 'Ann', joinedYears: [2024] }, { name: 'Bob', joinedYears: [2024] }],
+    yearReadings: {
+      2024: {
+        Ann: {
+          personName: 'Ann',
+          year: 2024,
+          readings: [
+            { month: 'January', cards: [card('axe'), card('bat'), card('bell'), card('sun')] },
+            null,
+            { month: 'March', cards: [card('sun'), card('bell'), card('bat'), card('axe')] }
+          ],
+          // Set by the old rule, with February never read
+          completedAt: '2024-03-31T00:00:00.000Z'
+        }
+      }
+    }
+  }],
+  settings: { theme: 'dark' }
+});
+
+describe('migrateData', () => {
+  it('takes data from version 1 all the way to the current schema', () => {
+    expect(schemaVersionOf(versionOne())).toBe(1);
+    const data = migrateData(versionOne());
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(CURRENT_SCHEMA_VERSION).toBe(7);
+
+    // v2: card IDs in readings, and a card known only from a reading is back in the library
+    expect(data.cards.map(c => c.id)).toEqual(['axe', 'bat', 'bell', 'sun']);
+    const reading = data.groups[0].yearReadings[2024].Ann;
+    expect(reading.readings[0]).toEqual({ month: 'January', cardIds: ['axe', 'bat', 'bell', 'sun'] });
+    expect(reading.readings[1]).toBeNull();
+
+    // v3 and v4: a trash list, and member IDs
+    expect(data.trash).toEqual([]);
+    expect(data.groups[0].members.map(m => m.id)).toEqual(['g1-m1', 'g1-m2']);
+
+    // v5 and v6: spreads, with old readings pinned to four cards a month
+    expect(data.spreads).toEqual(BUILT_IN_SPREADS);
+    expect(reading.spreadId).toBe('monthly-4');
+
+    // v7: a reading with a gap is no longer complete
+    expect(reading.completedAt).toBeUndefined();
+    expect(data.settings.theme).toBe('dark');
+  });
+
+  it('gives trashed members and groups IDs too', () => {
+    const versionThree = {
+      ...versionOne(),
+      schemaVersion: 3,
+      groups: [{ id: 'g1', name: 'Thursday', members: [{ name: 'Ann', joinedYears: [2024] }], yearReadings: {} }],
+      trash: [
+        { id: 't1', deletedAt: '2025-06-01T00:00:00.000Z', kind: 'member', groupId: 'g1', groupName: 'Thursday', member: { name: 'Bob', joinedYears: [2024] }, readings: [] },
+        { id: 't2', deletedAt: '2025-06-01T00:00:00.000Z', kind: 'group', group: { id: 'g2', name: 'Friday', members: [{ name: 'Cleo', joinedYears: [2024] }], yearReadings: {} } }
+      ]
+    };
+    const data = migrateData(versionThree);
+    expect(data.groups[0].members.map(m => m.id)).toEqual(['g1-m1']);
+    const [member, group] = data.trash;
+    expect(member.kind === 'member' && member.member.id).toBe('g1-m2');
+    expect(group.kind === 'group' && group.group.members.map(m => m.id)).toEqual(['g2-m1']);
+  });
+
+  it('leaves current data as it is', () => {
+    const current = migrateData(versionOne());
+    expect(migrateData(current)).toEqual(current);
+  });
+
+  it('refuses data from a newer app or in the wrong shape', () => {
+    expect(() => migrateData({ ...versionOne(), schemaVersion: 99 })).toThrow(MigrationError);
+    expect(() => migrateData([])).toThrow('Saved data is not an object');
+    try {
+      migrateData({ ...versionOne(), settings: { theme: 'blue' } });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(MigrationError);
+      expect((e as MigrationError).issues).toEqual(['settings.theme: expected "light" or "dark", got "blue"']);
+    }
+  });
+});
@@ -0,0 +1,197 @@
+import { BUILT_IN_SPREADS, DEFAULT_SPREAD_ID, adjacentConnections, findSpread, isReadingComplete } from './spreads';
+import type { AppData, Card, Group } from './types';
+import { validateAppData } from './validation';
+
+// Before version 2, each month kept full copies of its cards
+interface LegacyMonthReading {
+  month: string;
+  cards: Card[];
+}
+
+// Version 1 -> 2: readings store card IDs. Cards that only survive as copies
+// inside old readings (e.g. after a library re-import) are restored to the library.
+const migrateCardReferences = (data: any): AppData => {
+  const cards: Card[] = [...(data.cards || [])];
+  const known = new Set(cards.map(card => card.id));
+
+  const groups: Group[] = (data.groups || []).map((group: any) => {
+    const yearReadings: Group['yearReadings'] = {};
+    Object.entries(group.yearReadings || {}).forEach(([year, yearData]: [string, any]) => {
+      yearReadings[Number(year)] = {};
+      Object.entries(yearData || {}).forEach(([person, reading]: [string, any]) => {
+        yearReadings[Number(year)][person] = {
+          ...reading,
+          readings: (reading.readings || []).map((month: LegacyMonthReading | null) => {
+            if (!month) return month;
+            (month.cards || []).forEach(card => {
+              if (!known.has(card.id)) {
+                known.add(card.id);
+                cards.push(card);
+              }
+            });
+            return { month: month.month, cardIds: (month.cards || []).map(card => card.id) };
+          })
+        };
+      });
+    });
+    return { ...group, yearReadings };
+  });
+
+  return { ...data, cards, groups };
+};
+
+// Version 2 -> 3: deleted items go to a trash list instead of disappearing
+const addTrash = (data: any): AppData => ({ ...data, trash: data.trash || [] });
+
+// Version 3 -> 4: members get stable IDs so they can be renamed. Trashed
+// members are numbered after their group's current members.
+const addMemberIds = (data: any): AppData => {
+  const withIds = (group: any) => ({
+    ...group,
+    members: (group.members || []).map((member: any, idx: number) => ({ id: `${group.id}-m${idx + 1}`, ...member }))
+  });
+  const nextIndex = new Map<string, number>((data.groups || []).map((group: any) => [group.id, (group.members || []).length]));
+
+  return {
+    ...data,
+    groups: (data.groups || []).map(withIds),
+    trash: (data.trash || []).map((item: any) => {
+      if (item.kind === 'group') return { ...item, group: withIds(item.group) };
+      if (item.kind === 'member') {
+        const idx = (nextIndex.get(item.groupId) ?? 0) + 1;
+        nextIndex.set(item.groupId, idx);
+        return { ...item, member: { id: `${item.groupId}-m${idx}`, ...item.member } };
+      }
+      return item;
+    })
+  };
+};
+
+// Version 4 -> 5: readings follow a configurable spread instead of four cards a month.
+// Existing readings are pinned to the four-card monthly spread they were made with.
+const addSpreads = (data: any): AppData => {
+  const pin = (reading: any) => ({ spreadId: DEFAULT_SPREAD_ID, ...reading });
+  const pinGroup = (group: any) => ({
+    ...group,
+    yearReadings: Object.fromEntries(Object.entries(group.yearReadings || {}).map(([year, yearData]: [string, any]) => [
+      year,
+      Object.fromEntries(Object.entries(yearData || {}).map(([person, reading]) => [person, pin(reading)]))
+    ]))
+  });
+
+  return {
+    ...data,
+    spreads: data.spreads || BUILT_IN_SPREADS,
+    groups: (data.groups || []).map(pinGroup),
+    trash: (data.trash || []).map((item: any) => {
+      if (item.kind === 'group') return { ...item, group: pinGroup(item.group) };
+      if (item.kind === 'member') return { ...item, readings: (item.readings || []).map(pin) };
+      if (item.kind === 'reading') return { ...item, reading: pin(item.reading) };
+      return item;
+    })
+  };
+};
+
+// Version 5 -> 6: spreads record which positions connect. Built-in spreads
+// still using their original placeholder names get the built-in layout.
+const addSpreadConnections = (data: any): AppData => ({
+  ...data,
+  spreads: (data.spreads || []).map((spread: any) => {
+    const builtIn = BUILT_IN_SPREADS.find(b => b.id === spread.id);
+    const placeholders = (spread.positions || []).every((position: string, idx: number) => position === `Card ${idx + 1}`);
+    if (builtIn && placeholders && builtIn.positions.length === (spread.positions || []).length) {
+      return { ...spread, positions: builtIn.positions, connections: builtIn.connections };
+    }
+    return { connections: adjacentConnections((spread.positions || []).length), ...spread };
+  })
+});
+
+// Version 6 -> 7: completedAt used to be set once twelve slots had been written,
+// even with gaps. Readings without a full spread in every slot lose it.
+const recheckCompletion = (data: any): AppData => {
+  const recheck = (reading: any, group?: any) => {
+    if (!reading.completedAt || isReadingComplete(reading, findSpread(data, reading.spreadId ?? group?.spreadId))) return reading;
+    const { completedAt: _dropped, ...rest } = reading;
+    return rest;
+  };
+  const recheckGroup = (group: any) => ({
+    ...group,
+    yearReadings: Object.fromEntries(Object.entries(group.yearReadings || {}).map(([year, yearData]: [string, any]) => [
+      year,
+      Object.fromEntries(Object.entries(yearData || {}).map(([person, reading]) => [person, recheck(reading, group)]))
+    ]))
+  });
+
+  return {
+    ...data,
+    groups: (data.groups || []).map(recheckGroup),
+    trash: (data.trash || []).map((item: any) => {
+      if (item.kind === 'group') return { ...item, group: recheckGroup(item.group) };
+      if (item.kind === 'member') return { ...item, readings: (item.readings || []).map((reading: any) => recheck(reading)) };
+      if (item.kind === 'reading') return { ...item, reading: recheck(item.reading) };
+      return item;
+    })
+  };
+};
+
+interface Migration {
+  // The schema version this step produces
+  version: number;
+  description: string;
+  migrate: (data: any) => any;
+}
+
+// Append new steps here; every step upgrades data from `version - 1`.
+const MIGRATIONS: Migration[] = [
+  { version: 2, description: 'Readings reference cards by ID', migrate: migrateCardReferences },
+  { version: 3, description: 'Add trash for deleted items', migrate: addTrash },
+  { version: 4, description: 'Give group members stable IDs', migrate: addMemberIds },
+  { version: 5, description: 'Add configurable spreads', migrate: addSpreads },
+  { version: 6, description: 'Record connected positions in spreads', migrate: addSpreadConnections },
+  { version: 7, description: 'Only mark readings complete when every slot is full', migrate: recheckCompletion }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export class MigrationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'MigrationError';
+    this.issues = issues;
+  }
+}
+
+// Data saved before versioning was introduced has no schemaVersion.
+export const schemaVersionOf = (data: any) =>
+  typeof data?.schemaVersion === 'number' ? data.schemaVersion : 1;
+
+// Upgrades parsed data to the current schema and validates the result.
+// Throws MigrationError when a step fails or the result is malformed.
+export const migrateData = (data: unknown): AppData => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new MigrationError('Saved data is not an object');
+  }
+
+  const version = schemaVersionOf(data);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(`Saved data uses schema version ${version}, but this app only understands up to version ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  let migrated: any = data;
+  MIGRATIONS.filter(m => m.version > version).forEach(m => {
+    try {
+      migrated = { ...m.migrate(migrated), schemaVersion: m.version };
+    } catch (e) {
+      throw new MigrationError(`Migration to version ${m.version} (${m.description}) failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+
+  const issues = validateAppData(migrated);
+  if (issues.length > 0) {
+    throw new MigrationError(`Saved data has ${issues.length} invalid ${issues.length === 1 ? 'field' : 'fields'}`, issues);
+  }
+
+  return migrated;
+};
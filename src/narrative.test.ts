@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { joinList, yearNarrative } from './narrative';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { AppData, Card, Group, MonthReading } from './types';
+
+const cards: Card[] = [
+  { id: 'bear', name: 'BEAR', shortDescription: '', longDescription: '', sentiment: 'negative', themes: ['money'] },
+  { id: 'axe', name: 'AXE', shortDescription: '', longDescription: '', sentiment: 'negative' },
+  { id: 'bell', name: 'BELL', shortDescription: '', longDescription: '', sentiment: 'neutral', themes: ['news'] },
+  { id: 'heart', name: 'HEART', shortDescription: '', longDescription: '', sentiment: 'positive', themes: ['love'] },
+  { id: 'star', name: 'STAR', shortDescription: '', longDescription: '', sentiment: 'positive', themes: ['money', 'work'] },
+  { id: 'sun', name: 'SUN', shortDescription: '', longDescription: '', sentiment: 'positive' },
+  { id: 'ant', name: 'ANT', shortDescription: '', longDescription: '', sentiment: 'positive', themes: ['work', 'money'] },
+  { id: 'egg', name: 'EGG', shortDescription: '', longDescription: '' }
+];
+
+// Quarterly four-card spread: Main theme, Influence, Outcome, Connecting
+const readings: MonthReading[] = [
+  { month: 'Q1', cardIds: ['bear', 'bell', 'axe', 'heart'] },
+  { month: 'Q2', cardIds: ['star', 'sun', 'ant', 'egg'] }
+];
+
+const group: Group = {
+  id: 'g1',
+  name: 'Thursday',
+  members: [{ id: 'm1', name: 'Ann', joinedYears: [2025] }],
+  yearReadings: { 2025: { Ann: { personName: 'Ann', year: 2025, spreadId: 'quarterly-4', readings } } }
+};
+
+const data: AppData = { schemaVersion: 7, cards, groups: [group], spreads: BUILT_IN_SPREADS, trash: [], settings: { theme: 'light' } };
+
+describe('year narrative', () => {
+  it('joins lists the way a sentence would', () => {
+    expect(joinList(['a'])).toBe('a');
+    expect(joinList(['a', 'b', 'c'])).toBe('a, b and c');
+  });
+
+  it('describes fortunate slots, themes and warnings', () => {
+    expect(yearNarrative(data, group, group.yearReadings[2025].Ann)).toEqual([
+      'Q2 (Apr–Jun) leans fortunate. Q1 (Jan–Mar) calls for caution.',
+      'Money (3 cards) and work (2 cards) come up most often.',
+      'In Q1 (Jan–Mar), BEAR is a warning; read it with BELL and HEART, which point to news and love.',
+      'In Q1 (Jan–Mar), AXE is a warning; read it with BELL and HEART, which point to news and love.'
+    ]);
+  });
+
+  it('is the same every time', () => {
+    const reading = group.yearReadings[2025].Ann;
+    expect(yearNarrative(data, group, reading)).toEqual(yearNarrative(data, group, reading));
+  });
+
+  it('asks for tags when the deck has none', () => {
+    const untagged = { ...data, cards: cards.map(({ sentiment: _s, themes: _t, ...card }) => card) };
+    expect(yearNarrative(untagged, group, group.yearReadings[2025].Ann)[0]).toContain('None of these cards are tagged yet');
+  });
+
+  it('says when nothing has been read', () => {
+    expect(yearNarrative(data, group, { personName: 'Ann', year: 2026, readings: [] })).toEqual(['Nothing has been read for Ann in 2026 yet.']);
+  });
+});
@@ -0,0 +1,84 @@
+import { THEME_LABELS } from './cardTags';
+import { connectedPositions, periodSlots, readingSpread } from './spreads';
+import type { AppData, Card, CardTheme, Group, PersonYearReading } from './types';
+
+// "Your year at a glance", written from fixed templates over the card tags, so
+// the same reading always gives the same text and nothing leaves the device.
+
+// Sentiment counts as +1 / -1; a slot leans one way when its total does
+const SENTIMENT_SCORE = { positive: 1, negative: -1, neutral: 0, ambiguous: 0 };
+
+// "January", "January and March", "January, March and June"
+export const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const yearNarrative = (data: AppData, group: Group, reading: PersonYearReading): string[] => {
+  const spread = readingSpread(data, group, reading);
+  const labels = periodSlots(spread.period);
+  const cardsById = new Map<string, Card>(data.cards.map(card => [card.id, card]));
+  const slots = reading.readings
+    .map((month, slot) => ({ slot, label: labels[slot] ?? month?.month, cards: (month?.cardIds || []).map(id => cardsById.get(id)) }))
+    .filter(entry => entry.cards.length > 0);
+
+  if (slots.length === 0) return [`Nothing has been read for ${reading.personName} in ${reading.year} yet.`];
+
+  const paragraphs: string[] = [];
+  const allCards = slots.flatMap(entry => entry.cards).filter((card): card is Card => !!card);
+  const tagged = allCards.filter(card => card.sentiment);
+
+  // Fortunate and cautionary slots
+  if (tagged.length === 0) {
+    paragraphs.push('None of these cards are tagged yet, so there is no reading of which months lean fortunate. Tag the deck in the card library to see one.');
+  } else if (spread.period === 'single') {
+    const score = tagged.reduce((sum, card) => sum + SENTIMENT_SCORE[card.sentiment!], 0);
+    paragraphs.push(score > 0
+      ? `Overall the reading leans fortunate for ${reading.personName}.`
+      : score < 0
+        ? `Overall the reading is a cautionary one for ${reading.personName}.`
+        : `The reading is evenly balanced for ${reading.personName}, neither clearly fortunate nor cautionary.`);
+  } else {
+    const scored = slots.map(entry => ({
+      label: entry.label,
+      score: entry.cards.reduce((sum, card) => sum + (card?.sentiment ? SENTIMENT_SCORE[card.sentiment] : 0), 0)
+    }));
+    const fortunate = scored.filter(entry => entry.score > 0).map(entry => entry.label);
+    const cautionary = scored.filter(entry => entry.score < 0).map(entry => entry.label);
+    const sentences: string[] = [];
+    if (fortunate.length > 0) sentences.push(`${joinList(fortunate)} ${fortunate.length === 1 ? 'leans' : 'lean'} fortunate.`);
+    if (cautionary.length > 0) sentences.push(`${joinList(cautionary)} ${cautionary.length === 1 ? 'calls' : 'call'} for caution.`);
+    if (sentences.length === 0) sentences.push('No month leans clearly either way; the good and the cautionary balance out.');
+    else if (fortunate.length > cautionary.length * 2) sentences.push('On the whole, a fortunate year.');
+    else if (cautionary.length > fortunate.length * 2) sentences.push('On the whole, a year to tread carefully.');
+    paragraphs.push(sentences.join(' '));
+  }
+
+  // Dominant themes
+  const themeCounts = new Map<CardTheme, number>();
+  allCards.forEach(card => (card.themes || []).forEach(theme => themeCounts.set(theme, (themeCounts.get(theme) || 0) + 1)));
+  const themes = Array.from(themeCounts).filter(([, count]) => count > 1).sort((a, b) => b[1] - a[1]).slice(0, 3);
+  if (themes.length > 0) {
+    const named = themes.map(([theme, count]) => `${THEME_LABELS[theme].toLowerCase()} (${count} cards)`);
+    paragraphs.push(`${capitalize(joinList(named))} ${themes.length === 1 ? 'comes' : 'come'} up most often.`);
+  }
+
+  // Warning cards and the connected cards that tell what they are about
+  const warnings = slots.flatMap(entry => entry.cards.flatMap((card, position) => {
+    if (card?.sentiment !== 'negative') return [];
+    const clarifying = connectedPositions(spread, position)
+      .map(other => entry.cards[other])
+      .filter((other): other is Card => !!other && other.sentiment !== 'negative');
+    return [{ label: entry.label, card, clarifying }];
+  }));
+  warnings.forEach(({ label, card, clarifying }) => {
+    const where = spread.period === 'single' ? '' : `In ${label}, `;
+    const pointsTo = Array.from(new Set(clarifying.flatMap(c => c.themes || []))).map(theme => THEME_LABELS[theme].toLowerCase());
+    paragraphs.push(clarifying.length === 0
+      ? `${where}${card.name} is a warning with no gentler card beside it.`
+      : `${where}${card.name} is a warning; read it with ${joinList(clarifying.map(c => c.name))}` +
+        (pointsTo.length > 0 ? `, which ${clarifying.length === 1 ? 'points' : 'point'} to ${joinList(pointsTo)}.` : '.'));
+  });
+
+  return paragraphs;
+};
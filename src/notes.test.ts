@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { readingMatches, setCardNote, setReflection, setSlotNotes, setYearNotes, slotMatches } from './notes';
+import type { Card, PersonYearReading } from './types';
+
+const cards: Card[] = ['axe', 'bat', 'bear', 'bell'].map(id => ({ id, name: id.toUpperCase(), shortDescription: '', longDescription: '' }));
+const cardsById = new Map(cards.map(card => [card.id, card]));
+
+const reading = (): PersonYearReading => ({
+  personName: 'Ann',
+  year: 2025,
+  spreadId: 'monthly-4',
+  readings: [{ month: 'January', cardIds: ['axe', 'bat', 'bear', 'bell'] }]
+});
+
+describe('notes', () => {
+  it('stores a blank note as no note at all', () => {
+    const noted = setSlotNotes(setYearNotes(reading(), ' A quiet year '), 0, 'Family news');
+    expect(noted.notes).toBe('A quiet year');
+    expect(noted.readings[0].notes).toBe('Family news');
+
+    const cleared = setSlotNotes(setYearNotes(noted, '   '), 0, '');
+    expect(cleared.notes).toBeUndefined();
+    expect(cleared.readings[0].notes).toBeUndefined();
+  });
+
+  it('leaves slots that have not been read alone', () => {
+    const r = reading();
+    expect(setSlotNotes(r, 5, 'Later')).toBe(r);
+  });
+
+  it('keeps card notes by position, with gaps left empty', () => {
+    let r = setCardNote(reading(), 0, 2, 'The bear is the boss');
+    expect(r.readings[0].cardNotes).toEqual(['', '', 'The bear is the boss', '']);
+
+    r = setCardNote(r, 0, 0, ' Take care ');
+    expect(r.readings[0].cardNotes).toEqual(['Take care', '', 'The bear is the boss', '']);
+
+    r = setCardNote(setCardNote(r, 0, 0, ''), 0, 2, ' ');
+    expect(r.readings[0].cardNotes).toBeUndefined();
+  });
+
+  it('sets and clears reflections and their accuracy', () => {
+    let r = setReflection(reading(), 0, ' The news came ', 'accurate');
+    expect(r.readings[0].reflection).toEqual({ text: 'The news came', accuracy: 'accurate', recordedAt: expect.any(String) });
+
+    r = setReflection(r, 0, '', 'partly');
+    expect(r.readings[0].reflection).toMatchObject({ text: '', accuracy: 'partly' });
+
+    r = setReflection(r, 0, 'Not sure yet', undefined);
+    expect(r.readings[0].reflection?.accuracy).toBeUndefined();
+
+    expect(setReflection(r, 0, '  ', undefined).readings[0].reflection).toBeUndefined();
+  });
+
+  it('finds readings by their notes, reflections and cards', () => {
+    let r = setYearNotes(reading(), 'Moving house');
+    r = setCardNote(r, 0, 1, 'Watch the neighbour');
+    r = setReflection(r, 0, 'A letter arrived', 'accurate');
+
+    expect(readingMatches(r, 'moving', cardsById)).toBe(true);
+    expect(readingMatches(r, 'NEIGHBOUR', cardsById)).toBe(true);
+    expect(slotMatches(r.readings[0], 'letter', cardsById)).toBe(true);
+    expect(slotMatches(r.readings[0], 'bell', cardsById)).toBe(true);
+    expect(readingMatches(r, 'ann', cardsById)).toBe(true);
+    expect(readingMatches(r, 'wedding', cardsById)).toBe(false);
+    expect(readingMatches(r, '  ', cardsById)).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import type { AccuracyRating, Card, MonthReading, PersonYearReading, Reflection } from './types';
+
+// Notes live on the reading at three levels: the year, each slot and each card.
+// Blank notes are stored as absent so untouched readings stay as they were.
+
+export const ACCURACY_LABELS: Record<AccuracyRating, string> = {
+  accurate: 'Came true',
+  partly: 'Partly came true',
+  missed: 'Did not come true'
+};
+
+const cleanNote = (text: string) => text.trim() || undefined;
+
+const updateSlot = (reading: PersonYearReading, slot: number, update: (month: MonthReading) => MonthReading): PersonYearReading => {
+  const month = reading.readings[slot];
+  if (!month) return reading;
+  const readings = [...reading.readings];
+  readings[slot] = update(month);
+  return { ...reading, readings };
+};
+
+export const setYearNotes = (reading: PersonYearReading, text: string): PersonYearReading =>
+  ({ ...reading, notes: cleanNote(text) });
+
+export const setSlotNotes = (reading: PersonYearReading, slot: number, text: string): PersonYearReading =>
+  updateSlot(reading, slot, month => ({ ...month, notes: cleanNote(text) }));
+
+export const setCardNote = (reading: PersonYearReading, slot: number, position: number, text: string): PersonYearReading =>
+  updateSlot(reading, slot, month => {
+    const cardNotes = month.cardIds.map((_, i) => i === position ? text.trim() : month.cardNotes?.[i] || '');
+    return { ...month, cardNotes: cardNotes.some(Boolean) ? cardNotes : undefined };
+  });
+
+export const setReflection = (reading: PersonYearReading, slot: number, text: string, accuracy: AccuracyRating | undefined): PersonYearReading =>
+  updateSlot(reading, slot, month => {
+    const reflection: Reflection | undefined = text.trim() || accuracy
+      ? { text: text.trim(), accuracy, recordedAt: new Date().toISOString() }
+      : undefined;
+    return { ...month, reflection };
+  });
+
+const matchesText = (text: string | undefined, query: string) => !!text && text.toLowerCase().includes(query);
+
+// Card names and every kind of note in the slot
+export const slotMatches = (month: MonthReading, query: string, cardsById: Map<string, Card>) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return matchesText(month.month, q) ||
+    matchesText(month.notes, q) ||
+    matchesText(month.reflection?.text, q) ||
+    (month.cardNotes || []).some(note => matchesText(note, q)) ||
+    month.cardIds.some(id => matchesText(cardsById.get(id)?.name, q));
+};
+
+export const readingMatches = (reading: PersonYearReading, query: string, cardsById: Map<string, Card>) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return matchesText(reading.personName, q) ||
+    matchesText(reading.notes, q) ||
+    reading.readings.some(month => month && slotMatches(month, q, cardsById));
+};
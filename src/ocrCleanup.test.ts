@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import deckText from '../Tea Leaf Cards.txt?raw';
+import { parseCardText } from './cardImport';
+import { applyCleanups, suggestCardCleanups, suggestDeckCleanups } from './ocrCleanup';
+import type { Card } from './types';
+
+const scanned: Card = {
+  id: 'WI ND CH IMES',
+  name: 'WI ND CH IMES',
+  shortDescription: 'You will hear tl,e news withawoman.',
+  longDescription: 'A friend is lookingfor you.'
+};
+
+describe('ocrCleanup', () => {
+  it('suggests name, misread and spacing fixes', () => {
+    expect(suggestCardCleanups(scanned, [scanned]).map(s => [s.field, s.original, s.replacement, s.rule])).toEqual([
+      ['name', 'WI ND CH IMES', 'WIND CHIMES', 'name'],
+      ['shortDescription', 'tl,e', 'the', 'confusion'],
+      ['shortDescription', 'withawoman', 'with a woman', 'dictionary'],
+      ['longDescription', 'lookingfor', 'looking for', 'dictionary']
+    ]);
+  });
+
+  it('applies only the suggestions it is given, keeping the card ID', () => {
+    const suggestions = suggestCardCleanups(scanned, [scanned]);
+    expect(applyCleanups(scanned, suggestions)).toEqual({
+      id: 'WI ND CH IMES',
+      name: 'WIND CHIMES',
+      shortDescription: 'You will hear the news with a woman.',
+      longDescription: 'A friend is looking for you.'
+    });
+    expect(applyCleanups(scanned, suggestions.filter(s => s.rule !== 'dictionary')).shortDescription).toBe('You will hear the news withawoman.');
+  });
+
+  it('skips suggestions whose text has changed since', () => {
+    const [nameFix] = suggestCardCleanups(scanned, [scanned]);
+    expect(applyCleanups({ ...scanned, name: 'WIND CHIMES!' }, [nameFix]).name).toBe('WIND CHIMES!');
+  });
+
+  it('leaves clean text alone', () => {
+    const clean: Card = { id: 'AXE', name: 'AXE', shortDescription: 'Danger ahead.', longDescription: 'Take care with the people around you.' };
+    expect(suggestCardCleanups(clean, [clean])).toEqual([]);
+  });
+
+  it('mends the broken names in the shipped deck', () => {
+    const names = suggestDeckCleanups(parseCardText(deckText).cards).filter(s => s.field === 'name');
+    expect(names.map(s => [s.original, s.replacement])).toEqual(expect.arrayContaining([
+      ['CATE RP ILLAR', 'CATERPILLAR'],
+      ['~OG-BARKJ NG', 'DOG-BARKING'],
+      ['F 1 NG ER', 'FINGER']
+    ]));
+  });
+});
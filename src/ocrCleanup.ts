@@ -0,0 +1,343 @@
+import dictionaryText from './dictionary.txt?raw';
+import type { Card } from './types';
+
+export type CardTextField = 'name' | 'shortDescription' | 'longDescription';
+
+// confusion: a known OCR misread of a single word ("tl,e" -> "the")
+// name:      a card name broken apart by the scan ("WI ND CH IMES" -> "WIND CHIMES")
+// dictionary: words run together or split apart ("withawoman" -> "with a woman")
+export type CleanupRule = 'confusion' | 'name' | 'dictionary';
+
+export interface CleanupSuggestion {
+  id: string;
+  cardId: string;
+  field: CardTextField;
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+  rule: CleanupRule;
+}
+
+export const CARD_TEXT_FIELDS: CardTextField[] = ['name', 'shortDescription', 'longDescription'];
+
+// Known words. The list carries no frequencies, so it only says whether a word exists.
+const DICTIONARY = new Set<string>();
+dictionaryText.split('\n').forEach(line => {
+  const word = line.trim();
+  if (word && !word.startsWith('#')) DICTIONARY.add(word);
+});
+
+// Characters the scanner produces in place of letters it could not read
+const JUNK = '~?<>\\|_^*{}[]·';
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+// Known misreads, as [what the scan says, what the letters probably were]
+const CONFUSIONS: [string, string[]][] = [
+  ['l,', ['h']],
+  [',', ['']],
+  ['.', ['']],
+  ["'", ['']],
+  ['J', ['l', 'i', 'j']],
+  ['I', ['l']],
+  ['l', ['i', 't']],
+  ['1', ['l', 'i']],
+  ['!', ['l', 'i']],
+  ['0', ['o']],
+  ['5', ['s']],
+  ['m', ['in', 'rn', 'ni']],
+  ['rn', ['m']],
+  ['ii', ['n']],
+  ['vv', ['w']],
+  ['cl', ['d']],
+  ['li', ['h']],
+  ['r', ['i']],
+  ['t', ['i']],
+  ['f', ['i']],
+  ['c', ['e']],
+  ['e', ['c']]
+];
+
+const CONTRACTION = /(n't|'s|'re|'ll|'ve|'d|'m|s')$/;
+
+const isWord = (word: string): boolean => {
+  const lower = word.toLowerCase().replace(/’/g, "'");
+  if (DICTIONARY.has(lower) || /^\d+(st|nd|rd|th|s)?$/.test(lower)) return true;
+  if (lower.includes('-')) return lower.split('-').every(part => part === '' || isWord(part));
+  if (CONTRACTION.test(lower)) {
+    const base = lower.replace(CONTRACTION, '');
+    return DICTIONARY.has(base) || ['ca', 'wo', 'sha'].includes(base);
+  }
+  return false;
+};
+
+const junkRuns = (token: string) => Array.from(token.matchAll(/[~?<>\\|_^*{}[\]·,.]+/g));
+
+// Every string one misread away from `token`
+const substitutions = (token: string): string[] => {
+  const results = new Set<string>();
+
+  CONFUSIONS.forEach(([from, tos]) => {
+    let idx = token.indexOf(from);
+    while (idx !== -1) {
+      tos.forEach(to => results.add(token.slice(0, idx) + to + token.slice(idx + from.length)));
+      idx = token.indexOf(from, idx + 1);
+    }
+  });
+
+  junkRuns(token).forEach(run => {
+    const idx = run.index!;
+    const rest = token.slice(idx + run[0].length);
+    results.add(token.slice(0, idx) + rest);
+    // Underscores and stray punctuation are specks; the rest usually stand in for a letter
+    if (Array.from(run[0]).some(ch => ch !== '_' && JUNK.includes(ch))) {
+      for (const letter of LETTERS) results.add(token.slice(0, idx) + letter + rest);
+    }
+  });
+
+  results.delete(token);
+  return Array.from(results);
+};
+
+interface Preference {
+  // Words that occur elsewhere in the same card are the best evidence for a fix
+  ownWords: Set<string>;
+  // Words from the other card names, used for names
+  nameWords: Set<string>;
+}
+
+// Lower is better, criterion by criterion; on a full tie the first candidate found stays
+const score = (text: string[], edits: number, prefer: Preference) => {
+  const words = text.flatMap(w => w.split('-')).filter(Boolean);
+  return [
+    words.filter(w => !prefer.ownWords.has(w)).length,
+    edits,
+    words.filter(w => !prefer.nameWords.has(w)).length,
+    words.length
+  ];
+};
+
+const compareScores = (a: number[], b: number[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+};
+
+// Splits letters into the fewest dictionary words (hyphens are kept as-is).
+const segment = (text: string, prefer: Preference): string[] | null => {
+  const parts = text.split('-');
+  const result: string[] = [];
+
+  for (const part of parts) {
+    const best: (string[] | null)[] = [[]];
+    for (let end = 1; end <= part.length; end++) {
+      best[end] = null;
+      for (let start = Math.max(0, end - 20); start < end; start++) {
+        const word = part.slice(start, end);
+        const prev = best[start];
+        if (!prev || !DICTIONARY.has(word) || (word.length === 1 && word !== 'a')) continue;
+        const candidate = [...prev, word];
+        const current = best[end];
+        if (!current || compareScores(score(candidate, 0, prefer), score(current, 0, prefer)) < 0) {
+          best[end] = candidate;
+        }
+      }
+    }
+    const words = best[part.length];
+    if (!words) return null;
+    result.push(words.join(' '));
+  }
+
+  return result.join('-').split(' ');
+};
+
+// The best reading of `token`, trying up to two misreads. `accept` turns a
+// candidate into its words, or null when the candidate is not valid text.
+const bestReading = (
+  token: string,
+  accept: (candidate: string) => string[] | null,
+  prefer: Preference
+): string | null => {
+  let best: { text: string; score: number[] } | null = null;
+  let frontier = [token];
+
+  for (let edits = 1; edits <= 2 && !best; edits++) {
+    const next = new Set<string>();
+    frontier.forEach(t => substitutions(t).forEach(c => next.add(c)));
+
+    for (const candidate of next) {
+      const words = accept(candidate.toLowerCase());
+      if (!words) continue;
+      const candidateScore = score(words, edits, prefer);
+      if (!best || compareScores(candidateScore, best.score) < 0) {
+        best = { text: words.join(' '), score: candidateScore };
+      }
+    }
+
+    frontier = Array.from(next).slice(0, 2000);
+  }
+
+  return best ? best.text : null;
+};
+
+const matchCase = (original: string, word: string) => {
+  const letters = original.replace(/[^A-Za-z]/g, '');
+  if (letters.length > 1 && letters === letters.toUpperCase()) return word.toUpperCase();
+  if (/^[A-Z]/.test(original)) return word.charAt(0).toUpperCase() + word.slice(1);
+  return word;
+};
+
+const wordsOf = (text: string) => new Set((text.toLowerCase().match(/[a-z]+/g) || []));
+
+const suggestNameFix = (card: Card, prefer: Preference): CleanupSuggestion[] => {
+  const tokens = card.name.split(/\s+/).filter(Boolean);
+  if (tokens.every(t => t === '&' || isWord(t))) return [];
+
+  // Re-join the name within each "&" segment, then re-split on dictionary words
+  const segments = card.name.split(/\s*&\s*/).map(segmentText => {
+    const joined = segmentText.replace(/\s+/g, '');
+    const clean = segment(joined.toLowerCase(), prefer);
+    if (clean) return clean.join(' ');
+    return bestReading(joined, c => segment(c, prefer), prefer);
+  });
+  if (segments.some(s => s === null)) return [];
+
+  const replacement = segments.join(' & ').toUpperCase();
+  if (replacement === card.name) return [];
+
+  return [{
+    id: `${card.id}:name:0`,
+    cardId: card.id,
+    field: 'name',
+    start: 0,
+    end: card.name.length,
+    original: card.name,
+    replacement,
+    rule: 'name'
+  }];
+};
+
+const suggestTextFixes = (card: Card, field: CardTextField, prefer: Preference): CleanupSuggestion[] => {
+  const text = card[field];
+  const suggestions: CleanupSuggestion[] = [];
+  const tokens = Array.from(text.matchAll(/\S+/g));
+  const fixed = new Set<number>();
+
+  const add = (start: number, end: number, replacement: string, rule: CleanupRule) => {
+    suggestions.push({
+      id: `${card.id}:${field}:${start}`,
+      cardId: card.id,
+      field,
+      start,
+      end,
+      original: text.slice(start, end),
+      replacement,
+      rule
+    });
+  };
+
+  tokens.forEach((match, i) => {
+    const token = match[0];
+    const tokenStart = match.index!;
+
+    // A token that is nothing but scan debris
+    if (/^[~?<>\\|_^*{}[\]·]+$/.test(token)) {
+      const start = i > 0 ? tokens[i - 1].index! + tokens[i - 1][0].length : tokenStart;
+      add(start, tokenStart + token.length, '', 'confusion');
+      fixed.add(i);
+      return;
+    }
+
+    const [, lead, core, trail] = /^([("'“_]*)(.*?)([.,;:!?)"'”_]*)$/.exec(token)!;
+    if (!/[A-Za-z]/.test(core) || isWord(core)) {
+      // Stray underscores stuck to an otherwise good word ("_querist", "them._")
+      if (lead.includes('_') || trail.includes('_')) {
+        add(tokenStart, tokenStart + token.length, lead.replace(/_/g, '') + core + trail.replace(/_/g, ''), 'confusion');
+        fixed.add(i);
+      }
+      return;
+    }
+
+    const reading = bestReading(core, c => (isWord(c) ? [c] : null), prefer);
+    if (reading) {
+      const before = text.slice(0, tokenStart);
+      const startsSentence = !before.trim() || /[.!?]["”)_]*\s*$/.test(before);
+      let word = matchCase(core, reading);
+      if (startsSentence) word = word.charAt(0).toUpperCase() + word.slice(1);
+      add(tokenStart, tokenStart + token.length, lead.replace(/_/g, '') + word + trail.replace(/_/g, ''), 'confusion');
+      fixed.add(i);
+      return;
+    }
+
+    // Words run together by the scan ("Dealingsorrelationship")
+    if (/^[A-Za-z]{7,}$/.test(core)) {
+      const words = segment(core.toLowerCase(), prefer);
+      if (words && words.length > 1) {
+        add(tokenStart + lead.length, tokenStart + lead.length + core.length, matchCase(core, words.join(' ')), 'dictionary');
+        fixed.add(i);
+      }
+    }
+  });
+
+  // Words split apart by the scan ("comple tely")
+  tokens.forEach((match, i) => {
+    const next = tokens[i + 1];
+    if (!next || fixed.has(i) || fixed.has(i + 1)) return;
+    if (!/^[A-Za-z]+$/.test(match[0]) || !/^[A-Za-z]+[.,;:!?]*$/.test(next[0])) return;
+
+    const nextCore = next[0].replace(/[.,;:!?]+$/, '');
+    if (isWord(match[0]) && isWord(nextCore)) return;
+
+    const joined = match[0] + nextCore;
+    if (isWord(joined)) {
+      add(match.index!, next.index! + nextCore.length, joined, 'dictionary');
+      fixed.add(i + 1);
+    }
+  });
+
+  return suggestions.sort((a, b) => a.start - b.start);
+};
+
+// Proposes fixes for one card; nothing is changed until the caller applies them.
+export const suggestCardCleanups = (card: Card, deck: Card[] = []): CleanupSuggestion[] => {
+  const nameWords = new Set<string>();
+  deck.forEach(c => {
+    if (c.id !== card.id) wordsOf(c.name).forEach(w => nameWords.add(w));
+  });
+  const prefer: Preference = {
+    ownWords: wordsOf(`${card.shortDescription} ${card.longDescription}`),
+    nameWords
+  };
+
+  return [
+    ...suggestNameFix(card, prefer),
+    ...suggestTextFixes(card, 'shortDescription', prefer),
+    ...suggestTextFixes(card, 'longDescription', prefer)
+  ];
+};
+
+export const suggestDeckCleanups = (cards: Card[]): CleanupSuggestion[] =>
+  cards.flatMap(card => suggestCardCleanups(card, cards));
+
+// Applies the given suggestions to a card. Overlapping suggestions are skipped.
+export const applyCleanups = (card: Card, suggestions: CleanupSuggestion[]): Card => {
+  const result = { ...card };
+
+  CARD_TEXT_FIELDS.forEach(field => {
+    const fieldSuggestions = suggestions
+      .filter(s => s.cardId === card.id && s.field === field && card[field].slice(s.start, s.end) === s.original)
+      .sort((a, b) => a.start - b.start);
+
+    let text = '';
+    let cursor = 0;
+    fieldSuggestions.forEach(s => {
+      if (s.start < cursor) return;
+      text += card[field].slice(cursor, s.start) + s.replacement;
+      cursor = s.end;
+    });
+    result[field] = text + card[field].slice(cursor);
+  });
+
+  return result;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ReadingError, editSlot, saveSlot } from './readings';
+import { BUILT_IN_SPREADS, periodSlots } from './spreads';
+import type { AppData } from './types';
+
+const monthly = BUILT_IN_SPREADS.find(spread => spread.id === 'monthly-4')!;
+
+const emptyData = (): AppData => ({
+  schemaVersion: 7,
+  cards: [],
+  groups: [{ id: 'g1', name: 'Family', members: [{ id: 'm1', name: 'Ann', joinedYears: [2025] }], yearReadings: {} }],
+  spreads: BUILT_IN_SPREADS,
+  trash: [],
+  settings: { theme: 'light' }
+});
+
+const cardsFor = (slot: number) => [1, 2, 3, 4].map(n => `s${slot}-${n}`);
+const save = (data: AppData, slot: number, cardIds = cardsFor(slot)) => saveSlot(data, 'g1', 2025, 'Ann', slot, monthly, cardIds);
+const readingOf = (data: AppData) => data.groups[0].yearReadings[2025].Ann;
+
+describe('saveSlot', () => {
+  it('starts the reading with the spread it was saved with', () => {
+    const reading = readingOf(save(emptyData(), 0));
+    expect(reading.spreadId).toBe(monthly.id);
+    expect(reading.readings[0]).toEqual({ month: 'January', cardIds: cardsFor(0) });
+    expect(reading.completedAt).toBeUndefined();
+  });
+
+  it('only completes the reading once every slot is full, whatever the order', () => {
+    let data = emptyData();
+    const order = [11, 3, 0, 7, 1, 2, 4, 5, 6, 8, 9];
+    order.forEach(slot => { data = save(data, slot); });
+    expect(readingOf(data).completedAt).toBeUndefined();
+
+    data = save(data, 10);
+    expect(readingOf(data).completedAt).toEqual(expect.any(String));
+    expect(readingOf(data).readings.map(m => m.month)).toEqual(periodSlots('monthly'));
+  });
+
+  it('rejects a card saved in any other slot, later ones included', () => {
+    const data = save(emptyData(), 8);
+    expect(() => save(data, 2, ['s8-1', 'x', 'y', 'z'])).toThrow(ReadingError);
+    expect(() => save(data, 2, ['s8-1', 'x', 'y', 'z'])).toThrow(/September/);
+  });
+
+  it('rejects the same card twice in one slot and the wrong number of cards', () => {
+    expect(() => save(emptyData(), 0, ['a', 'a', 'b', 'c'])).toThrow(/twice/);
+    expect(() => save(emptyData(), 0, ['a', 'b'])).toThrow(/needs 4 cards/);
+  });
+});
+
+describe('editSlot', () => {
+  it('records the change in the edit trail', () => {
+    const data = editSlot(save(emptyData(), 0), 'g1', 2025, 'Ann', 0, ['n1', 's0-2', 's0-3', 's0-4'], ' Bea ');
+    expect(readingOf(data).edits).toEqual([
+      { at: expect.any(String), by: 'Bea', slot: 0, before: cardsFor(0), after: ['n1', 's0-2', 's0-3', 's0-4'] }
+    ]);
+  });
+
+  it('checks corrections against the whole year', () => {
+    const data = save(save(emptyData(), 0), 5);
+    expect(() => editSlot(data, 'g1', 2025, 'Ann', 0, ['s5-1', 's0-2', 's0-3', 's0-4'], '')).toThrow(/June/);
+  });
+});
@@ -0,0 +1,128 @@
+import { isReadingComplete, periodSlots } from './spreads';
+import type { AppData, DrawLogEntry, PersonYearReading, Spread } from './types';
+
+// Changes to readings that have already been saved. A card may appear only
+// once in a person's year, so edits are checked against every other slot.
+
+export class ReadingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReadingError';
+  }
+}
+
+export const updateReading = (
+  data: AppData,
+  groupId: string,
+  year: number,
+  personName: string,
+  update: (reading: PersonYearReading) => PersonYearReading
+): AppData => ({
+  ...data,
+  groups: data.groups.map(group => {
+    const reading = group.yearReadings[year]?.[personName];
+    if (group.id !== groupId || !reading) return group;
+    return {
+      ...group,
+      yearReadings: { ...group.yearReadings, [year]: { ...group.yearReadings[year], [personName]: update(reading) } }
+    };
+  })
+});
+
+// Cards drawn in every slot of the year except the given one
+export const cardIdsInOtherSlots = (reading: PersonYearReading, slot: number) =>
+  new Set(reading.readings.flatMap((month, idx) => idx !== slot && month ? month.cardIds : []));
+
+const checkYearCards = (reading: PersonYearReading, slot: number, label: string, cardIds: string[], cardName: (cardId: string) => string) => {
+  const repeated = cardIds.find((id, idx) => cardIds.indexOf(id) !== idx);
+  if (repeated) throw new ReadingError(`${cardName(repeated)} is in ${label} twice.`);
+
+  const others = cardIdsInOtherSlots(reading, slot);
+  const clash = cardIds.find(id => others.has(id));
+  if (clash) {
+    const other = reading.readings.find((m, idx) => idx !== slot && m?.cardIds.includes(clash));
+    throw new ReadingError(`${cardName(clash)} was already drawn for ${reading.personName} in ${other?.month}.`);
+  }
+};
+
+// A reading is complete only when every slot of its spread holds a full set of
+// cards; completedAt is cleared again if that stops being true.
+export const withCompletion = (reading: PersonYearReading, spread: Spread): PersonYearReading => {
+  const complete = isReadingComplete(reading, spread);
+  return { ...reading, completedAt: complete ? reading.completedAt || new Date().toISOString() : undefined };
+};
+
+// Saves the cards for one slot, starting the reading if needed. Slots can be
+// saved in any order, so the cards are checked against the whole year.
+export const saveSlot = (
+  data: AppData,
+  groupId: string,
+  year: number,
+  personName: string,
+  slot: number,
+  spread: Spread,
+  cardIds: string[],
+  draw?: { seed: string; entry: DrawLogEntry },
+  cardName: (cardId: string) => string = id => id
+): AppData => {
+  const group = data.groups.find(g => g.id === groupId);
+  if (!group) throw new ReadingError('The group no longer exists.');
+  const label = periodSlots(spread.period)[slot];
+  if (label === undefined) throw new ReadingError(`${spread.name} has no slot ${slot + 1}.`);
+  if (cardIds.length !== spread.positions.length) {
+    throw new ReadingError(`${label} needs ${spread.positions.length} cards.`);
+  }
+
+  const existing: PersonYearReading = group.yearReadings[year]?.[personName] || {
+    personName,
+    year,
+    readings: [],
+    spreadId: spread.id
+  };
+  checkYearCards(existing, slot, label, cardIds, cardName);
+
+  const readings = [...existing.readings];
+  readings[slot] = { ...readings[slot], month: label, cardIds };
+  const saved = withCompletion(draw
+    ? { ...existing, readings, drawSeed: existing.drawSeed ?? draw.seed, drawLog: [...(existing.drawLog || []), draw.entry] }
+    : { ...existing, readings }, spread);
+
+  return {
+    ...data,
+    groups: data.groups.map(g => g.id !== groupId ? g : {
+      ...g,
+      yearReadings: { ...g.yearReadings, [year]: { ...(g.yearReadings[year] || {}), [personName]: saved } }
+    })
+  };
+};
+
+// Replaces the cards of a saved slot and adds the change to the edit trail.
+// Throws ReadingError when a card would appear twice in the year.
+export const editSlot = (
+  data: AppData,
+  groupId: string,
+  year: number,
+  personName: string,
+  slot: number,
+  cardIds: string[],
+  editedBy: string,
+  cardName: (cardId: string) => string = id => id
+): AppData => {
+  const reading = data.groups.find(g => g.id === groupId)?.yearReadings[year]?.[personName];
+  const month = reading?.readings[slot];
+  if (!reading || !month) throw new ReadingError('That reading is no longer saved.');
+  if (cardIds.length !== month.cardIds.length) {
+    throw new ReadingError(`${month.month} needs ${month.cardIds.length} cards.`);
+  }
+
+  checkYearCards(reading, slot, month.month, cardIds, cardName);
+
+  if (cardIds.every((id, idx) => id === month.cardIds[idx])) return data;
+
+  return updateReading(data, groupId, year, personName, r => {
+    const readings = [...r.readings];
+    readings[slot] = { ...month, cardIds };
+    const edit = { at: new Date().toISOString(), by: editedBy.trim(), slot, before: month.cardIds, after: cardIds };
+    return { ...r, readings, edits: [...(r.edits || []), edit] };
+  });
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { nextTask, sessionRows, skipMember, startSession } from './session';
+import { BUILT_IN_SPREADS } from './spreads';
+import type { AppData, Group, MonthReading } from './types';
+
+const quarterly = BUILT_IN_SPREADS.find(spread => spread.id === 'quarterly-4')!;
+
+const quarters = (done: number[]): MonthReading[] => {
+  const readings: MonthReading[] = [];
+  done.forEach(idx => { readings[idx] = { month: `Q${idx + 1}`, cardIds: ['a', 'b', 'c', 'd'].map(c => `${c}${idx}`) }; });
+  return readings;
+};
+
+const group: Group = {
+  id: 'g1',
+  name: 'Family',
+  spreadId: quarterly.id,
+  members: [
+    { id: 'm1', name: 'Ann', joinedYears: [2025] },
+    { id: 'm2', name: 'Bob', joinedYears: [2025] },
+    { id: 'm3', name: 'Cy', joinedYears: [2024] },
+    { id: 'm4', name: 'Di', joinedYears: [2025], archived: true }
+  ],
+  yearReadings: {
+    2025: {
+      Ann: { personName: 'Ann', year: 2025, readings: quarters([0, 1]), spreadId: quarterly.id },
+      Bob: { personName: 'Bob', year: 2025, readings: quarters([0]), spreadId: quarterly.id }
+    }
+  }
+};
+
+const data: AppData = { schemaVersion: 7, cards: [], groups: [group], spreads: BUILT_IN_SPREADS, trash: [], settings: { theme: 'light' } };
+
+describe('sessions', () => {
+  it('queues the members active that year', () => {
+    expect(startSession(group, 2025, 'round-robin').queue).toEqual(['m1', 'm2']);
+  });
+
+  it('reads progress from the saved readings', () => {
+    const rows = sessionRows(data, startSession(group, 2025, 'person'), quarterly);
+    expect(rows.map(row => [row.member.name, row.openSlots])).toEqual([['Ann', [2, 3]], ['Bob', [1, 2, 3]]]);
+  });
+
+  it('takes everyone through a slot before the next in round-robin order', () => {
+    const rows = sessionRows(data, startSession(group, 2025, 'round-robin'), quarterly);
+    expect(nextTask(rows, 'round-robin')).toEqual({ memberId: 'm2', personName: 'Bob', slot: 1 });
+  });
+
+  it('finishes one member before the next in person order', () => {
+    const rows = sessionRows(data, startSession(group, 2025, 'person'), quarterly);
+    expect(nextTask(rows, 'person')).toEqual({ memberId: 'm1', personName: 'Ann', slot: 2 });
+  });
+
+  it('moves a skipped member to the back of the queue', () => {
+    const session = skipMember(startSession(group, 2025, 'person'), 'm1');
+    expect(nextTask(sessionRows(data, session, quarterly), 'person')?.personName).toBe('Bob');
+  });
+
+  it('has nothing left once every reading is full', () => {
+    const full: AppData = {
+      ...data,
+      groups: [{
+        ...group,
+        yearReadings: { 2025: {
+          Ann: { personName: 'Ann', year: 2025, readings: quarters([0, 1, 2, 3]), spreadId: quarterly.id },
+          Bob: { personName: 'Bob', year: 2025, readings: quarters([0, 1, 2, 3]), spreadId: quarterly.id }
+        } }
+      }]
+    };
+    expect(nextTask(sessionRows(full, startSession(group, 2025, 'round-robin'), quarterly), 'round-robin')).toBeNull();
+  });
+});
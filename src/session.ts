@@ -0,0 +1,74 @@
+import { activeMembersIn } from './members';
+import { isSlotComplete, periodSlots, readingSpread } from './spreads';
+import type { AppData, Group, GroupMember, PersonYearReading, ReadingSession, SessionOrder, Spread } from './types';
+
+// Group reading nights. The session only stores who is queued and in which
+// order; what is done and what is left always comes from the saved readings.
+
+export interface SessionRow {
+  member: GroupMember;
+  reading: PersonYearReading | undefined;
+  spread: Spread;
+  slots: string[];
+  openSlots: number[];
+}
+
+export interface SessionTask {
+  memberId: string;
+  personName: string;
+  slot: number;
+}
+
+export const startSession = (group: Group, year: number, order: SessionOrder): ReadingSession => ({
+  groupId: group.id,
+  year,
+  order,
+  queue: activeMembersIn(group, year).map(member => member.id),
+  startedAt: new Date().toISOString()
+});
+
+export const sessionGroup = (data: AppData, session: ReadingSession) =>
+  data.groups.find(group => group.id === session.groupId && !group.archived);
+
+// One row per queued member still in the group, in queue order
+export const sessionRows = (data: AppData, session: ReadingSession, defaultSpread: Spread): SessionRow[] => {
+  const group = sessionGroup(data, session);
+  if (!group) return [];
+  return session.queue.flatMap(memberId => {
+    const member = group.members.find(m => m.id === memberId && !m.archived);
+    if (!member) return [];
+    const reading = group.yearReadings[session.year]?.[member.name];
+    // A reading not started yet will use the session's spread
+    const spread = reading ? readingSpread(data, group, reading) : defaultSpread;
+    const slots = periodSlots(spread.period);
+    const openSlots = slots.flatMap((_, idx) => isSlotComplete(reading?.readings[idx], spread) ? [] : [idx]);
+    return [{ member, reading, spread, slots, openSlots }];
+  });
+};
+
+// Round-robin works through slot by slot, everyone in turn; person order
+// finishes each member before the next.
+export const nextTask = (rows: SessionRow[], order: SessionOrder): SessionTask | null => {
+  const task = (row: SessionRow, slot: number): SessionTask => ({ memberId: row.member.id, personName: row.member.name, slot });
+
+  if (order === 'person') {
+    const row = rows.find(r => r.openSlots.length > 0);
+    return row ? task(row, row.openSlots[0]) : null;
+  }
+
+  const lastSlot = Math.max(-1, ...rows.map(r => r.slots.length - 1));
+  for (let slot = 0; slot <= lastSlot; slot++) {
+    const row = rows.find(r => r.openSlots.includes(slot));
+    if (row) return task(row, slot);
+  }
+  return null;
+};
+
+// Sends a member to the back of the queue, e.g. when they step out for a while
+export const skipMember = (session: ReadingSession, memberId: string): ReadingSession => ({
+  ...session,
+  queue: [...session.queue.filter(id => id !== memberId), memberId]
+});
+
+export const setSessionPaused = (session: ReadingSession, paused: boolean): ReadingSession =>
+  ({ ...session, pausedAt: paused ? new Date().toISOString() : undefined });
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_SPREADS, spreadInUse } from './spreads';
+import type { AppData, Group, PersonYearReading, Spread, TrashItem } from './types';
+
+const custom: Spread = { id: 'spread-x', name: 'Three', period: 'single', positions: ['Past', 'Present', 'Future'], connections: [[0, 1], [1, 2]] };
+
+const reading: PersonYearReading = { personName: 'Ann', year: 2025, spreadId: custom.id, readings: [{ month: 'Reading', cardIds: ['axe', 'bat', 'bell'] }] };
+
+const group: Group = { id: 'g1', name: 'Thursday', members: [{ id: 'm1', name: 'Ann', joinedYears: [2025] }], yearReadings: {} };
+
+const dataWith = (groups: Group[], trash: TrashItem[] = []): AppData => ({
+  schemaVersion: 7,
+  cards: [],
+  groups,
+  spreads: [...BUILT_IN_SPREADS, custom],
+  trash,
+  settings: { theme: 'light' }
+});
+
+const trashed = { id: 't1', deletedAt: '2025-06-01T00:00:00.000Z' };
+
+describe('spreadInUse', () => {
+  it('finds the spread on groups and their readings', () => {
+    expect(spreadInUse(dataWith([group]), custom.id)).toBe(false);
+    expect(spreadInUse(dataWith([{ ...group, spreadId: custom.id }]), custom.id)).toBe(true);
+    expect(spreadInUse(dataWith([{ ...group, yearReadings: { 2025: { Ann: reading } } }]), custom.id)).toBe(true);
+  });
+
+  it('finds the spread on trashed groups, members and readings', () => {
+    expect(spreadInUse(dataWith([group], [{ ...trashed, kind: 'reading', groupId: 'g1', groupName: 'Thursday', reading }]), custom.id)).toBe(true);
+    expect(spreadInUse(dataWith([group], [{ ...trashed, kind: 'member', groupId: 'g1', groupName: 'Thursday', member: group.members[0], readings: [reading] }]), custom.id)).toBe(true);
+    expect(spreadInUse(dataWith([], [{ ...trashed, kind: 'group', group: { ...group, yearReadings: { 2025: { Ann: reading } } } }]), custom.id)).toBe(true);
+    expect(spreadInUse(dataWith([group], [{ ...trashed, kind: 'reading', groupId: 'g1', groupName: 'Thursday', reading: { ...reading, spreadId: 'monthly-4' } }]), custom.id)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { MONTHS, type AppData, type Group, type MonthReading, type PersonYearReading, type Spread, type SpreadPeriod } from './types';
+
+export const DEFAULT_SPREAD_ID = 'monthly-4';
+
+export const FOUR_CARD_POSITIONS = ['Main theme', 'Influence', 'Outcome', 'Connecting'];
+
+// Each card links to the next one, and the connecting card links to all of them
+const FOUR_CARD_CONNECTIONS: [number, number][] = [[0, 1], [1, 2], [0, 3], [1, 3], [2, 3]];
+
+// Each position connects to the one after it
+export const adjacentConnections = (count: number): [number, number][] =>
+  Array.from({ length: Math.max(0, count - 1) }, (_, i) => [i, i + 1]);
+
+// Seeded into every library; they can be edited like any other spread, but not deleted.
+export const BUILT_IN_SPREADS: Spread[] = [
+  { id: DEFAULT_SPREAD_ID, name: 'Monthly, four cards', period: 'monthly', positions: FOUR_CARD_POSITIONS, connections: FOUR_CARD_CONNECTIONS },
+  { id: 'quarterly-4', name: 'Quarterly, four cards', period: 'quarterly', positions: FOUR_CARD_POSITIONS, connections: FOUR_CARD_CONNECTIONS },
+  { id: 'past-present-future', name: 'Past, present, future', period: 'single', positions: ['Past', 'Present', 'Future'], connections: adjacentConnections(3) }
+];
+
+export const PERIOD_LABELS: Record<SpreadPeriod, string> = {
+  monthly: 'Monthly (12 readings a year)',
+  quarterly: 'Quarterly (4 readings a year)',
+  single: 'Single reading'
+};
+
+export const MAX_SPREAD_POSITIONS = 12;
+
+// The slots a year is split into; each slot holds one full spread.
+export const periodSlots = (period: SpreadPeriod): string[] => {
+  switch (period) {
+    case 'monthly':
+      return MONTHS;
+    case 'quarterly':
+      return ['Q1 (Jan–Mar)', 'Q2 (Apr–Jun)', 'Q3 (Jul–Sep)', 'Q4 (Oct–Dec)'];
+    case 'single':
+      return ['Reading'];
+  }
+};
+
+// Month (0-11) a slot begins in, used to place readings on a calendar
+export const slotStartMonth = (period: SpreadPeriod, slot: number) => {
+  switch (period) {
+    case 'monthly':
+      return slot;
+    case 'quarterly':
+      return slot * 3;
+    case 'single':
+      return 0;
+  }
+};
+
+export const isBuiltInSpread = (spreadId: string) => BUILT_IN_SPREADS.some(spread => spread.id === spreadId);
+
+// Falls back to the default spread, so a reading is always laid out somehow.
+export const findSpread = (data: AppData, spreadId: string | undefined): Spread =>
+  data.spreads.find(spread => spread.id === spreadId) ||
+  data.spreads.find(spread => spread.id === DEFAULT_SPREAD_ID) ||
+  BUILT_IN_SPREADS[0];
+
+export const groupSpread = (data: AppData, group: Group) => findSpread(data, group.spreadId);
+
+// A reading keeps the spread it was started with, whatever the group uses now.
+export const readingSpread = (data: AppData, group: Group, reading: PersonYearReading | undefined) =>
+  findSpread(data, reading?.spreadId ?? group.spreadId);
+
+// Positions linked to the given one, in position order
+export const connectedPositions = (spread: Spread, position: number) =>
+  spread.connections
+    .flatMap(([a, b]) => a === position ? [b] : b === position ? [a] : [])
+    .sort((a, b) => a - b);
+
+export const isSlotComplete = (slot: MonthReading | null | undefined, spread: Spread) =>
+  !!slot && slot.cardIds.length === spread.positions.length;
+
+export const isReadingComplete = (reading: PersonYearReading, spread: Spread) =>
+  periodSlots(spread.period).every((_, idx) => isSlotComplete(reading.readings[idx], spread));
+
+export const spreadIssues = (spread: Spread, others: Spread[]): string[] => {
+  const issues: string[] = [];
+  if (!spread.name.trim()) issues.push('Give the spread a name.');
+  if (others.some(other => other.id !== spread.id && other.name.trim() === spread.name.trim())) {
+    issues.push(`There is already a spread called ${spread.name.trim()}.`);
+  }
+  if (spread.positions.length === 0) issues.push('A spread needs at least one position.');
+  if (spread.positions.length > MAX_SPREAD_POSITIONS) issues.push(`A spread can have at most ${MAX_SPREAD_POSITIONS} positions.`);
+  if (spread.positions.some(position => !position.trim())) issues.push('Every position needs a name.');
+  if (spread.connections.some(([a, b]) => a === b || Math.max(a, b) >= spread.positions.length || Math.min(a, b) < 0)) {
+    issues.push('A connection refers to a position the spread does not have.');
+  }
+  return issues;
+};
+
+const groupUsesSpread = (group: Group, spreadId: string) =>
+  group.spreadId === spreadId ||
+  Object.values(group.yearReadings).some(yearData => Object.values(yearData).some(reading => reading.spreadId === spreadId));
+
+// Trashed groups, members and readings count too: restoring them must find their spread
+export const spreadInUse = (data: AppData, spreadId: string) =>
+  data.groups.some(group => groupUsesSpread(group, spreadId)) ||
+  data.trash.some(item =>
+    item.kind === 'group' ? groupUsesSpread(item.group, spreadId)
+      : item.kind === 'member' ? item.readings.some(reading => reading.spreadId === spreadId)
+        : item.kind === 'reading' && item.reading.spreadId === spreadId
+  );
+
+export const newSpreadId = () => `spread-${Date.now().toString(36)}`;
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createDataStore, type StorageBackend } from './storage';
+
+// In-memory backend that throws like a browser once its values pass `quota` characters
+const memoryBackend = (quota = Infinity) => {
+  const values = new Map<string, string>();
+  const used = () => Array.from(values.values()).reduce((sum, value) => sum + value.length, 0);
+  const backend: StorageBackend = {
+    name: 'memory',
+    get: async key => values.get(key) ?? null,
+    set: async (key, value) => {
+      if (used() - (values.get(key)?.length ?? 0) + value.length > quota) {
+        throw new DOMException('Storage is full', 'QuotaExceededError');
+      }
+      values.set(key, value);
+    },
+    remove: async key => {
+      values.delete(key);
+    },
+    keys: async prefix => Array.from(values.keys()).filter(key => key.startsWith(prefix))
+  };
+  return { backend, values };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+describe('createDataStore', () => {
+  it('keeps only as many recent snapshots as its limits allow', async () => {
+    const { backend } = memoryBackend();
+    const store = createDataStore(backend, { recent: 3, daily: 3 });
+    for (let i = 0; i < 6; i++) {
+      await store.save(`data ${i}`);
+      await tick();
+    }
+    const recent = (await store.listSnapshots()).filter(snapshot => snapshot.kind === 'recent');
+    expect(recent).toHaveLength(3);
+    expect(await store.loadSnapshot(recent[0].key)).toBe('data 5');
+    expect(await store.load()).toBe('data 5');
+  });
+
+  it('drops the oldest snapshots to make room when storage is full', async () => {
+    const raw = 'x'.repeat(100);
+    // Room for the data and a few copies, well short of the limits
+    const { backend } = memoryBackend(700);
+    const store = createDataStore(backend);
+    for (let i = 0; i < 8; i++) {
+      await store.save(`${i}${raw}`);
+      await tick();
+    }
+    expect(await store.load()).toBe(`7${raw}`);
+    const snapshots = await store.listSnapshots();
+    expect(snapshots.length).toBeGreaterThan(0);
+    expect(await store.loadSnapshot(snapshots.find(snapshot => snapshot.kind === 'recent')!.key)).toBe(`7${raw}`);
+  });
+
+  it('still fails when the data alone does not fit', async () => {
+    const { backend } = memoryBackend(50);
+    await expect(createDataStore(backend).save('x'.repeat(100))).rejects.toThrow('Storage is full');
+  });
+});
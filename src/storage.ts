@@ -0,0 +1,196 @@
+// Persistence for AppData. Data is stored as raw JSON text so that anything
+// unreadable can still be handed to the recovery screen untouched.
+
+export const STORAGE_KEY = 'tea-leaf-readings';
+
+const DATA_KEY = 'data';
+const RECENT_PREFIX = 'snapshot:recent:';
+const DAILY_PREFIX = 'snapshot:daily:';
+const RECOVERY_PREFIX = 'recovery:';
+
+// How many full copies of the data are kept as snapshots
+export interface SnapshotLimits {
+  recent: number;
+  daily: number;
+}
+
+export const SNAPSHOT_LIMITS: SnapshotLimits = { recent: 20, daily: 30 };
+
+// localStorage holds about 5 MB in all, so the fallback keeps far fewer copies
+export const LOCAL_STORAGE_SNAPSHOT_LIMITS: SnapshotLimits = { recent: 3, daily: 3 };
+
+// A minimal key-value store; snapshots and migration are built on top of it.
+export interface StorageBackend {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+}
+
+export interface SnapshotInfo {
+  key: string;
+  kind: 'recent' | 'daily';
+  // ISO timestamp of the save; for daily snapshots just the day (YYYY-MM-DD)
+  takenAt: string;
+}
+
+export interface DataStore {
+  readonly backendName: string;
+  readonly snapshotLimits: SnapshotLimits;
+  load(): Promise<string | null>;
+  save(raw: string): Promise<void>;
+  listSnapshots(): Promise<SnapshotInfo[]>;
+  loadSnapshot(key: string): Promise<string | null>;
+  keepRecoveryCopy(raw: string): Promise<void>;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openIndexedDbBackend = async (dbName = 'tea-leaf-reader'): Promise<StorageBackend> => {
+  const open = indexedDB.open(dbName, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore('kv');
+  const db = await requestResult(open);
+
+  const store = (mode: IDBTransactionMode) => db.transaction('kv', mode).objectStore('kv');
+
+  return {
+    name: 'IndexedDB',
+    get: async key => (await requestResult(store('readonly').get(key))) ?? null,
+    set: async (key, value) => {
+      await requestResult(store('readwrite').put(value, key));
+    },
+    remove: async key => {
+      await requestResult(store('readwrite').delete(key));
+    },
+    keys: async prefix => {
+      const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+      return (await requestResult(store('readonly').getAllKeys(range))).map(String);
+    }
+  };
+};
+
+export const localStorageBackend = (prefix = `${STORAGE_KEY}:`): StorageBackend => ({
+  name: 'localStorage',
+  get: async key => localStorage.getItem(prefix + key),
+  set: async (key, value) => localStorage.setItem(prefix + key, value),
+  remove: async key => localStorage.removeItem(prefix + key),
+  keys: async keyPrefix => {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix + keyPrefix)) keys.push(key.slice(prefix.length));
+    }
+    return keys;
+  }
+});
+
+const pruneOldest = async (backend: StorageBackend, prefix: string, keep: number) => {
+  const keys = (await backend.keys(prefix)).sort();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - keep)).map(key => backend.remove(key)));
+};
+
+// Recent snapshots are keyed by timestamp and daily ones by day, which sort together
+const snapshotTime = (key: string) => key.startsWith(RECENT_PREFIX) ? key.slice(RECENT_PREFIX.length) : key.slice(DAILY_PREFIX.length);
+
+export const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Writes the value, dropping snapshots oldest first while storage is full.
+// Throws the quota error once there are no snapshots left to drop.
+const setWithRoom = async (backend: StorageBackend, key: string, value: string) => {
+  for (;;) {
+    try {
+      await backend.set(key, value);
+      return;
+    } catch (e) {
+      if (!isQuotaError(e)) throw e;
+      const snapshots = [...await backend.keys(RECENT_PREFIX), ...await backend.keys(DAILY_PREFIX)]
+        .sort((a, b) => snapshotTime(a).localeCompare(snapshotTime(b)));
+      if (snapshots.length === 0) throw e;
+      await backend.remove(snapshots[0]);
+    }
+  }
+};
+
+export const createDataStore = (backend: StorageBackend, limits = SNAPSHOT_LIMITS): DataStore => ({
+  backendName: backend.name,
+  snapshotLimits: limits,
+
+  load: () => backend.get(DATA_KEY),
+
+  // Writes the data, then a rolling snapshot and today's daily snapshot. The
+  // data comes first: snapshots make way for it, and are skipped when even
+  // dropping every older one leaves no room.
+  save: async raw => {
+    await setWithRoom(backend, DATA_KEY, raw);
+
+    const now = new Date().toISOString();
+    try {
+      await setWithRoom(backend, `${RECENT_PREFIX}${now}`, raw);
+      await setWithRoom(backend, `${DAILY_PREFIX}${now.slice(0, 10)}`, JSON.stringify({ takenAt: now, raw }));
+    } catch (e) {
+      if (!isQuotaError(e)) throw e;
+    }
+    await pruneOldest(backend, RECENT_PREFIX, limits.recent);
+    await pruneOldest(backend, DAILY_PREFIX, limits.daily);
+  },
+
+  listSnapshots: async () => {
+    const recent = (await backend.keys(RECENT_PREFIX)).map(key => ({
+      key,
+      kind: 'recent' as const,
+      takenAt: key.slice(RECENT_PREFIX.length)
+    }));
+    const daily = (await backend.keys(DAILY_PREFIX)).map(key => ({
+      key,
+      kind: 'daily' as const,
+      takenAt: key.slice(DAILY_PREFIX.length)
+    }));
+    return [...recent, ...daily].sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  },
+
+  loadSnapshot: async key => {
+    const value = await backend.get(key);
+    if (value === null || !key.startsWith(DAILY_PREFIX)) return value;
+    return JSON.parse(value).raw;
+  },
+
+  keepRecoveryCopy: raw => backend.set(`${RECOVERY_PREFIX}${Date.now()}`, raw)
+});
+
+// One-time move of data saved by older versions under a single localStorage key.
+// The old key is only removed once the copy has been read back intact.
+const migrateFromLocalStorage = async (backend: StorageBackend) => {
+  const legacy = localStorage.getItem(STORAGE_KEY);
+  if (legacy === null || (await backend.get(DATA_KEY)) !== null) return;
+
+  await backend.set(DATA_KEY, legacy);
+  if ((await backend.get(DATA_KEY)) === legacy) {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+// IndexedDB when the browser allows it, otherwise localStorage.
+export const openDataStore = async (): Promise<DataStore> => {
+  let backend: StorageBackend;
+  let limits = SNAPSHOT_LIMITS;
+  try {
+    backend = await openIndexedDbBackend();
+  } catch (e) {
+    console.error('IndexedDB unavailable, falling back to localStorage:', e);
+    backend = localStorageBackend();
+    limits = LOCAL_STORAGE_SNAPSHOT_LIMITS;
+  }
+
+  try {
+    await migrateFromLocalStorage(backend);
+  } catch (e) {
+    console.error('Failed to move data out of localStorage:', e);
+  }
+  return createDataStore(backend, limits);
+};
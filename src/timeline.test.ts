@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_SPREADS } from './spreads';
+import { dominantThemes, personTimeline, recurringCards, timelinePeople } from './timeline';
+import type { AppData, Card, Group } from './types';
+
+const reading = (personName: string, year: number, spreadId: string, cardIds: string[][]) => ({
+  personName,
+  year,
+  spreadId,
+  readings: cardIds.map((ids, idx) => ({ month: `Slot ${idx + 1}`, cardIds: ids }))
+});
+
+const thursday: Group = {
+  id: 'g1',
+  name: 'Thursday',
+  members: [{ id: 'm1', name: 'Ann', joinedYears: [2024, 2025] }],
+  yearReadings: {
+    2025: { Ann: reading('Ann', 2025, 'quarterly-4', [['bear', 'bell', 'ant', 'axe']]) },
+    2024: { Ann: reading('Ann', 2024, 'monthly-4', [['bear', 'angel', 'arrow', 'apple']]) }
+  }
+};
+
+const family: Group = {
+  id: 'g2',
+  name: 'Family',
+  members: [{ id: 'm2', name: 'Ann', joinedYears: [2024] }, { id: 'm3', name: 'Bob', joinedYears: [2024] }],
+  yearReadings: {
+    2024: {
+      Ann: reading('Ann', 2024, 'past-present-future', [['bell', 'bear', 'ant']]),
+      Bob: { ...reading('Bob', 2024, 'monthly-4', []), archived: true }
+    }
+  }
+};
+
+const data: AppData = { schemaVersion: 7, cards: [], groups: [thursday, family], spreads: BUILT_IN_SPREADS, trash: [], settings: { theme: 'light' } };
+
+describe('person timeline', () => {
+  it('lists people with current readings', () => {
+    expect(timelinePeople(data)).toEqual(['Ann']);
+  });
+
+  it('collects readings across groups, oldest year first', () => {
+    const rows = personTimeline(data, 'Ann');
+    expect(rows.map(row => `${row.reading.year} ${row.group.name}`)).toEqual(['2024 Family', '2024 Thursday', '2025 Thursday']);
+    expect(rows[0].cells).toEqual([{ label: 'Reading', startMonth: 0, months: 12, cardIds: ['bell', 'bear', 'ant'] }]);
+    expect(rows[2].cells.map(cell => [cell.startMonth, cell.months])).toEqual([[0, 3], [3, 3], [6, 3], [9, 3]]);
+  });
+
+  it('finds cards that come back', () => {
+    const recurring = recurringCards(personTimeline(data, 'Ann'));
+    expect(recurring.get('bear')).toEqual([2024, 2024, 2025]);
+    expect(recurring.get('ant')).toEqual([2024, 2025]);
+    expect(recurring.has('angel')).toBe(false);
+  });
+
+  it('picks the words that repeat across the cards drawn', () => {
+    const cards: Card[] = [
+      { id: 'ant', name: 'ANT', shortDescription: 'Work, achievement, success.', longDescription: '' },
+      { id: 'bell', name: 'BELL', shortDescription: 'News of success.', longDescription: '' },
+      { id: 'bird', name: 'BIRD', shortDescription: 'Good news at work.', longDescription: '' }
+    ];
+    const cardsById = new Map(cards.map(card => [card.id, card]));
+    expect(dominantThemes(['ant', 'bell', 'bird'], cardsById)).toEqual([
+      { word: 'work', count: 2 },
+      { word: 'success', count: 2 },
+      { word: 'news', count: 2 }
+    ]);
+  });
+});
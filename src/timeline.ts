@@ -0,0 +1,76 @@
+import { periodSlots, readingSpread, slotStartMonth } from './spreads';
+import type { AppData, Card, Group, PersonYearReading, Spread } from './types';
+
+// A person's readings over the years. Readings are keyed by name within each
+// group, so the same name in several groups is taken to be the same person.
+
+export interface TimelineRow {
+  group: Group;
+  reading: PersonYearReading;
+  spread: Spread;
+  // One entry per slot of the spread: where it starts on a 12-month grid and how many months it covers
+  cells: { label: string; startMonth: number; months: number; cardIds: string[] }[];
+}
+
+// Everyone with a current reading in a current group, sorted by name
+export const timelinePeople = (data: AppData) => {
+  const names = new Set<string>();
+  data.groups.filter(group => !group.archived).forEach(group =>
+    Object.values(group.yearReadings).forEach(yearData =>
+      Object.values(yearData).forEach(reading => !reading.archived && names.add(reading.personName))
+    )
+  );
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+};
+
+// Oldest year first; within a year, groups by name
+export const personTimeline = (data: AppData, personName: string): TimelineRow[] =>
+  data.groups
+    .filter(group => !group.archived)
+    .flatMap(group => Object.values(group.yearReadings).flatMap(yearData => {
+      const reading = yearData[personName];
+      if (!reading || reading.archived) return [];
+      const spread = readingSpread(data, group, reading);
+      const slots = periodSlots(spread.period);
+      const cells = slots.map((label, slot) => ({
+        label,
+        startMonth: slotStartMonth(spread.period, slot),
+        months: 12 / slots.length,
+        cardIds: reading.readings[slot]?.cardIds || []
+      }));
+      return [{ group, reading, spread, cells }];
+    }))
+    .sort((a, b) => a.reading.year - b.reading.year || a.group.name.localeCompare(b.group.name));
+
+// Cards drawn in more than one of the rows, with the years they turned up in
+export const recurringCards = (rows: TimelineRow[]) => {
+  const years = new Map<string, number[]>();
+  rows.forEach(row => {
+    new Set(row.cells.flatMap(cell => cell.cardIds)).forEach(cardId => {
+      years.set(cardId, [...(years.get(cardId) || []), row.reading.year]);
+    });
+  });
+  return new Map(Array.from(years).filter(([, found]) => found.length > 1));
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it', 'its',
+  'of', 'on', 'or', 'some', 'that', 'the', 'this', 'to', 'up', 'will', 'with', 'you', 'your', 'yours'
+]);
+
+// The words that come up most often in the short descriptions of the cards
+// drawn, e.g. "news" or "success"; ties go to the word seen first.
+export const dominantThemes = (cardIds: string[], cardsById: Map<string, Card>, limit = 3) => {
+  const counts = new Map<string, number>();
+  cardIds.forEach(cardId => {
+    const words = (cardsById.get(cardId)?.shortDescription || '').toLowerCase().match(/[a-z']+/g) || [];
+    new Set(words.filter(word => word.length > 2 && !STOP_WORDS.has(word))).forEach(word => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+    });
+  });
+  return Array.from(counts)
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word, count]) => ({ word, count }));
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { applyCardMerge, planCardMerge } from './cardMerge';
+import { BUILT_IN_SPREADS } from './spreads';
+import { TrashError, cardIdsInUse, deleteCard, deleteGroup, deleteMember, deleteReading, purgeExpiredTrash, replaceCards, restoreTrashItem } from './trash';
+import type { AppData, PersonYearReading } from './types';
+
+const reading = (personName: string, year: number, cardIds = ['axe', 'bat', 'bear', 'bell']): PersonYearReading =>
+  ({ personName, year, spreadId: 'monthly-4', readings: [{ month: 'January', cardIds }] });
+
+const data = (): AppData => ({
+  schemaVersion: 7,
+  cards: ['axe', 'bat', 'bear', 'bell', 'sun'].map(id => ({ id, name: id.toUpperCase(), shortDescription: '', longDescription: '' })),
+  groups: [{
+    id: 'g1',
+    name: 'Thursday',
+    members: [{ id: 'm1', name: 'Ann', joinedYears: [2024, 2025] }, { id: 'm2', name: 'Bob', joinedYears: [2025] }],
+    yearReadings: { 2024: { Ann: reading('Ann', 2024) }, 2025: { Ann: reading('Ann', 2025), Bob: reading('Bob', 2025) } }
+  }],
+  spreads: BUILT_IN_SPREADS,
+  trash: [],
+  settings: { theme: 'light' }
+});
+
+const lastTrashId = (d: AppData) => d.trash[d.trash.length - 1].id;
+
+describe('trash', () => {
+  it('deletes a member with their readings and restores them together', () => {
+    const deleted = deleteMember(data(), 'g1', 'm1');
+    expect(deleted.groups[0].members.map(m => m.name)).toEqual(['Bob']);
+    expect(Object.keys(deleted.groups[0].yearReadings)).toEqual(['2025']);
+    expect(deleted.trash[0]).toMatchObject({ kind: 'member', groupId: 'g1', readings: [reading('Ann', 2024), reading('Ann', 2025)] });
+
+    const restored = restoreTrashItem(deleted, lastTrashId(deleted));
+    expect(restored.trash).toEqual([]);
+    expect(restored.groups[0].yearReadings[2024].Ann).toEqual(reading('Ann', 2024));
+    expect(restored.groups[0].members.map(m => m.name)).toEqual(['Bob', 'Ann']);
+  });
+
+  it('refuses to restore a reading over one saved since', () => {
+    const deleted = deleteReading(data(), 'g1', 2025, 'Bob');
+    const redone = { ...deleted, groups: [{ ...deleted.groups[0], yearReadings: { ...deleted.groups[0].yearReadings, 2025: { ...deleted.groups[0].yearReadings[2025], Bob: reading('Bob', 2025, ['sun']) } } }] };
+    expect(() => restoreTrashItem(redone, lastTrashId(redone))).toThrow(new TrashError('Bob already has a 2025 reading in Thursday.'));
+    expect(restoreTrashItem(deleted, lastTrashId(deleted)).groups[0].yearReadings[2025].Bob).toEqual(reading('Bob', 2025));
+  });
+
+  it('refuses to restore a member whose name has been taken', () => {
+    const deleted = deleteMember(data(), 'g1', 'm2');
+    const retaken = { ...deleted, groups: [{ ...deleted.groups[0], members: [...deleted.groups[0].members, { id: 'm3', name: 'Bob', joinedYears: [2025] }] }] };
+    expect(() => restoreTrashItem(retaken, lastTrashId(retaken))).toThrow('Thursday already has a member called Bob.');
+  });
+
+  it('asks for the group back before its members or readings', () => {
+    let d = deleteReading(data(), 'g1', 2024, 'Ann');
+    const readingId = lastTrashId(d);
+    d = deleteGroup(d, 'g1');
+    expect(() => restoreTrashItem(d, readingId)).toThrow('Restore the group "Thursday" first.');
+    d = restoreTrashItem(d, lastTrashId(d));
+    expect(() => restoreTrashItem(d, lastTrashId(d))).not.toThrow();
+  });
+
+  it('only deletes cards no reading uses, trashed readings included', () => {
+    expect(() => deleteCard(data(), 'axe')).toThrow(TrashError);
+    const d = deleteCard(data(), 'sun');
+    expect(d.cards.map(c => c.id)).not.toContain('sun');
+    const trashedReading = deleteReading({ ...data(), groups: [{ ...data().groups[0], yearReadings: { 2025: { Bob: reading('Bob', 2025, ['sun']) } } }] }, 'g1', 2025, 'Bob');
+    expect(() => deleteCard(trashedReading, 'sun')).toThrow(TrashError);
+  });
+
+  it('keeps cards used by trashed readings through an import merge, and trashes the rest', () => {
+    const trashed = deleteReading({ ...data(), groups: [{ ...data().groups[0], yearReadings: { 2025: { Bob: reading('Bob', 2025, ['sun']) } } }] }, 'g1', 2025, 'Bob');
+    const incoming = trashed.cards.filter(c => c.id === 'axe');
+    const plan = planCardMerge(trashed.cards, incoming, cardIdsInUse(trashed));
+    const removeAll = Object.fromEntries(plan.map(entry => [entry.key, 'incoming' as const]));
+    const merged = replaceCards(trashed, applyCardMerge(trashed.cards, plan, removeAll));
+
+    expect(merged.cards.map(c => c.id)).toEqual(['axe', 'sun']);
+    expect(merged.trash.flatMap(item => item.kind === 'card' ? [item.card.id] : [])).toEqual(['bat', 'bear', 'bell']);
+    const restored = restoreTrashItem(merged, merged.trash.find(item => item.kind === 'card' && item.card.id === 'bat')!.id);
+    expect(restored.cards.map(c => c.id)).toContain('bat');
+  });
+
+  it('empties items past the retention period', () => {
+    const d = deleteCard(data(), 'sun');
+    const deletedAt = new Date(d.trash[0].deletedAt).getTime();
+    expect(purgeExpiredTrash(d, deletedAt + 29 * 86400000).trash).toHaveLength(1);
+    expect(purgeExpiredTrash(d, deletedAt + 30 * 86400000).trash).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+import { referencedCardIds } from './cardMerge';
+import type { AppData, Card, Group, PersonYearReading, TrashItem } from './types';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export class TrashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrashError';
+  }
+}
+
+const newTrashId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Omit over each member of the union, so `kind` still picks the right fields
+type NewTrashItem = TrashItem extends infer T ? T extends TrashItem ? Omit<T, 'id' | 'deletedAt'> : never : never;
+
+const toTrash = (data: AppData, item: NewTrashItem): TrashItem[] => [
+  ...data.trash,
+  { ...item, id: newTrashId(), deletedAt: new Date().toISOString() } as TrashItem
+];
+
+const updateGroup = (data: AppData, groupId: string, update: (group: Group) => Group): Group[] =>
+  data.groups.map(group => group.id === groupId ? update(group) : group);
+
+const findGroup = (data: AppData, groupId: string) => {
+  const group = data.groups.find(g => g.id === groupId);
+  if (!group) throw new TrashError('The group no longer exists.');
+  return group;
+};
+
+// Drops the given people's readings, and any year left without readings.
+const withoutReadings = (yearReadings: Group['yearReadings'], remove: (year: number, person: string) => boolean) => {
+  const result: Group['yearReadings'] = {};
+  Object.entries(yearReadings).forEach(([yearKey, yearData]) => {
+    const year = Number(yearKey);
+    const kept = Object.fromEntries(Object.entries(yearData).filter(([person]) => !remove(year, person)));
+    if (Object.keys(kept).length > 0) result[year] = kept;
+  });
+  return result;
+};
+
+// Cards used by saved readings, including readings waiting in the trash
+export const cardIdsInUse = (data: AppData) => {
+  const ids = referencedCardIds(data.groups);
+  const trashedReadings = data.trash.flatMap((item): PersonYearReading[] => {
+    if (item.kind === 'group') return Object.values(item.group.yearReadings).flatMap(yearData => Object.values(yearData));
+    if (item.kind === 'member') return item.readings;
+    if (item.kind === 'reading') return [item.reading];
+    return [];
+  });
+  trashedReadings.forEach(reading => reading.readings.forEach(month => month?.cardIds.forEach(id => ids.add(id))));
+  return ids;
+};
+
+// Cards that appear in readings can't be deleted, only archived, so no reading
+// is ever left pointing at nothing.
+export const deleteCard = (data: AppData, cardId: string): AppData => {
+  const card = data.cards.find(c => c.id === cardId);
+  if (!card) return data;
+  if (cardIdsInUse(data).has(cardId)) {
+    throw new TrashError(`"${card.name}" is used in saved readings. Archive it instead.`);
+  }
+  return {
+    ...data,
+    cards: data.cards.filter(c => c.id !== cardId),
+    trash: toTrash(data, { kind: 'card', card })
+  };
+};
+
+// Swaps in a new card library, e.g. after an import merge. Cards it leaves out
+// go to the trash like any other deleted card.
+export const replaceCards = (data: AppData, cards: Card[]): AppData => {
+  const kept = new Set(cards.map(card => card.id));
+  const trash = data.cards
+    .filter(card => !kept.has(card.id))
+    .reduce((items, card) => toTrash({ ...data, trash: items }, { kind: 'card', card }), data.trash);
+  return { ...data, cards, trash };
+};
+
+// The group goes to the trash whole, with its members and readings.
+export const deleteGroup = (data: AppData, groupId: string): AppData => {
+  const group = findGroup(data, groupId);
+  return {
+    ...data,
+    groups: data.groups.filter(g => g.id !== groupId),
+    trash: toTrash(data, { kind: 'group', group })
+  };
+};
+
+// Removes the member and every reading recorded for them in this group.
+export const deleteMember = (data: AppData, groupId: string, memberId: string): AppData => {
+  const group = findGroup(data, groupId);
+  const member = group.members.find(m => m.id === memberId);
+  if (!member) return data;
+
+  const readings = Object.values(group.yearReadings).flatMap(yearData => yearData[member.name] ? [yearData[member.name]] : []);
+  return {
+    ...data,
+    groups: updateGroup(data, groupId, g => ({
+      ...g,
+      members: g.members.filter(m => m.id !== memberId),
+      yearReadings: withoutReadings(g.yearReadings, (_, person) => person === member.name)
+    })),
+    trash: toTrash(data, { kind: 'member', groupId, groupName: group.name, member, readings })
+  };
+};
+
+export const deleteReading = (data: AppData, groupId: string, year: number, personName: string): AppData => {
+  const group = findGroup(data, groupId);
+  const reading = group.yearReadings[year]?.[personName];
+  if (!reading) return data;
+
+  return {
+    ...data,
+    groups: updateGroup(data, groupId, g => ({
+      ...g,
+      yearReadings: withoutReadings(g.yearReadings, (y, person) => y === year && person === personName)
+    })),
+    trash: toTrash(data, { kind: 'reading', groupId, groupName: group.name, reading })
+  };
+};
+
+const restoreReadings = (group: Group, readings: PersonYearReading[]): Group => {
+  const yearReadings = { ...group.yearReadings };
+  readings.forEach(reading => {
+    if (yearReadings[reading.year]?.[reading.personName]) {
+      throw new TrashError(`${reading.personName} already has a ${reading.year} reading in ${group.name}.`);
+    }
+    yearReadings[reading.year] = { ...(yearReadings[reading.year] || {}), [reading.personName]: reading };
+  });
+  return { ...group, yearReadings };
+};
+
+// Puts an item back where it came from. Throws TrashError when that would
+// clash with something created since it was deleted.
+export const restoreTrashItem = (data: AppData, itemId: string): AppData => {
+  const item = data.trash.find(t => t.id === itemId);
+  if (!item) return data;
+  const trash = data.trash.filter(t => t.id !== itemId);
+
+  switch (item.kind) {
+    case 'card':
+      if (data.cards.some(c => c.id === item.card.id)) {
+        throw new TrashError(`A card with the ID "${item.card.id}" is already in the library.`);
+      }
+      return { ...data, cards: [...data.cards, item.card], trash };
+
+    case 'group':
+      if (data.groups.some(g => g.id === item.group.id)) {
+        throw new TrashError(`The group "${item.group.name}" already exists.`);
+      }
+      return { ...data, groups: [...data.groups, item.group], trash };
+
+    case 'member': {
+      if (!data.groups.some(g => g.id === item.groupId)) {
+        throw new TrashError(`Restore the group "${item.groupName}" first.`);
+      }
+      const groups = updateGroup(data, item.groupId, group => {
+        if (group.members.some(m => m.id === item.member.id || m.name === item.member.name)) {
+          throw new TrashError(`${group.name} already has a member called ${item.member.name}.`);
+        }
+        return restoreReadings({ ...group, members: [...group.members, item.member] }, item.readings);
+      });
+      return { ...data, groups, trash };
+    }
+
+    case 'reading': {
+      if (!data.groups.some(g => g.id === item.groupId)) {
+        throw new TrashError(`Restore the group "${item.groupName}" first.`);
+      }
+      return { ...data, groups: updateGroup(data, item.groupId, group => restoreReadings(group, [item.reading])), trash };
+    }
+  }
+};
+
+export const removeFromTrash = (data: AppData, itemIds: string[]): AppData => {
+  const ids = new Set(itemIds);
+  return { ...data, trash: data.trash.filter(item => !ids.has(item.id)) };
+};
+
+export const trashRetentionDays = (data: AppData) => data.settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+export const trashExpiresAt = (item: TrashItem, retentionDays: number) =>
+  new Date(new Date(item.deletedAt).getTime() + retentionDays * 86400000);
+
+export const purgeExpiredTrash = (data: AppData, now = Date.now()): AppData => {
+  const retentionDays = trashRetentionDays(data);
+  const expired = data.trash.filter(item => trashExpiresAt(item, retentionDays).getTime() <= now);
+  return expired.length > 0 ? removeFromTrash(data, expired.map(item => item.id)) : data;
+};
+
+export const describeTrashItem = (item: TrashItem) => {
+  switch (item.kind) {
+    case 'card':
+      return { title: item.card.name, detail: 'Card' };
+    case 'group':
+      return { title: item.group.name, detail: `Group with ${item.group.members.length} members` };
+    case 'member':
+      return { title: item.member.name, detail: `Member of ${item.groupName}, ${item.readings.length} readings` };
+    case 'reading':
+      return { title: `${item.reading.personName} ${item.reading.year}`, detail: `Reading in ${item.groupName}` };
+  }
+};
+
+// Archiving hides something from everyday lists without deleting it.
+export const setCardArchived = (data: AppData, cardId: string, archived: boolean): AppData => ({
+  ...data,
+  cards: data.cards.map(card => card.id === cardId ? { ...card, archived: archived || undefined } : card)
+});
+
+export const setGroupArchived = (data: AppData, groupId: string, archived: boolean): AppData => ({
+  ...data,
+  groups: updateGroup(data, groupId, group => ({ ...group, archived: archived || undefined }))
+});
+
+export const setMemberArchived = (data: AppData, groupId: string, memberId: string, archived: boolean): AppData => ({
+  ...data,
+  groups: updateGroup(data, groupId, group => ({
+    ...group,
+    members: group.members.map(m => m.id === memberId ? { ...m, archived: archived || undefined } : m)
+  }))
+});
+
+export const setReadingArchived = (data: AppData, groupId: string, year: number, personName: string, archived: boolean): AppData => ({
+  ...data,
+  groups: updateGroup(data, groupId, group => {
+    const reading = group.yearReadings[year]?.[personName];
+    if (!reading) return group;
+    return {
+      ...group,
+      yearReadings: {
+        ...group.yearReadings,
+        [year]: { ...group.yearReadings[year], [personName]: { ...reading, archived: archived || undefined } }
+      }
+    };
+  })
+});
@@ -0,0 +1,169 @@
+// Types
+export interface Card {
+  id: string;
+  name: string;
+  shortDescription: string;
+  longDescription: string;
+  // Hidden from the library and card picker, but still shown in old readings
+  archived?: boolean;
+  // Unset until the card has been tagged
+  sentiment?: CardSentiment;
+  themes?: CardTheme[];
+  // Read together with its connecting cards to tell what it is about
+  needsConnecting?: boolean;
+  // Tags were proposed from the card text and haven't been reviewed yet
+  autoTagged?: boolean;
+}
+
+export type CardSentiment = 'positive' | 'negative' | 'neutral' | 'ambiguous';
+
+export type CardTheme = 'money' | 'love' | 'work' | 'health' | 'travel' | 'news' | 'people';
+
+export type SpreadPeriod = 'monthly' | 'quarterly' | 'single';
+
+// How a reading is laid out: one card per position, repeated once per period slot
+export interface Spread {
+  id: string;
+  name: string;
+  period: SpreadPeriod;
+  // Position names in drawing order; their count is the number of cards per slot
+  positions: string[];
+  // Pairs of position indexes whose cards are read together ("connecting cards")
+  connections: [number, number][];
+}
+
+// One slot of a year's reading; despite the name it may also be a quarter or a single draw
+export interface MonthReading {
+  // Slot label, e.g. "March" or "Q2 (Apr–Jun)"
+  month: string;
+  // References into AppData.cards, resolved at render time. cardIds[i] is the
+  // card drawn for the spread's positions[i].
+  cardIds: string[];
+  // What the reader said about the slot as a whole
+  notes?: string;
+  // Notes on single cards, indexed like cardIds; empty strings where there are none
+  cardNotes?: string[];
+  reflection?: Reflection;
+}
+
+export type AccuracyRating = 'accurate' | 'partly' | 'missed';
+
+// Written after the period has passed: how the prediction turned out
+export interface Reflection {
+  text: string;
+  accuracy?: AccuracyRating;
+  recordedAt: string;
+}
+
+// One deal made in the app, kept so the draw can be checked or replayed
+export interface DrawLogEntry {
+  // Index of the slot (month, quarter...) the cards were dealt for
+  slot: number;
+  // 1 for the first deal of the slot, higher when it was dealt again
+  attempt: number;
+  drawnAt: string;
+  // Number of cards that could still be drawn; they are shuffled in ID order
+  poolSize: number;
+  cardIds: string[];
+}
+
+// A change to an already saved slot; the reading keeps a list of them as its edit trail
+export interface ReadingEdit {
+  at: string;
+  // Name given by whoever made the change; empty when none was given
+  by: string;
+  slot: number;
+  before: string[];
+  after: string[];
+}
+
+export interface PersonYearReading {
+  personName: string;
+  year: number;
+  readings: MonthReading[];
+  completedAt?: string;
+  archived?: boolean;
+  // Notes on the year as a whole
+  notes?: string;
+  // The spread the reading was started with; the group's spread when unset
+  spreadId?: string;
+  // Set once any slot has been dealt in the app
+  drawSeed?: string;
+  drawLog?: DrawLogEntry[];
+  edits?: ReadingEdit[];
+}
+
+export interface GroupMember {
+  // Stable across renames; readings are still keyed by name
+  id: string;
+  name: string;
+  // Years the member took part in, ascending
+  joinedYears: number[];
+  archived?: boolean;
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  members: GroupMember[];
+  yearReadings: {
+    [year: number]: {
+      [personName: string]: PersonYearReading;
+    };
+  };
+  archived?: boolean;
+  // Spread for new readings; the default spread when unset
+  spreadId?: string;
+}
+
+interface TrashItemBase {
+  id: string;
+  deletedAt: string;
+}
+
+// Deleted things are kept here, with whatever they took with them, until the
+// retention window runs out or the trash is emptied
+export type TrashItem =
+  | TrashItemBase & { kind: 'card'; card: Card }
+  | TrashItemBase & { kind: 'group'; group: Group }
+  | TrashItemBase & { kind: 'member'; groupId: string; groupName: string; member: GroupMember; readings: PersonYearReading[] }
+  | TrashItemBase & { kind: 'reading'; groupId: string; groupName: string; reading: PersonYearReading };
+
+export type SessionOrder = 'round-robin' | 'person';
+
+// A group's reading night: every queued member gets a full year's reading.
+// Progress is read from the saved readings, so only the plan is stored here.
+export interface ReadingSession {
+  groupId: string;
+  year: number;
+  // 'round-robin' takes everyone through a slot before the next; 'person' finishes one member at a time
+  order: SessionOrder;
+  // Member IDs, in the order they take their turns
+  queue: string[];
+  startedAt: string;
+  pausedAt?: string;
+}
+
+export interface AppData {
+  schemaVersion: number;
+  cards: Card[];
+  groups: Group[];
+  spreads: Spread[];
+  trash: TrashItem[];
+  settings: {
+    theme: 'light' | 'dark';
+    lastSelectedGroup?: string;
+    lastSelectedYear?: number;
+    // Remind after this many days without a backup; unset means no reminder
+    backupReminderDays?: number;
+    lastBackupAt?: string;
+    // Days before deleted items are removed for good; defaults to DEFAULT_TRASH_RETENTION_DAYS
+    trashRetentionDays?: number;
+    // Recorded in the edit trail of readings changed after saving
+    editorName?: string;
+    // Kept in settings so a session can be resumed after a restart, without undo steps
+    session?: ReadingSession;
+  };
+}
+
+export const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_SPREADS } from './spreads';
+import { validateAppData } from './validation';
+
+const valid = () => ({
+  schemaVersion: 7,
+  cards: [{ id: 'axe', name: 'AXE', shortDescription: 'Danger.', longDescription: '' }],
+  groups: [{
+    id: 'g1',
+    name: 'Thursday',
+    members: [{ id: 'm1', name: 'Ann', joinedYears: [2025] }],
+    yearReadings: { 2025: { Ann: { personName: 'Ann', year: 2025, spreadId: 'monthly-4', readings: [{ month: 'January', cardIds: ['axe'] }] } } }
+  }],
+  spreads: BUILT_IN_SPREADS,
+  trash: [],
+  settings: { theme: 'light' }
+});
+
+describe('validateAppData', () => {
+  it('accepts well-formed data', () => {
+    expect(validateAppData(valid())).toEqual([]);
+  });
+
+  it('reports each bad field by its path', () => {
+    const data: any = valid();
+    data.cards[0].name = 3;
+    data.groups[0].members[0].joinedYears = [2025, '2026'];
+    delete data.trash;
+    expect(validateAppData(data)).toEqual([
+      'cards[0].name: expected string, got number',
+      'groups[0].members[0].joinedYears[1]: expected number, got string',
+      'trash: expected array, got undefined'
+    ]);
+  });
+
+  it('rejects something that is not data at all', () => {
+    expect(validateAppData(null)).toEqual(['data: expected object, got null']);
+  });
+});
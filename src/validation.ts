@@ -0,0 +1,259 @@
+// Runtime checks for data loaded from storage. Each problem is reported with
+// the path of the offending field, e.g. "groups[0].members[2].joinedYears[1]".
+
+type Issues = string[];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const expectString = (value: unknown, path: string, issues: Issues, optional = false) => {
+  if (optional && value === undefined) return;
+  if (typeof value !== 'string') issues.push(`${path}: expected string, got ${describe(value)}`);
+};
+
+const expectNumber = (value: unknown, path: string, issues: Issues, optional = false) => {
+  if (optional && value === undefined) return;
+  if (typeof value !== 'number' || Number.isNaN(value)) issues.push(`${path}: expected number, got ${describe(value)}`);
+};
+
+const expectBoolean = (value: unknown, path: string, issues: Issues, optional = false) => {
+  if (optional && value === undefined) return;
+  if (typeof value !== 'boolean') issues.push(`${path}: expected boolean, got ${describe(value)}`);
+};
+
+const expectArray = (value: unknown, path: string, issues: Issues): value is unknown[] => {
+  if (Array.isArray(value)) return true;
+  issues.push(`${path}: expected array, got ${describe(value)}`);
+  return false;
+};
+
+const expectObject = (value: unknown, path: string, issues: Issues): value is Record<string, any> => {
+  if (isObject(value)) return true;
+  issues.push(`${path}: expected object, got ${describe(value)}`);
+  return false;
+};
+
+const validateCard = (card: unknown, path: string, issues: Issues) => {
+  if (!expectObject(card, path, issues)) return;
+  expectString(card.id, `${path}.id`, issues);
+  expectString(card.name, `${path}.name`, issues);
+  expectString(card.shortDescription, `${path}.shortDescription`, issues);
+  expectString(card.longDescription, `${path}.longDescription`, issues);
+  expectBoolean(card.archived, `${path}.archived`, issues, true);
+  if (card.sentiment !== undefined && !['positive', 'negative', 'neutral', 'ambiguous'].includes(card.sentiment)) {
+    issues.push(`${path}.sentiment: expected "positive", "negative", "neutral" or "ambiguous", got ${JSON.stringify(card.sentiment)}`);
+  }
+  if (card.themes !== undefined && expectArray(card.themes, `${path}.themes`, issues)) {
+    card.themes.forEach((theme, i) => {
+      if (!['money', 'love', 'work', 'health', 'travel', 'news', 'people'].includes(theme as string)) {
+        issues.push(`${path}.themes[${i}]: unknown theme ${JSON.stringify(theme)}`);
+      }
+    });
+  }
+  expectBoolean(card.needsConnecting, `${path}.needsConnecting`, issues, true);
+  expectBoolean(card.autoTagged, `${path}.autoTagged`, issues, true);
+};
+
+const validateMonthReading = (month: unknown, path: string, issues: Issues) => {
+  // Months that haven't been entered yet are stored as null
+  if (month === null || month === undefined) return;
+  if (!expectObject(month, path, issues)) return;
+  expectString(month.month, `${path}.month`, issues);
+  if (expectArray(month.cardIds, `${path}.cardIds`, issues)) {
+    month.cardIds.forEach((id, i) => expectString(id, `${path}.cardIds[${i}]`, issues));
+  }
+  expectString(month.notes, `${path}.notes`, issues, true);
+  if (month.cardNotes !== undefined && expectArray(month.cardNotes, `${path}.cardNotes`, issues)) {
+    month.cardNotes.forEach((note, i) => expectString(note, `${path}.cardNotes[${i}]`, issues));
+  }
+  if (month.reflection !== undefined && expectObject(month.reflection, `${path}.reflection`, issues)) {
+    expectString(month.reflection.text, `${path}.reflection.text`, issues);
+    expectString(month.reflection.recordedAt, `${path}.reflection.recordedAt`, issues);
+    if (month.reflection.accuracy !== undefined && !['accurate', 'partly', 'missed'].includes(month.reflection.accuracy)) {
+      issues.push(`${path}.reflection.accuracy: expected "accurate", "partly" or "missed", got ${JSON.stringify(month.reflection.accuracy)}`);
+    }
+  }
+};
+
+const validateDrawLogEntry = (entry: unknown, path: string, issues: Issues) => {
+  if (!expectObject(entry, path, issues)) return;
+  expectNumber(entry.slot, `${path}.slot`, issues);
+  expectNumber(entry.attempt, `${path}.attempt`, issues);
+  expectString(entry.drawnAt, `${path}.drawnAt`, issues);
+  expectNumber(entry.poolSize, `${path}.poolSize`, issues);
+  if (expectArray(entry.cardIds, `${path}.cardIds`, issues)) {
+    entry.cardIds.forEach((id, i) => expectString(id, `${path}.cardIds[${i}]`, issues));
+  }
+};
+
+const validateReadingEdit = (edit: unknown, path: string, issues: Issues) => {
+  if (!expectObject(edit, path, issues)) return;
+  expectString(edit.at, `${path}.at`, issues);
+  expectString(edit.by, `${path}.by`, issues);
+  expectNumber(edit.slot, `${path}.slot`, issues);
+  (['before', 'after'] as const).forEach(key => {
+    if (expectArray(edit[key], `${path}.${key}`, issues)) {
+      edit[key].forEach((id: unknown, i: number) => expectString(id, `${path}.${key}[${i}]`, issues));
+    }
+  });
+};
+
+const validatePersonYearReading = (reading: unknown, path: string, issues: Issues) => {
+  if (!expectObject(reading, path, issues)) return;
+  expectString(reading.personName, `${path}.personName`, issues);
+  expectNumber(reading.year, `${path}.year`, issues);
+  expectString(reading.completedAt, `${path}.completedAt`, issues, true);
+  expectBoolean(reading.archived, `${path}.archived`, issues, true);
+  expectString(reading.notes, `${path}.notes`, issues, true);
+  expectString(reading.spreadId, `${path}.spreadId`, issues, true);
+  expectString(reading.drawSeed, `${path}.drawSeed`, issues, true);
+  if (reading.drawLog !== undefined && expectArray(reading.drawLog, `${path}.drawLog`, issues)) {
+    reading.drawLog.forEach((entry, i) => validateDrawLogEntry(entry, `${path}.drawLog[${i}]`, issues));
+  }
+  if (reading.edits !== undefined && expectArray(reading.edits, `${path}.edits`, issues)) {
+    reading.edits.forEach((edit, i) => validateReadingEdit(edit, `${path}.edits[${i}]`, issues));
+  }
+  if (expectArray(reading.readings, `${path}.readings`, issues)) {
+    reading.readings.forEach((month, i) => validateMonthReading(month, `${path}.readings[${i}]`, issues));
+  }
+};
+
+const validateMember = (member: unknown, path: string, issues: Issues) => {
+  if (!expectObject(member, path, issues)) return;
+  expectString(member.id, `${path}.id`, issues);
+  expectString(member.name, `${path}.name`, issues);
+  expectBoolean(member.archived, `${path}.archived`, issues, true);
+  if (expectArray(member.joinedYears, `${path}.joinedYears`, issues)) {
+    member.joinedYears.forEach((year, j) => expectNumber(year, `${path}.joinedYears[${j}]`, issues));
+  }
+};
+
+const validateGroup = (group: unknown, path: string, issues: Issues) => {
+  if (!expectObject(group, path, issues)) return;
+  expectString(group.id, `${path}.id`, issues);
+  expectString(group.name, `${path}.name`, issues);
+  expectBoolean(group.archived, `${path}.archived`, issues, true);
+  expectString(group.spreadId, `${path}.spreadId`, issues, true);
+
+  if (expectArray(group.members, `${path}.members`, issues)) {
+    group.members.forEach((member, i) => validateMember(member, `${path}.members[${i}]`, issues));
+  }
+
+  if (expectObject(group.yearReadings, `${path}.yearReadings`, issues)) {
+    Object.entries(group.yearReadings).forEach(([year, yearData]) => {
+      const yearPath = `${path}.yearReadings.${year}`;
+      if (!/^\d+$/.test(year)) issues.push(`${yearPath}: year key is not a number`);
+      if (!expectObject(yearData, yearPath, issues)) return;
+      Object.entries(yearData).forEach(([person, reading]) => {
+        validatePersonYearReading(reading, `${yearPath}[${JSON.stringify(person)}]`, issues);
+      });
+    });
+  }
+};
+
+const validateSession = (session: unknown, path: string, issues: Issues) => {
+  if (!expectObject(session, path, issues)) return;
+  expectString(session.groupId, `${path}.groupId`, issues);
+  expectNumber(session.year, `${path}.year`, issues);
+  if (session.order !== 'round-robin' && session.order !== 'person') {
+    issues.push(`${path}.order: expected "round-robin" or "person", got ${JSON.stringify(session.order)}`);
+  }
+  if (expectArray(session.queue, `${path}.queue`, issues)) {
+    session.queue.forEach((id, i) => expectString(id, `${path}.queue[${i}]`, issues));
+  }
+  expectString(session.startedAt, `${path}.startedAt`, issues);
+  expectString(session.pausedAt, `${path}.pausedAt`, issues, true);
+};
+
+const validateSpread = (spread: unknown, path: string, issues: Issues) => {
+  if (!expectObject(spread, path, issues)) return;
+  expectString(spread.id, `${path}.id`, issues);
+  expectString(spread.name, `${path}.name`, issues);
+  if (!['monthly', 'quarterly', 'single'].includes(spread.period)) {
+    issues.push(`${path}.period: expected "monthly", "quarterly" or "single", got ${JSON.stringify(spread.period)}`);
+  }
+  if (expectArray(spread.positions, `${path}.positions`, issues)) {
+    spread.positions.forEach((position, i) => expectString(position, `${path}.positions[${i}]`, issues));
+  }
+  if (expectArray(spread.connections, `${path}.connections`, issues)) {
+    spread.connections.forEach((pair, i) => {
+      const pairPath = `${path}.connections[${i}]`;
+      if (!Array.isArray(pair) || pair.length !== 2) {
+        issues.push(`${pairPath}: expected a pair of position indexes, got ${describe(pair)}`);
+        return;
+      }
+      pair.forEach((position, j) => expectNumber(position, `${pairPath}[${j}]`, issues));
+    });
+  }
+};
+
+const validateTrashItem = (item: unknown, path: string, issues: Issues) => {
+  if (!expectObject(item, path, issues)) return;
+  expectString(item.id, `${path}.id`, issues);
+  expectString(item.deletedAt, `${path}.deletedAt`, issues);
+
+  switch (item.kind) {
+    case 'card':
+      validateCard(item.card, `${path}.card`, issues);
+      break;
+    case 'group':
+      validateGroup(item.group, `${path}.group`, issues);
+      break;
+    case 'member':
+      expectString(item.groupId, `${path}.groupId`, issues);
+      expectString(item.groupName, `${path}.groupName`, issues);
+      validateMember(item.member, `${path}.member`, issues);
+      if (expectArray(item.readings, `${path}.readings`, issues)) {
+        item.readings.forEach((reading, i) => validatePersonYearReading(reading, `${path}.readings[${i}]`, issues));
+      }
+      break;
+    case 'reading':
+      expectString(item.groupId, `${path}.groupId`, issues);
+      expectString(item.groupName, `${path}.groupName`, issues);
+      validatePersonYearReading(item.reading, `${path}.reading`, issues);
+      break;
+    default:
+      issues.push(`${path}.kind: unknown kind ${JSON.stringify(item.kind)}`);
+  }
+};
+
+export const validateAppData = (data: unknown): string[] => {
+  const issues: Issues = [];
+  if (!expectObject(data, 'data', issues)) return issues;
+
+  expectNumber(data.schemaVersion, 'schemaVersion', issues);
+
+  if (expectArray(data.cards, 'cards', issues)) {
+    data.cards.forEach((card, i) => validateCard(card, `cards[${i}]`, issues));
+  }
+
+  if (expectArray(data.groups, 'groups', issues)) {
+    data.groups.forEach((group, i) => validateGroup(group, `groups[${i}]`, issues));
+  }
+
+  if (expectArray(data.spreads, 'spreads', issues)) {
+    data.spreads.forEach((spread, i) => validateSpread(spread, `spreads[${i}]`, issues));
+  }
+
+  if (expectArray(data.trash, 'trash', issues)) {
+    data.trash.forEach((item, i) => validateTrashItem(item, `trash[${i}]`, issues));
+  }
+
+  if (expectObject(data.settings, 'settings', issues)) {
+    if (data.settings.theme !== 'light' && data.settings.theme !== 'dark') {
+      issues.push(`settings.theme: expected "light" or "dark", got ${JSON.stringify(data.settings.theme)}`);
+    }
+    expectString(data.settings.lastSelectedGroup, 'settings.lastSelectedGroup', issues, true);
+    expectNumber(data.settings.lastSelectedYear, 'settings.lastSelectedYear', issues, true);
+    expectNumber(data.settings.backupReminderDays, 'settings.backupReminderDays', issues, true);
+    expectString(data.settings.lastBackupAt, 'settings.lastBackupAt', issues, true);
+    expectNumber(data.settings.trashRetentionDays, 'settings.trashRetentionDays', issues, true);
+    expectString(data.settings.editorName, 'settings.editorName', issues, true);
+    if (data.settings.session !== undefined) validateSession(data.settings.session, 'settings.session', issues);
+  }
+
+  return issues;
+};